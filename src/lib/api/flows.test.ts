@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { getFlow } from "./flows";
+
+describe("getFlow", () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal("fetch", mockFetch);
+  });
+
+  afterEach(() => {
+    mockFetch.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it("fetches the server copy without the HTTP cache", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        id: "flow-1",
+        version: 3,
+        nodes: [],
+        connections: [],
+      }),
+    });
+
+    const flow = await getFlow("flow-1");
+
+    expect(mockFetch).toHaveBeenCalledWith("/flowbuilder/flows/flow-1", {
+      cache: "no-store",
+    });
+    expect(flow.version).toBe(3);
+  });
+
+  it("turns null nodes and connections into empty lists", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        id: "flow-1",
+        version: 3,
+        nodes: null,
+        connections: null,
+      }),
+    });
+
+    const flow = await getFlow("flow-1");
+
+    expect(flow.nodes).toEqual([]);
+    expect(flow.connections).toEqual([]);
+  });
+
+  it("throws the backend error message", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      json: async () => ({ error: "flow not found" }),
+    });
+
+    await expect(getFlow("missing")).rejects.toThrow("flow not found");
+  });
+});
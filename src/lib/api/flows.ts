@@ -53,13 +53,29 @@ export class ValidationError extends Error {
   }
 }
 
+/**
+ * Custom error class for optimistic-concurrency conflicts: someone else saved
+ * the flow since this copy was loaded
+ */
+export class FlowConflictError extends Error {
+  constructor(
+    message: string,
+    public flowId: string,
+    public attemptedVersion: number,
+  ) {
+    super(message);
+    this.name = "FlowConflictError";
+  }
+}
+
 /**
  * Save flow changes to the backend
  *
  * @param flowId - Flow identifier
  * @param data - Updated flow data
  * @returns Updated flow with new version number
- * @throws Error if save fails (network, validation, conflict)
+ * @throws FlowConflictError if the flow changed on the server since `data.version`
+ * @throws Error if save fails (network, validation)
  */
 export async function saveFlow(
   flowId: string,
@@ -74,13 +90,48 @@ export async function saveFlow(
   });
 
   if (!response.ok) {
-    const error: APIError = await response.json();
+    const error: APIError = await response.json().catch(() => ({ error: "" }));
+
+    if (response.status === 409) {
+      throw new FlowConflictError(
+        error.error || "Flow was changed by someone else",
+        flowId,
+        data.version,
+      );
+    }
+
     throw new Error(error.error || "Save failed");
   }
 
   return await response.json();
 }
 
+/**
+ * Fetch the current server copy of a flow
+ *
+ * @param flowId - Flow identifier
+ * @returns Flow as currently stored, including its latest version
+ * @throws Error if the flow cannot be loaded
+ */
+export async function getFlow(flowId: string): Promise<Flow> {
+  const response = await fetch(`/flowbuilder/flows/${flowId}`, {
+    cache: "no-store",
+  });
+
+  if (!response.ok) {
+    const error: APIError = await response.json().catch(() => ({ error: "" }));
+    throw new Error(error.error || "Failed to load flow");
+  }
+
+  // The backend sends null for an empty nodes or connections list
+  const flow = await response.json();
+  return {
+    ...flow,
+    nodes: flow.nodes ?? [],
+    connections: flow.connections ?? [],
+  };
+}
+
 /**
  * Deploy flow to runtime (validates and writes ComponentConfigs to NATS KV)
  *
@@ -161,3 +212,15 @@ export async function stopFlow(flowId: string): Promise<Flow> {
 export function isValidationError(error: unknown): error is ValidationError {
   return error instanceof ValidationError;
 }
+
+/**
+ * Type guard for save conflicts
+ *
+ * @param error - Any error object
+ * @returns True if error is a FlowConflictError instance
+ */
+export function isFlowConflictError(
+  error: unknown,
+): error is FlowConflictError {
+  return error instanceof FlowConflictError;
+}
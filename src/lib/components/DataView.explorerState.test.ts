@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import DataView from "./DataView.svelte";
+import { graphStore } from "$lib/stores/graphStore.svelte";
+import { graphApi } from "$lib/services/graphApi";
+
+vi.mock("$lib/services/graphApi", () => ({
+  graphApi: {
+    pathSearch: vi.fn(),
+    getEntity: vi.fn(),
+    getEntitiesByPrefix: vi.fn(),
+  },
+  GraphApiError: class GraphApiError extends Error {
+    constructor(
+      message: string,
+      public statusCode: number,
+    ) {
+      super(message);
+      this.name = "GraphApiError";
+    }
+  },
+}));
+
+const mockGetEntitiesByPrefix = graphApi.getEntitiesByPrefix as ReturnType<
+  typeof vi.fn
+>;
+const mockPathSearch = graphApi.pathSearch as ReturnType<typeof vi.fn>;
+const mockGetEntity = graphApi.getEntity as ReturnType<typeof vi.fn>;
+
+const loadedId = "c360.ops.robotics.gcs.drone.001";
+const linkedId = "c360.ops.robotics.gcs.drone.999";
+
+beforeEach(() => {
+  graphStore.reset();
+  localStorage.clear();
+  mockGetEntitiesByPrefix.mockResolvedValue([{ id: loadedId, triples: [] }]);
+  mockPathSearch.mockResolvedValue({ entities: [], edges: [] });
+  mockGetEntity.mockResolvedValue({ id: linkedId, triples: [] });
+});
+
+afterEach(() => {
+  window.history.replaceState(null, "", "/");
+  vi.clearAllMocks();
+});
+
+describe("DataView explorer state", () => {
+  it("restores filters, selection and expanded entities from the URL", async () => {
+    window.history.replaceState(
+      null,
+      "",
+      `/?type=drone&conf=0.5&sel=${linkedId}&exp=${loadedId}`,
+    );
+
+    render(DataView, { props: { flowId: "flow-1" } });
+
+    expect(graphStore.filters.types).toEqual(["drone"]);
+    expect(graphStore.filters.minConfidence).toBe(0.5);
+    expect(graphStore.selectedEntityId).toBe(linkedId);
+
+    await waitFor(() => {
+      expect(graphStore.isExpanded(loadedId)).toBe(true);
+    });
+    expect(mockPathSearch).toHaveBeenCalledWith(loadedId, 1, 20);
+    // The selection wasn't in the first page, so it is fetched on its own
+    await waitFor(() => {
+      expect(graphStore.entities.has(linkedId)).toBe(true);
+    });
+    expect(mockGetEntity).toHaveBeenCalledWith(linkedId);
+  });
+
+  it("saves the current view and applies it later", async () => {
+    const user = userEvent.setup();
+    render(DataView, { props: { flowId: "flow-1" } });
+    await waitFor(() => expect(graphStore.loading).toBe(false));
+
+    graphStore.setFilters({ types: ["drone"] });
+    await user.type(screen.getByLabelText("View name"), "Drones{Enter}");
+    graphStore.resetFilters();
+
+    await user.selectOptions(screen.getByLabelText("Saved Views"), "Drones");
+
+    expect(graphStore.filters.types).toEqual(["drone"]);
+  });
+
+  it("copies a link to the current view", async () => {
+    const user = userEvent.setup();
+    const writeText = vi
+      .spyOn(navigator.clipboard, "writeText")
+      .mockResolvedValue();
+    render(DataView, { props: { flowId: "flow-1" } });
+    await waitFor(() => expect(graphStore.loading).toBe(false));
+
+    graphStore.selectEntity(loadedId);
+    await user.click(screen.getByRole("button", { name: "Copy link" }));
+
+    expect(writeText).toHaveBeenCalledWith(
+      `${window.location.origin}/?sel=${loadedId}`,
+    );
+    expect(
+      screen.getByRole("button", { name: "Link copied" }),
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import DataView from "./DataView.svelte";
+import { graphStore } from "$lib/stores/graphStore.svelte";
+import { graphApi, GraphApiError } from "$lib/services/graphApi";
+
+vi.mock("$lib/services/graphApi", () => ({
+  graphApi: {
+    pathSearch: vi.fn(),
+    getEntitiesByPrefix: vi.fn(),
+    getEntity: vi.fn(),
+  },
+  GraphApiError: class GraphApiError extends Error {
+    constructor(
+      message: string,
+      public statusCode: number,
+    ) {
+      super(message);
+      this.name = "GraphApiError";
+    }
+  },
+}));
+
+const mockGetEntitiesByPrefix = graphApi.getEntitiesByPrefix as ReturnType<
+  typeof vi.fn
+>;
+const mockGetEntity = graphApi.getEntity as ReturnType<typeof vi.fn>;
+
+// 450 entities: more than two pages of the 200-entity prefix scan
+const entityIds = Array.from(
+  { length: 450 },
+  (_, i) => `c360.ops.robotics.gcs.drone.${String(i).padStart(3, "0")}`,
+);
+
+function prefixScan(prefix: string, limit: number) {
+  return Promise.resolve(
+    entityIds
+      .filter((id) => id.startsWith(prefix))
+      .slice(0, limit)
+      .map((id) => ({ id, triples: [] })),
+  );
+}
+
+beforeEach(() => {
+  graphStore.reset();
+  mockGetEntitiesByPrefix.mockImplementation(prefixScan);
+  mockGetEntity.mockImplementation((id: string) =>
+    Promise.reject(new GraphApiError(`Entity ${id} not found`, 404)),
+  );
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("DataView progressive loading", () => {
+  it("streams entities past the first page into the store", async () => {
+    render(DataView, { props: { flowId: "flow-1" } });
+
+    await waitFor(() => {
+      expect(screen.getByTestId("graph-load-progress")).toHaveTextContent(
+        "All 450 entities loaded",
+      );
+    });
+    expect(graphStore.entities.size).toBe(450);
+    expect(mockGetEntitiesByPrefix).toHaveBeenNthCalledWith(1, "", 200);
+    // A full page's prefix may itself be an entity ID; 404s are skipped
+    expect(mockGetEntity).toHaveBeenCalledWith("c360.ops.robotics.gcs.drone.");
+  });
+
+  it("shows progress and stops on request", async () => {
+    const user = userEvent.setup();
+    // Only the first page ever arrives
+    mockGetEntitiesByPrefix.mockImplementation((prefix: string, limit) =>
+      prefix === "" ? prefixScan(prefix, limit) : new Promise(() => {}),
+    );
+    render(DataView, { props: { flowId: "flow-1" } });
+
+    const progress = await screen.findByTestId("graph-load-progress");
+    expect(progress).toHaveTextContent(
+      "Loading entities: 200 loaded of an unknown total",
+    );
+    // The first page is on screen while the rest loads
+    expect(screen.queryByText("Loading graph data...")).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Stop" }));
+
+    await waitFor(() => {
+      expect(progress).toHaveTextContent(
+        "Loading stopped: 200 entities loaded",
+      );
+    });
+    expect(graphStore.entities.size).toBe(200);
+  });
+
+  it("reports no total when IDs use characters outside the alphabet", async () => {
+    const spacedIds = Array.from(
+      { length: 250 },
+      (_, i) => `sensor ${String(i).padStart(3, "0")}`,
+    );
+    mockGetEntitiesByPrefix.mockImplementation((prefix: string, limit) =>
+      Promise.resolve(
+        spacedIds
+          .filter((id) => id.startsWith(prefix))
+          .slice(0, limit)
+          .map((id) => ({ id, triples: [] })),
+      ),
+    );
+    render(DataView, { props: { flowId: "flow-1" } });
+
+    await waitFor(() => {
+      expect(screen.getByTestId("graph-load-progress")).toHaveTextContent(
+        "250 entities loaded; some IDs use unexpected characters",
+      );
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it, vi } from "vitest";
+import { render, screen, within } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import DeployPlanModal from "./DeployPlanModal.svelte";
+import type { DeployPlan } from "$lib/services/deployPlan";
+
+function emptyPlan(overrides: Partial<DeployPlan> = {}): DeployPlan {
+  return {
+    create: [],
+    reconfigure: [],
+    remove: [],
+    unchanged: [],
+    unknown: [],
+    conflicts: [],
+    sharedResources: [],
+    ...overrides,
+  };
+}
+
+function renderModal(
+  props: Partial<{
+    plan: DeployPlan | null;
+    error: string | null;
+    deploying: boolean;
+  }> = {},
+) {
+  const handlers = {
+    onConfirm: vi.fn(),
+    onRetry: vi.fn(),
+    onCancel: vi.fn(),
+  };
+  render(DeployPlanModal, {
+    props: { flowName: "Telemetry", plan: null, ...props, ...handlers },
+  });
+  return handlers;
+}
+
+describe("DeployPlanModal", () => {
+  it("shows progress while the plan loads", () => {
+    renderModal();
+
+    expect(screen.getByRole("status")).toHaveTextContent(
+      "Comparing with the running topology",
+    );
+    expect(screen.getByRole("button", { name: "Deploy" })).toBeDisabled();
+  });
+
+  it("lists planned changes and deploys a safe plan straight away", async () => {
+    const user = userEvent.setup();
+    const handlers = renderModal({
+      plan: emptyPlan({
+        create: [{ name: "enricher", component: "json-transform" }],
+        reconfigure: [
+          {
+            name: "parser",
+            component: "json-transform",
+            changedKeys: ["strict"],
+          },
+        ],
+        unchanged: ["udp"],
+      }),
+    });
+
+    expect(
+      within(
+        screen.getByRole("region", { name: "Components to create" }),
+      ).getByText("enricher"),
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole("region", { name: "Components to reconfigure" }),
+    ).toHaveTextContent("changes strict");
+    expect(screen.getByText("1 component unchanged")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Deploy" }));
+
+    expect(handlers.onConfirm).toHaveBeenCalled();
+  });
+
+  it("lists running components whose config is unknown", () => {
+    renderModal({
+      plan: emptyPlan({ unknown: [{ name: "metrics", component: "metrics" }] }),
+    });
+
+    expect(
+      screen.getByRole("region", { name: "Components with unknown config" }),
+    ).toHaveTextContent("metrics");
+    expect(screen.getByRole("button", { name: "Deploy" })).toBeEnabled();
+  });
+
+  it("requires acknowledging shared resources, conflicts and removals", async () => {
+    const user = userEvent.setup();
+    const handlers = renderModal({
+      plan: emptyPlan({
+        remove: [{ name: "old-store", component: "objectstore" }],
+        conflicts: [{ name: "udp", flowName: "Ingest" }],
+        sharedResources: [
+          {
+            kind: "subject",
+            value: "billing.>",
+            usedBy: ["tap"],
+            sharedWith: [
+              {
+                component: "billing-in",
+                value: "billing.events",
+                flowName: "Billing",
+              },
+            ],
+          },
+        ],
+      }),
+    });
+
+    expect(
+      screen.getByRole("region", { name: "Shared resources" }),
+    ).toHaveTextContent(
+      "Used by tap; also used by billing-in (Billing) via billing.events",
+    );
+    expect(
+      screen.getByRole("region", { name: "Name conflicts" }),
+    ).toHaveTextContent('owned by "Ingest"');
+
+    const deploy = screen.getByRole("button", { name: "Deploy" });
+    expect(deploy).toBeDisabled();
+
+    await user.click(
+      screen.getByRole("checkbox", {
+        name: "I have reviewed the warnings and removals above",
+      }),
+    );
+    await user.click(deploy);
+
+    expect(handlers.onConfirm).toHaveBeenCalled();
+  });
+
+  it("offers a retry when the topology cannot be loaded", async () => {
+    const user = userEvent.setup();
+    const handlers = renderModal({ error: "Network Error" });
+
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "Could not compare with the running topology: Network Error",
+    );
+    expect(screen.getByRole("button", { name: "Deploy" })).toBeDisabled();
+
+    await user.click(screen.getByRole("button", { name: "Retry" }));
+    expect(handlers.onRetry).toHaveBeenCalled();
+
+    await user.keyboard("{Escape}");
+    expect(handlers.onCancel).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render } from "@testing-library/svelte";
+import FlowCanvas from "./FlowCanvas.svelte";
+import type { FlowConnection, FlowNode } from "$lib/types/flow";
+import type { FlowOverlay } from "$lib/services/flowAnalysisApi";
+
+vi.mock("d3", async () => {
+  const actual = await vi.importActual("d3");
+  return {
+    ...actual,
+    zoom: vi.fn(() => ({
+      scaleExtent: vi.fn().mockReturnThis(),
+      on: vi.fn().mockReturnThis(),
+      transform: vi.fn().mockReturnThis(),
+    })),
+    select: vi.fn(() => ({
+      call: vi.fn().mockReturnThis(),
+      transition: vi.fn().mockReturnThis(),
+    })),
+  };
+});
+
+function node(id: string, type: string): FlowNode {
+  return {
+    id,
+    component: `${type}-component`,
+    type,
+    name: id,
+    position: { x: 0, y: 0 },
+    config: {},
+  };
+}
+
+const nodes = [
+  node("udp", "input"),
+  node("parser", "processor"),
+  node("store", "storage"),
+  node("stray", "processor"),
+];
+
+const connections: FlowConnection[] = [
+  {
+    id: "udp-parser",
+    source_node_id: "udp",
+    source_port: "out",
+    target_node_id: "parser",
+    target_port: "in",
+  },
+  {
+    id: "parser-store",
+    source_node_id: "parser",
+    source_port: "out",
+    target_node_id: "store",
+    target_port: "in",
+  },
+];
+
+const portsMap = {
+  stray: {
+    input_ports: [
+      {
+        name: "in",
+        direction: "input" as const,
+        type: "message.Storable",
+        required: true,
+        connection_id: "stray.in",
+        pattern: "stream",
+        description: "",
+      },
+    ],
+    output_ports: [],
+  },
+};
+
+const overlay: FlowOverlay = {
+  unreachableNodeIds: ["stray"],
+  orphanedPorts: { stray: ["in"] },
+  downstream: { udp: ["parser", "store"] },
+};
+
+function nodeElement(container: HTMLElement, id: string): Element {
+  return container.querySelector(`[data-node-id="${id}"]`)!;
+}
+
+describe("FlowCanvas gap overlay", () => {
+  it("dims unreachable nodes and marks orphaned ports", () => {
+    const { container } = render(FlowCanvas, {
+      props: { nodes, connections, portsMap, overlay },
+    });
+
+    expect(nodeElement(container, "stray")).toHaveClass("dimmed");
+    expect(nodeElement(container, "udp")).not.toHaveClass("dimmed");
+    expect(
+      nodeElement(container, "stray").querySelector('[data-port-name="in"]'),
+    ).toHaveClass("port-orphaned");
+  });
+
+  it("highlights every downstream path when an input node is clicked", async () => {
+    const onNodeClick = vi.fn();
+    const { container } = render(FlowCanvas, {
+      props: { nodes, connections, portsMap, overlay, onNodeClick },
+    });
+
+    await fireEvent.click(nodeElement(container, "udp"));
+
+    for (const id of ["udp", "parser", "store"]) {
+      expect(nodeElement(container, id)).toHaveClass("highlighted");
+    }
+    expect(nodeElement(container, "stray")).toHaveClass("dimmed");
+    expect(
+      container.querySelector('[data-connection-id="parser-store"]'),
+    ).toHaveClass("highlighted");
+    expect(onNodeClick).toHaveBeenCalledWith("udp");
+
+    await fireEvent.click(nodeElement(container, "udp"));
+    expect(nodeElement(container, "parser")).not.toHaveClass("highlighted");
+  });
+
+  it("leaves the canvas untouched without an overlay", () => {
+    const { container } = render(FlowCanvas, {
+      props: { nodes, connections, portsMap },
+    });
+
+    expect(container.querySelectorAll(".dimmed, .highlighted")).toHaveLength(0);
+    expect(container.querySelector(".port-orphaned")).toBeNull();
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/svelte";
+import FlowCanvas from "./FlowCanvas.svelte";
+import { layoutNodes } from "$lib/utils/d3-layout";
+import type { FlowConnection, FlowNode } from "$lib/types/flow";
+
+vi.mock("d3", async () => {
+  const actual = await vi.importActual("d3");
+  return {
+    ...actual,
+    zoom: vi.fn(() => ({
+      scaleExtent: vi.fn().mockReturnThis(),
+      on: vi.fn().mockReturnThis(),
+      filter: vi.fn().mockReturnThis(),
+      transform: vi.fn().mockReturnThis(),
+    })),
+    select: vi.fn(() => ({
+      call: vi.fn().mockReturnThis(),
+      transition: vi.fn().mockReturnThis(),
+    })),
+  };
+});
+
+function node(id: string, x: number, y: number): FlowNode {
+  return {
+    id,
+    component: "json-transform",
+    type: "processor",
+    name: id,
+    position: { x, y },
+    config: {},
+  };
+}
+
+const nodes = [node("a", 100, 100), node("b", 400, 100), node("c", 100, 400)];
+
+const connections: FlowConnection[] = [
+  {
+    id: "a-b",
+    source_node_id: "a",
+    source_port: "out",
+    target_node_id: "b",
+    target_port: "in",
+  },
+];
+
+function nodeElement(container: HTMLElement, id: string): Element {
+  return container.querySelector(`[data-node-id="${id}"]`)!;
+}
+
+async function dragNode(
+  container: HTMLElement,
+  id: string,
+  dx: number,
+  dy: number,
+) {
+  await fireEvent.pointerDown(nodeElement(container, id), {
+    button: 0,
+    clientX: 0,
+    clientY: 0,
+  });
+  await fireEvent.pointerMove(window, { clientX: dx, clientY: dy });
+  await fireEvent.pointerUp(window, { clientX: dx, clientY: dy });
+}
+
+describe("FlowCanvas positioning", () => {
+  it("renders nodes at their saved positions", () => {
+    const { container } = render(FlowCanvas, { props: { nodes, connections } });
+
+    expect(nodeElement(container, "b").getAttribute("transform")).toBe(
+      "translate(400, 100)",
+    );
+  });
+
+  it("reports a dragged node's new position snapped to the grid", async () => {
+    const onNodesMove = vi.fn();
+    const { container } = render(FlowCanvas, {
+      props: { nodes, connections, editable: true, onNodesMove },
+    });
+
+    await dragNode(container, "a", 33, 47);
+
+    expect(onNodesMove).toHaveBeenCalledWith({ a: { x: 140, y: 140 } });
+  });
+
+  it("keeps exact positions when snapping is turned off", async () => {
+    const onNodesMove = vi.fn();
+    const { container } = render(FlowCanvas, {
+      props: { nodes, connections, editable: true, onNodesMove },
+    });
+
+    const snap = screen.getByRole("button", { name: "Snap to grid" });
+    expect(snap).toHaveAttribute("aria-pressed", "true");
+    await fireEvent.click(snap);
+    await dragNode(container, "a", 33, 47);
+
+    expect(onNodesMove).toHaveBeenCalledWith({ a: { x: 133, y: 147 } });
+  });
+
+  it("treats a press without movement as a click", async () => {
+    const onNodesMove = vi.fn();
+    const onNodeClick = vi.fn();
+    const { container } = render(FlowCanvas, {
+      props: { nodes, connections, editable: true, onNodesMove, onNodeClick },
+    });
+
+    await dragNode(container, "a", 1, 1);
+    await fireEvent.click(nodeElement(container, "a"));
+
+    expect(onNodesMove).not.toHaveBeenCalled();
+    expect(onNodeClick).toHaveBeenCalledWith("a");
+  });
+
+  it("does not open the node editor at the end of a drag", async () => {
+    const onNodeClick = vi.fn();
+    const { container } = render(FlowCanvas, {
+      props: { nodes, connections, editable: true, onNodeClick },
+    });
+
+    await dragNode(container, "a", 60, 0);
+    await fireEvent.click(nodeElement(container, "a"));
+
+    expect(onNodeClick).not.toHaveBeenCalled();
+  });
+
+  it("moves every node selected with the rubber band together", async () => {
+    const onNodesMove = vi.fn();
+    const { container } = render(FlowCanvas, {
+      props: { nodes, connections, editable: true, onNodesMove },
+    });
+
+    const svg = container.querySelector("svg")!;
+    await fireEvent.pointerDown(svg, {
+      button: 0,
+      shiftKey: true,
+      clientX: 50,
+      clientY: 50,
+    });
+    await fireEvent.pointerMove(window, { clientX: 700, clientY: 250 });
+    expect(screen.getByTestId("rubber-band")).toBeInTheDocument();
+    await fireEvent.pointerUp(window, { clientX: 700, clientY: 250 });
+
+    expect(screen.queryByTestId("rubber-band")).not.toBeInTheDocument();
+    expect(nodeElement(container, "a")).toHaveClass("selected");
+    expect(nodeElement(container, "b")).toHaveClass("selected");
+    expect(nodeElement(container, "c")).not.toHaveClass("selected");
+
+    await dragNode(container, "b", 40, 20);
+
+    expect(onNodesMove).toHaveBeenCalledWith({
+      a: { x: 140, y: 120 },
+      b: { x: 440, y: 120 },
+    });
+  });
+
+  it("adds and removes nodes from the selection with Shift+click", async () => {
+    const onNodeClick = vi.fn();
+    const { container } = render(FlowCanvas, {
+      props: { nodes, connections, editable: true, onNodeClick },
+    });
+
+    await fireEvent.pointerDown(nodeElement(container, "a"), {
+      button: 0,
+      shiftKey: true,
+    });
+    await fireEvent.click(nodeElement(container, "a"));
+    await fireEvent.pointerDown(nodeElement(container, "c"), {
+      button: 0,
+      shiftKey: true,
+    });
+    await fireEvent.pointerDown(nodeElement(container, "a"), {
+      button: 0,
+      shiftKey: true,
+    });
+
+    expect(onNodeClick).not.toHaveBeenCalled();
+    expect(nodeElement(container, "a")).not.toHaveClass("selected");
+    expect(nodeElement(container, "c")).toHaveClass("selected");
+  });
+
+  it("writes the automatic layout into positions on auto-arrange", async () => {
+    const onAutoArrange = vi.fn();
+    render(FlowCanvas, {
+      props: { nodes, connections, editable: true, onAutoArrange },
+    });
+
+    await fireEvent.click(screen.getByRole("button", { name: "Auto-arrange" }));
+
+    const expected = Object.fromEntries(
+      layoutNodes(nodes, connections).map((n) => [n.id, { x: n.x, y: n.y }]),
+    );
+    expect(onAutoArrange).toHaveBeenCalledWith(expected);
+  });
+
+  it("is read-only unless editable", async () => {
+    const onNodesMove = vi.fn();
+    const { container } = render(FlowCanvas, {
+      props: { nodes, connections, onNodesMove },
+    });
+
+    await dragNode(container, "a", 60, 60);
+
+    expect(onNodesMove).not.toHaveBeenCalled();
+    expect(
+      screen.queryByRole("button", { name: "Auto-arrange" }),
+    ).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/svelte";
+import FlowCanvas from "./FlowCanvas.svelte";
+import type { FlowConnection, FlowNode } from "$lib/types/flow";
+import type { ValidatedPort } from "$lib/types/port";
+
+vi.mock("d3", async () => {
+  const actual = await vi.importActual("d3");
+  return {
+    ...actual,
+    zoom: vi.fn(() => ({
+      scaleExtent: vi.fn().mockReturnThis(),
+      on: vi.fn().mockReturnThis(),
+      filter: vi.fn().mockReturnThis(),
+      transform: vi.fn().mockReturnThis(),
+    })),
+    select: vi.fn(() => ({
+      call: vi.fn().mockReturnThis(),
+      transition: vi.fn().mockReturnThis(),
+    })),
+  };
+});
+
+function node(id: string, x: number): FlowNode {
+  return {
+    id,
+    component: "json-transform",
+    type: "processor",
+    name: id,
+    position: { x, y: 100 },
+    config: {},
+  };
+}
+
+function port(
+  name: string,
+  direction: "input" | "output",
+  type = "message.Storable",
+): ValidatedPort {
+  return {
+    name,
+    direction,
+    type,
+    required: false,
+    connection_id: `${name}.subject`,
+    pattern: "stream",
+    description: "",
+  };
+}
+
+const nodes = [node("udp", 100), node("parser", 400), node("metrics", 700)];
+
+const portsMap = {
+  udp: { input_ports: [], output_ports: [port("out", "output")] },
+  parser: {
+    input_ports: [port("in", "input")],
+    output_ports: [port("parsed", "output")],
+  },
+  metrics: {
+    input_ports: [port("samples", "input", "metrics.Sample")],
+    output_ports: [],
+  },
+};
+
+function portElement(container: HTMLElement, nodeId: string, name: string) {
+  return container.querySelector(
+    `[data-node-id="${nodeId}"] circle[data-port-name="${name}"]`,
+  )!;
+}
+
+async function wire(
+  container: HTMLElement,
+  from: [string, string],
+  to: [string, string],
+) {
+  await fireEvent.pointerDown(portElement(container, ...from), {
+    button: 0,
+    clientX: 300,
+    clientY: 130,
+  });
+  await fireEvent.pointerMove(window, { clientX: 380, clientY: 130 });
+  await fireEvent.pointerEnter(portElement(container, ...to));
+}
+
+describe("FlowCanvas manual wiring", () => {
+  it("connects an output port to a compatible input port", async () => {
+    const onConnect = vi.fn();
+    const onNodesMove = vi.fn();
+    const { container } = render(FlowCanvas, {
+      props: {
+        nodes,
+        connections: [],
+        portsMap,
+        editable: true,
+        onConnect,
+        onNodesMove,
+      },
+    });
+
+    await wire(container, ["udp", "out"], ["parser", "in"]);
+    expect(screen.getByTestId("wire-preview")).toHaveClass("compatible");
+    await fireEvent.pointerUp(window);
+
+    expect(onConnect).toHaveBeenCalledWith({
+      id: "conn_udp_out_parser_in",
+      source_node_id: "udp",
+      source_port: "out",
+      target_node_id: "parser",
+      target_port: "in",
+      source: "manual",
+    });
+    expect(onNodesMove).not.toHaveBeenCalled();
+    expect(screen.queryByTestId("wire-preview")).not.toBeInTheDocument();
+  });
+
+  it("highlights input ports by compatibility while dragging", async () => {
+    const { container } = render(FlowCanvas, {
+      props: { nodes, connections: [], portsMap, editable: true },
+    });
+
+    await fireEvent.pointerDown(portElement(container, "udp", "out"), {
+      button: 0,
+    });
+
+    expect(portElement(container, "parser", "in")).toHaveClass(
+      "port-compatible",
+    );
+    expect(portElement(container, "metrics", "samples")).toHaveClass(
+      "port-incompatible",
+    );
+  });
+
+  it("rejects an incompatible drop and shows the reason", async () => {
+    const onConnect = vi.fn();
+    const { container } = render(FlowCanvas, {
+      props: { nodes, connections: [], portsMap, editable: true, onConnect },
+    });
+
+    await wire(container, ["udp", "out"], ["metrics", "samples"]);
+    expect(screen.getByTestId("wire-preview")).toHaveClass("incompatible");
+    expect(container.querySelector(".wire-reason")).toHaveTextContent(
+      "Port types do not match",
+    );
+    await fireEvent.pointerUp(window);
+
+    expect(onConnect).not.toHaveBeenCalled();
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "Cannot connect out to samples: Port types do not match",
+    );
+  });
+
+  it("rejects connecting ports that are already connected", async () => {
+    const onConnect = vi.fn();
+    const existing: FlowConnection = {
+      id: "conn_udp_out_parser_in",
+      source_node_id: "udp",
+      source_port: "out",
+      target_node_id: "parser",
+      target_port: "in",
+      source: "manual",
+    };
+    const { container } = render(FlowCanvas, {
+      props: {
+        nodes,
+        connections: [existing],
+        portsMap,
+        editable: true,
+        onConnect,
+      },
+    });
+
+    await wire(container, ["udp", "out"], ["parser", "in"]);
+    await fireEvent.pointerUp(window);
+
+    expect(onConnect).not.toHaveBeenCalled();
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      "These ports are already connected",
+    );
+  });
+
+  it("deletes a selected manual connection", async () => {
+    const onConnectionDelete = vi.fn();
+    render(FlowCanvas, {
+      props: {
+        nodes,
+        connections: [
+          {
+            id: "conn_udp_out_parser_in",
+            source_node_id: "udp",
+            source_port: "out",
+            target_node_id: "parser",
+            target_port: "in",
+            source: "manual",
+          },
+        ],
+        portsMap,
+        editable: true,
+        onConnectionDelete,
+      },
+    });
+
+    await fireEvent.click(
+      screen.getByRole("button", { name: /Connection udp\.out to parser\.in/ }),
+    );
+    expect(
+      screen.queryByRole("button", { name: "Make manual" }),
+    ).not.toBeInTheDocument();
+    await fireEvent.click(
+      screen.getByRole("button", { name: "Delete connection" }),
+    );
+
+    expect(onConnectionDelete).toHaveBeenCalledWith("conn_udp_out_parser_in");
+  });
+
+  it("promotes a selected auto connection to a manual one", async () => {
+    const onConnectionPromote = vi.fn();
+    const onConnectionDelete = vi.fn();
+    render(FlowCanvas, {
+      props: {
+        nodes,
+        connections: [
+          {
+            id: "auto_udp_out_parser_in",
+            source_node_id: "udp",
+            source_port: "out",
+            target_node_id: "parser",
+            target_port: "in",
+            source: "auto",
+          },
+        ],
+        portsMap,
+        editable: true,
+        onConnectionPromote,
+        onConnectionDelete,
+      },
+    });
+
+    await fireEvent.click(
+      screen.getByRole("button", { name: /Connection udp\.out to parser\.in/ }),
+    );
+    // Auto connections are rediscovered on validation, so they cannot be deleted
+    await fireEvent.keyDown(window, { key: "Delete" });
+    expect(onConnectionDelete).not.toHaveBeenCalled();
+
+    await fireEvent.click(screen.getByRole("button", { name: "Make manual" }));
+
+    expect(onConnectionPromote).toHaveBeenCalledWith("auto_udp_out_parser_in");
+  });
+
+  it("does not start wiring on a read-only canvas", async () => {
+    const { container } = render(FlowCanvas, {
+      props: { nodes, connections: [], portsMap },
+    });
+
+    await fireEvent.pointerDown(portElement(container, "udp", "out"), {
+      button: 0,
+    });
+
+    expect(screen.queryByTestId("wire-preview")).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from "vitest";
+import { render, screen } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import FlowClipboardControls from "./FlowClipboardControls.svelte";
+
+function renderControls(selectionCount: number) {
+  const props = {
+    selectionCount,
+    onCopy: vi.fn(),
+    onCut: vi.fn(),
+    onPaste: vi.fn(),
+    onDuplicate: vi.fn(),
+  };
+  render(FlowClipboardControls, { props });
+  return props;
+}
+
+describe("FlowClipboardControls", () => {
+  it("acts on the current selection", async () => {
+    const user = userEvent.setup();
+    const props = renderControls(2);
+
+    expect(screen.getByText("2 nodes selected")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Copy" })).toHaveAttribute(
+      "title",
+      "Copy 2 nodes (Ctrl/⌘+C)",
+    );
+
+    await user.click(screen.getByRole("button", { name: "Copy" }));
+    await user.click(screen.getByRole("button", { name: "Cut" }));
+    await user.click(screen.getByRole("button", { name: "Duplicate" }));
+
+    expect(props.onCopy).toHaveBeenCalledOnce();
+    expect(props.onCut).toHaveBeenCalledOnce();
+    expect(props.onDuplicate).toHaveBeenCalledOnce();
+  });
+
+  it("only allows pasting without a selection", async () => {
+    const user = userEvent.setup();
+    const props = renderControls(0);
+
+    expect(screen.getByRole("button", { name: "Copy" })).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Cut" })).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Duplicate" })).toBeDisabled();
+    expect(screen.queryByText(/selected/)).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Paste" }));
+
+    expect(props.onPaste).toHaveBeenCalledOnce();
+  });
+});
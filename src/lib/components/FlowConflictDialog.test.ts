@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from "vitest";
+import { render, screen, within } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import FlowConflictDialog from "./FlowConflictDialog.svelte";
+import {
+  computeFlowConflict,
+  type FlowSnapshot,
+} from "$lib/services/flowMerge";
+import type { FlowNode } from "$lib/types/flow";
+
+function makeNode(
+  id: string,
+  name: string,
+  config: Record<string, unknown> = {},
+): FlowNode {
+  return {
+    id,
+    component: "test-component",
+    type: "processor",
+    name,
+    position: { x: 0, y: 0 },
+    config,
+  };
+}
+
+const base: FlowSnapshot = {
+  nodes: [
+    makeNode("n1", "udp-input", { port: 5000 }),
+    makeNode("n2", "parser"),
+  ],
+  connections: [],
+};
+const mine: FlowSnapshot = {
+  nodes: [
+    makeNode("n1", "udp-input", { port: 6000 }),
+    makeNode("n2", "parser"),
+  ],
+  connections: [],
+};
+const theirs: FlowSnapshot = {
+  nodes: [
+    makeNode("n1", "udp-input", { port: 7000 }),
+    makeNode("n2", "json-parser"),
+  ],
+  connections: [],
+};
+
+function renderDialog() {
+  const props = {
+    conflict: computeFlowConflict(base, mine, theirs),
+    serverVersion: 4,
+    onKeepTheirs: vi.fn(),
+    onKeepMine: vi.fn(),
+    onMerge: vi.fn(),
+    onCancel: vi.fn(),
+  };
+  render(FlowConflictDialog, { props });
+  return props;
+}
+
+describe("FlowConflictDialog", () => {
+  it("shows a base, mine, theirs row for each differing node", () => {
+    renderDialog();
+
+    expect(screen.getByRole("dialog")).toHaveTextContent(
+      "The server now has version 4",
+    );
+
+    const both = screen.getByTestId("conflict-node-n1");
+    expect(both).toHaveTextContent("Changed on both sides");
+    expect(within(both).getAllByText("Config: port")).toHaveLength(2);
+
+    const renamed = screen.getByTestId("conflict-node-n2");
+    expect(renamed).toHaveTextContent('Renamed to "json-parser"');
+    expect(within(renamed).getByText("Unchanged")).toBeInTheDocument();
+  });
+
+  it("submits the per-node choices when merging", async () => {
+    const user = userEvent.setup();
+    const props = renderDialog();
+
+    const row = screen.getByTestId("conflict-node-n1");
+    expect(within(row).getByLabelText("Mine")).toBeChecked();
+    expect(
+      within(screen.getByTestId("conflict-node-n2")).getByLabelText("Theirs"),
+    ).toBeChecked();
+
+    await user.click(within(row).getByLabelText("Theirs"));
+    await user.click(screen.getByRole("button", { name: "Save merge" }));
+
+    expect(props.onMerge).toHaveBeenCalledWith({ n1: "theirs", n2: "theirs" });
+  });
+
+  it("offers keep theirs, keep mine, and cancel", async () => {
+    const user = userEvent.setup();
+    const props = renderDialog();
+
+    await user.click(screen.getByRole("button", { name: "Keep theirs" }));
+    await user.click(screen.getByRole("button", { name: "Keep mine" }));
+    await user.keyboard("{Escape}");
+
+    expect(props.onKeepTheirs).toHaveBeenCalledOnce();
+    expect(props.onKeepMine).toHaveBeenCalledOnce();
+    expect(props.onCancel).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest";
+import { render, screen } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import FlowHistoryControls from "./FlowHistoryControls.svelte";
+
+const entries = [
+  { index: 0, label: "Opened flow" },
+  { index: 1, label: 'Deleted "udp-input"' },
+  { index: 2, label: 'Edited "graph-processor"' },
+];
+
+function renderControls(currentIndex: number) {
+  const props = {
+    entries,
+    currentIndex,
+    onUndo: vi.fn(),
+    onRedo: vi.fn(),
+    onJump: vi.fn(),
+  };
+  render(FlowHistoryControls, { props });
+  return props;
+}
+
+describe("FlowHistoryControls", () => {
+  it("enables undo and redo from the current position", async () => {
+    const user = userEvent.setup();
+    const props = renderControls(1);
+
+    const undo = screen.getByRole("button", { name: "Undo" });
+    const redo = screen.getByRole("button", { name: "Redo" });
+    expect(undo).toHaveAttribute(
+      "title",
+      'Undo Deleted "udp-input" (Ctrl/⌘+Z)',
+    );
+    expect(redo).toHaveAttribute(
+      "title",
+      'Redo Edited "graph-processor" (Ctrl/⌘+Shift+Z)',
+    );
+
+    await user.click(undo);
+    await user.click(redo);
+
+    expect(props.onUndo).toHaveBeenCalledOnce();
+    expect(props.onRedo).toHaveBeenCalledOnce();
+  });
+
+  it("disables undo at the opened state and redo at the latest state", () => {
+    renderControls(0);
+    expect(screen.getByRole("button", { name: "Undo" })).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Redo" })).toBeEnabled();
+  });
+
+  it("lists every entry and jumps to the chosen state", async () => {
+    const user = userEvent.setup();
+    const props = renderControls(2);
+
+    await user.click(screen.getByRole("button", { name: "History" }));
+
+    const list = screen.getByRole("list", { name: "Edit history" });
+    expect(list.querySelectorAll("li")).toHaveLength(3);
+    expect(screen.getByTestId("flow-history-entry-2")).toHaveAttribute(
+      "aria-current",
+      "step",
+    );
+
+    await user.click(screen.getByTestId("flow-history-entry-0"));
+
+    expect(props.onJump).toHaveBeenCalledWith(0);
+    expect(screen.queryByRole("list", { name: "Edit history" })).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from "vitest";
+import { render, screen, waitFor } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import FlowImportButton from "./FlowImportButton.svelte";
+import type { ComponentType } from "$lib/types/component";
+
+const flowJson = JSON.stringify({
+  name: "Sensor pipeline",
+  nodes: [
+    { id: "n1", component: "udp", name: "udp-input", config: {} },
+    { id: "n2", component: "missing", name: "mystery", config: {} },
+  ],
+  connections: [],
+});
+
+function renderButton() {
+  const props = {
+    onImport: vi.fn(async () => {}),
+    loadComponentTypes: vi.fn(
+      async () => [{ id: "udp", name: "UDP" }] as ComponentType[],
+    ),
+  };
+  render(FlowImportButton, { props });
+  return props;
+}
+
+describe("FlowImportButton", () => {
+  it("previews validation for the chosen file before importing", async () => {
+    const user = userEvent.setup();
+    const props = renderButton();
+
+    await user.upload(
+      screen.getByTestId("flow-import-file"),
+      new File([flowJson], "pipeline.json", { type: "application/json" }),
+    );
+
+    const dialog = await screen.findByRole("dialog");
+    expect(dialog).toHaveTextContent('Import "Sensor pipeline" (2 components)');
+    expect(dialog).toHaveTextContent(
+      'Component "missing" is not available in this environment',
+    );
+    expect(dialog).toHaveTextContent("mystery");
+    expect(props.onImport).not.toHaveBeenCalled();
+
+    await user.click(
+      screen.getByRole("button", { name: 'Import "Sensor pipeline" anyway' }),
+    );
+
+    await waitFor(() => expect(screen.queryByRole("dialog")).toBeNull());
+    expect(props.onImport).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "Sensor pipeline" }),
+    );
+  });
+
+  it("reports files that cannot be parsed", async () => {
+    const user = userEvent.setup();
+    const props = renderButton();
+
+    await user.upload(
+      screen.getByTestId("flow-import-file"),
+      new File(["nodes: ["], "broken.yaml"),
+    );
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(/^Invalid YAML/);
+    expect(props.loadComponentTypes).not.toHaveBeenCalled();
+    expect(screen.queryByRole("dialog")).toBeNull();
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, expect, it, vi } from "vitest";
+import { render, screen, within } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import FlowList from "./FlowList.svelte";
+import type { Flow } from "$lib/types/flow";
+
+function flow(
+  id: string,
+  name: string,
+  runtimeState: Flow["runtime_state"] = "not_deployed",
+): Flow {
+  return {
+    version: 1,
+    id,
+    name,
+    description: `Description for ${name}`,
+    nodes: [],
+    connections: [],
+    runtime_state: runtimeState,
+    created_at: "2026-10-01T00:00:00Z",
+    updated_at: "2026-10-01T00:00:00Z",
+    last_modified: "2026-10-01T00:00:00Z",
+  };
+}
+
+const flows = [
+  flow("flow-1", "Telemetry", "running"),
+  flow("flow-2", "Alerts"),
+  flow("flow-3", "Archive", "deployed_stopped"),
+];
+
+function cardTitles() {
+  return screen
+    .getAllByRole("heading", { level: 3 })
+    .map((heading) => heading.textContent);
+}
+
+describe("FlowList management", () => {
+  it("searches and filters flows by state", async () => {
+    const user = userEvent.setup();
+    render(FlowList, { props: { flows } });
+
+    expect(cardTitles()).toEqual(["Alerts", "Archive", "Telemetry"]);
+
+    await user.type(screen.getByLabelText("Search flows"), "tele");
+    expect(cardTitles()).toEqual(["Telemetry"]);
+
+    await user.clear(screen.getByLabelText("Search flows"));
+    await user.click(screen.getByRole("button", { name: "Stopped 1" }));
+    expect(cardTitles()).toEqual(["Archive"]);
+    expect(screen.getByRole("button", { name: "Stopped 1" })).toHaveAttribute(
+      "aria-pressed",
+      "true",
+    );
+
+    await user.type(screen.getByLabelText("Search flows"), "nothing");
+    expect(screen.getByText(/no flows match/i)).toBeInTheDocument();
+  });
+
+  it("sorts by state", async () => {
+    const user = userEvent.setup();
+    render(FlowList, { props: { flows } });
+
+    await user.selectOptions(screen.getByLabelText("Sort by"), "state");
+
+    expect(cardTitles()).toEqual(["Telemetry", "Archive", "Alerts"]);
+  });
+
+  it("clones, renames and exports flows", async () => {
+    const user = userEvent.setup();
+    const onClone = vi.fn();
+    const onRename = vi.fn();
+    const onExport = vi.fn();
+    render(FlowList, { props: { flows, onClone, onRename, onExport } });
+
+    await user.click(screen.getByRole("button", { name: "Clone Alerts" }));
+    expect(onClone).toHaveBeenCalledWith(flows[1]);
+
+    await user.click(screen.getByRole("button", { name: "Export Archive" }));
+    expect(onExport).toHaveBeenCalledWith(flows[2]);
+
+    await user.click(screen.getByRole("button", { name: "Rename Alerts" }));
+    const input = screen.getByLabelText("New name for Alerts");
+    await user.clear(input);
+    await user.type(input, "Paging{Enter}");
+    expect(onRename).toHaveBeenCalledWith(flows[1], "Paging");
+    expect(
+      screen.queryByLabelText("New name for Alerts"),
+    ).not.toBeInTheDocument();
+  });
+
+  it("asks for confirmation before deleting and shows failures", async () => {
+    const user = userEvent.setup();
+    const onDelete = vi
+      .fn()
+      .mockRejectedValue(new Error("Failed to delete flow: Conflict"));
+    render(FlowList, { props: { flows, onDelete } });
+
+    // Deployed flows have to be undeployed first
+    expect(
+      screen.getByRole("button", { name: "Delete Telemetry" }),
+    ).toBeDisabled();
+
+    await user.click(screen.getByRole("button", { name: "Delete Alerts" }));
+    const confirm = screen.getByRole("alertdialog", {
+      name: "Confirm delete",
+    });
+    expect(confirm).toHaveTextContent(
+      'Delete "Alerts"? This cannot be undone.',
+    );
+    expect(onDelete).not.toHaveBeenCalled();
+
+    await user.click(within(confirm).getByRole("button", { name: "Delete" }));
+
+    expect(onDelete).toHaveBeenCalledWith(flows[1]);
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "Failed to delete flow: Conflict",
+    );
+  });
+
+  it("stops and undeploys selected flows", async () => {
+    const user = userEvent.setup();
+    const onBulkStop = vi.fn();
+    const onBulkUndeploy = vi.fn();
+    render(FlowList, { props: { flows, onBulkStop, onBulkUndeploy } });
+
+    await user.click(screen.getByRole("checkbox", { name: "Select Alerts" }));
+    expect(screen.getByText("1 selected")).toBeInTheDocument();
+    // Nothing selected is running or deployed yet
+    expect(
+      screen.getByRole("button", { name: "Stop selected" }),
+    ).toBeDisabled();
+    expect(
+      screen.getByRole("button", { name: "Undeploy selected" }),
+    ).toBeDisabled();
+
+    await user.click(
+      screen.getByRole("checkbox", { name: "Select all shown" }),
+    );
+    expect(screen.getByText("3 selected")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Stop selected" }));
+    expect(onBulkStop).toHaveBeenCalledWith(flows);
+    // Selection is cleared after a successful bulk action
+    expect(screen.queryByText("3 selected")).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole("checkbox", { name: "Select Archive" }));
+    // Nothing selected is running, so undeploy goes straight through
+    await user.click(screen.getByRole("button", { name: "Undeploy selected" }));
+    expect(onBulkUndeploy).toHaveBeenCalledWith([flows[2]]);
+  });
+
+  it("confirms before undeploying running flows", async () => {
+    const user = userEvent.setup();
+    const onBulkUndeploy = vi.fn();
+    render(FlowList, { props: { flows, onBulkUndeploy } });
+
+    await user.click(
+      screen.getByRole("checkbox", { name: "Select Telemetry" }),
+    );
+    await user.click(screen.getByRole("checkbox", { name: "Select Archive" }));
+    await user.click(screen.getByRole("button", { name: "Undeploy selected" }));
+
+    const dialog = screen.getByRole("alertdialog", {
+      name: "Confirm undeploy",
+    });
+    expect(dialog).toHaveTextContent(
+      'Undeploy 2 selected flows? "Telemetry" is running and will be stopped first.',
+    );
+    expect(onBulkUndeploy).not.toHaveBeenCalled();
+
+    await user.click(within(dialog).getByRole("button", { name: "Cancel" }));
+    expect(screen.queryByRole("alertdialog")).not.toBeInTheDocument();
+    expect(screen.getByText("2 selected")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Undeploy selected" }));
+    await user.click(screen.getByRole("button", { name: "Stop and undeploy" }));
+    expect(onBulkUndeploy).toHaveBeenCalledWith([flows[0], flows[2]]);
+    expect(screen.queryByRole("alertdialog")).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from "vitest";
+import { render, screen, waitFor } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import FlowTemplateGallery from "./FlowTemplateGallery.svelte";
+import {
+  serializeTemplate,
+  type FlowTemplate,
+} from "$lib/services/flowTemplates";
+
+const template: FlowTemplate = {
+  id: "tpl_sensor",
+  name: "Sensor pipeline",
+  description: "Reads and stores sensor data",
+  parameters: [
+    {
+      name: "bucket",
+      type: "string",
+      description: "writer › bucket",
+      default: "sensor-data",
+    },
+  ],
+  nodes: [
+    {
+      id: "writer",
+      component: "objectstore",
+      type: "storage",
+      name: "writer",
+      position: { x: 0, y: 0 },
+      config: { bucket: "{{bucket}}" },
+    },
+  ],
+  connections: [],
+  createdAt: "2026-10-01T12:00:00Z",
+};
+
+function renderGallery(templates: FlowTemplate[] = [template]) {
+  const props = {
+    templates,
+    onUse: vi.fn(),
+    onImport: vi.fn(),
+    onDelete: vi.fn(),
+    onClose: vi.fn(),
+  };
+  render(FlowTemplateGallery, { props });
+  return props;
+}
+
+describe("FlowTemplateGallery", () => {
+  it("lists templates with their parameters", () => {
+    renderGallery();
+
+    expect(screen.getByText("Sensor pipeline")).toBeInTheDocument();
+    expect(
+      screen.getByText("Reads and stores sensor data"),
+    ).toBeInTheDocument();
+    expect(screen.getByTestId("flow-template-tpl_sensor")).toHaveTextContent(
+      "1 component · bucket",
+    );
+  });
+
+  it("asks for parameters before using a template", async () => {
+    const user = userEvent.setup();
+    const props = renderGallery();
+
+    await user.click(
+      screen.getByRole("button", { name: "Use template: Sensor pipeline" }),
+    );
+    expect(
+      screen.getByRole("heading", {
+        name: 'Parameters for "Sensor pipeline"',
+      }),
+    ).toBeInTheDocument();
+
+    const input = screen.getByDisplayValue("sensor-data");
+    await user.clear(input);
+    await user.type(input, "plant-a");
+    await user.click(screen.getByRole("button", { name: "Use template" }));
+
+    await waitFor(() =>
+      expect(props.onUse).toHaveBeenCalledWith(template, {
+        bucket: "plant-a",
+      }),
+    );
+  });
+
+  it("uses templates without parameters straight away", async () => {
+    const user = userEvent.setup();
+    const plain = { ...template, parameters: [] };
+    const props = renderGallery([plain]);
+
+    await user.click(
+      screen.getByRole("button", { name: "Use template: Sensor pipeline" }),
+    );
+
+    expect(props.onUse).toHaveBeenCalledWith(plain, {});
+  });
+
+  it("imports template files and reports invalid ones", async () => {
+    const user = userEvent.setup();
+    const props = renderGallery([]);
+    const input = screen.getByTestId("flow-template-file");
+
+    await user.upload(
+      input,
+      new File([serializeTemplate(template)], "sensor.template.json", {
+        type: "application/json",
+      }),
+    );
+    await waitFor(() => expect(props.onImport).toHaveBeenCalledWith(template));
+
+    await user.upload(
+      input,
+      new File(['{"nodes": []}'], "other.json", { type: "application/json" }),
+    );
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "File is not a flow template",
+    );
+  });
+
+  it("deletes templates", async () => {
+    const user = userEvent.setup();
+    const props = renderGallery();
+
+    await user.click(
+      screen.getByRole("button", { name: "Delete Sensor pipeline" }),
+    );
+
+    expect(props.onDelete).toHaveBeenCalledWith("tpl_sensor");
+  });
+});
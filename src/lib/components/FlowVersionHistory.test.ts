@@ -0,0 +1,172 @@
+import { describe, expect, it, vi } from "vitest";
+import { render, screen, within } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import FlowVersionHistory from "./FlowVersionHistory.svelte";
+import type { FlowVersionSnapshot } from "$lib/services/flowVersionJournal";
+import type { FlowNode } from "$lib/types/flow";
+
+function node(id: string, config: Record<string, unknown> = {}): FlowNode {
+  return {
+    id,
+    component: "json-transform",
+    type: "processor",
+    name: id,
+    position: { x: 0, y: 0 },
+    config,
+  };
+}
+
+const entries: FlowVersionSnapshot[] = [
+  {
+    version: 3,
+    savedAt: "2026-10-03T12:00:00Z",
+    author: "sam",
+    name: "Telemetry",
+    nodes: [node("udp"), node("parser", { strict: true }), node("store")],
+    connections: [],
+    note: "Restored v1",
+  },
+  {
+    version: 2,
+    savedAt: "2026-10-02T12:00:00Z",
+    author: "",
+    name: "Telemetry",
+    nodes: [node("udp"), node("parser")],
+    connections: [],
+  },
+  {
+    version: 1,
+    savedAt: "2026-10-01T12:00:00Z",
+    author: "alex",
+    name: "Telemetry",
+    nodes: [node("udp")],
+    connections: [],
+  },
+];
+
+function renderHistory(
+  overrides: Partial<{ deployedAt: string; busy: boolean }> = {},
+) {
+  const props = {
+    entries,
+    currentVersion: 3,
+    author: "sam",
+    onAuthorChange: vi.fn(),
+    onRestore: vi.fn(),
+    onClose: vi.fn(),
+    ...overrides,
+  };
+  render(FlowVersionHistory, { props });
+  return props;
+}
+
+describe("FlowVersionHistory", () => {
+  it("lists versions with author, note and badges", () => {
+    renderHistory({ deployedAt: "2026-10-02T18:00:00Z" });
+
+    const latest = screen.getByTestId("flow-version-3");
+    expect(latest).toHaveTextContent("Current");
+    expect(latest).toHaveTextContent("sam");
+    expect(latest).toHaveTextContent("Restored v1");
+    expect(screen.getByTestId("flow-version-2")).toHaveTextContent("Deployed");
+    expect(screen.getByTestId("flow-version-2")).toHaveTextContent("Unknown");
+  });
+
+  it("compares the latest version with the previous one by default", () => {
+    renderHistory();
+
+    const compare = screen.getByRole("region", { name: "Compare versions" });
+    expect(within(compare).getByTestId("flow-diff-summary")).toHaveTextContent(
+      "Added: store",
+    );
+    expect(within(compare).getByTestId("flow-diff-summary")).toHaveTextContent(
+      "Modified: parser",
+    );
+  });
+
+  it("shows what changed since the deploy", async () => {
+    const user = userEvent.setup();
+    renderHistory({ deployedAt: "2026-10-01T18:00:00Z" });
+
+    await user.click(screen.getByRole("button", { name: "Since deploy" }));
+
+    expect(screen.getByLabelText("From")).toHaveValue("1");
+    expect(screen.getByTestId("flow-diff-summary")).toHaveTextContent(
+      "Added: parser, store",
+    );
+  });
+
+  it("compares any two versions", async () => {
+    const user = userEvent.setup();
+    renderHistory();
+
+    await user.selectOptions(screen.getByLabelText("From"), "1");
+    await user.selectOptions(screen.getByLabelText("To"), "2");
+
+    expect(screen.getByTestId("flow-diff-summary")).toHaveTextContent(
+      "Added: parser",
+    );
+  });
+
+  it("restores an earlier version but not the current one", async () => {
+    const user = userEvent.setup();
+    const props = renderHistory();
+
+    expect(screen.getByRole("button", { name: "Restore v3" })).toBeDisabled();
+    await user.click(screen.getByRole("button", { name: "Restore v1" }));
+
+    expect(props.onRestore).toHaveBeenCalledWith(entries[2]);
+  });
+
+  it("shows why a restore could not be saved", async () => {
+    const user = userEvent.setup();
+    const props = renderHistory();
+    props.onRestore.mockRejectedValue(
+      new Error("A save is in progress; restore v1 once it finishes"),
+    );
+
+    await user.click(screen.getByRole("button", { name: "Restore v1" }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "A save is in progress; restore v1 once it finishes",
+    );
+  });
+
+  it("explains why restoring is disabled during a save", () => {
+    renderHistory({ busy: true });
+
+    expect(screen.getByRole("button", { name: "Restore v1" })).toHaveAttribute(
+      "title",
+      "Wait for the current save to finish",
+    );
+  });
+
+  it("saves the author name and closes on Escape", async () => {
+    const user = userEvent.setup();
+    const props = renderHistory();
+
+    const input = screen.getByLabelText("Your name");
+    await user.clear(input);
+    await user.type(input, "robin");
+    await user.tab();
+    await user.keyboard("{Escape}");
+
+    expect(props.onAuthorChange).toHaveBeenCalledWith("robin");
+    expect(props.onClose).toHaveBeenCalled();
+  });
+
+  it("explains when nothing has been saved yet", () => {
+    render(FlowVersionHistory, {
+      props: {
+        entries: [],
+        currentVersion: 1,
+        author: "",
+        onAuthorChange: vi.fn(),
+        onRestore: vi.fn(),
+        onClose: vi.fn(),
+      },
+    });
+
+    expect(screen.getByText(/No saved versions yet/)).toBeInTheDocument();
+  });
+});
@@ -258,6 +258,16 @@ describe("OpsConsoleShell", () => {
       "href",
       "/flows",
     );
+    expect(
+      within(nav).getByRole("link", { name: "Workflows" }),
+    ).toHaveAttribute("href", "/workflow-console");
+    expect(
+      within(nav).getByRole("link", { name: "Anomalies" }),
+    ).toHaveAttribute("href", "/anomalies");
+    expect(within(nav).getByRole("link", { name: "Messages" })).toHaveAttribute(
+      "href",
+      "/messages",
+    );
   });
 
   it("shows read-side admin inspection with flow and runtime drill-downs", () => {
@@ -115,4 +115,18 @@ describe("PortHandle", () => {
     expect(handle?.classList.contains("port-nats_stream")).toBe(true);
     expect(handle?.classList.contains("port-solid")).toBe(true);
   });
+
+  it("should mark orphaned ports from flow gap analysis", async () => {
+    const { container, rerender } = render(PortHandle, {
+      props: { port: mockPort },
+    });
+
+    const handle = container.querySelector("[data-port-handle]");
+    expect(handle?.classList.contains("port-orphaned")).toBe(false);
+    expect(handle?.hasAttribute("data-orphaned")).toBe(false);
+
+    await rerender({ port: mockPort, orphaned: true });
+    expect(handle?.classList.contains("port-orphaned")).toBe(true);
+    expect(handle?.getAttribute("data-orphaned")).toBe("true");
+  });
 });
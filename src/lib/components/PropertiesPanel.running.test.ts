@@ -0,0 +1,41 @@
+import { render, screen } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import PropertiesPanel from "./PropertiesPanel.svelte";
+import type { FlowNode } from "$lib/types/flow";
+
+const node: FlowNode = {
+  id: "node-1",
+  component: "udp-input",
+  type: "input",
+  name: "udp",
+  position: { x: 0, y: 0 },
+  config: { port: 5000 },
+};
+
+describe("PropertiesPanel running config tab", () => {
+  it("flags drift on the tab and shows the diff when opened", async () => {
+    const user = userEvent.setup();
+    const fetchRunningConfig = vi.fn(async () => ({ port: 6000 }));
+    render(PropertiesPanel, {
+      props: {
+        mode: "edit",
+        node,
+        isFlowRunning: true,
+        fetchRunningConfig,
+      },
+    });
+
+    const tab = screen.getByRole("tab", { name: /running config/i });
+    expect(
+      await screen.findByTitle(/differ from the saved config/i),
+    ).toHaveTextContent("1");
+    expect(screen.getByTestId("running-config-drift")).not.toBeVisible();
+
+    await user.click(tab);
+
+    expect(tab).toHaveAttribute("aria-selected", "true");
+    expect(screen.getByTestId("running-config-drift")).toBeVisible();
+    expect(screen.getByTestId("prop-name-input")).not.toBeVisible();
+  });
+});
@@ -0,0 +1,92 @@
+import { render, screen, within } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import RunningConfigTab from "./RunningConfigTab.svelte";
+
+describe("RunningConfigTab", () => {
+  it("shows field-level drift between saved and running config", async () => {
+    const fetchRunningConfig = vi.fn(async () => ({
+      port: 6000,
+      bind: "0.0.0.0",
+    }));
+    render(RunningConfigTab, {
+      props: {
+        componentName: "udp",
+        savedConfig: { port: 5000, bind: "0.0.0.0" },
+        isFlowRunning: true,
+        fetchRunningConfig,
+      },
+    });
+
+    expect(await screen.findByTestId("running-config-drift")).toHaveTextContent(
+      "1 field differ from the saved config",
+    );
+    const row = screen.getByTestId("drift-row-port");
+    expect(within(row).getByText("Changed")).toBeInTheDocument();
+    expect(within(row).getByText("5000")).toBeInTheDocument();
+    expect(within(row).getByText("6000")).toBeInTheDocument();
+    expect(fetchRunningConfig).toHaveBeenCalledWith("udp");
+  });
+
+  it("confirms when the running config matches and refetches on demand", async () => {
+    const user = userEvent.setup();
+    const fetchRunningConfig = vi
+      .fn()
+      .mockResolvedValueOnce({ port: 5000 })
+      .mockRejectedValueOnce(new Error('Component "udp" is not running'));
+    render(RunningConfigTab, {
+      props: {
+        componentName: "udp",
+        savedConfig: { port: 5000 },
+        isFlowRunning: true,
+        fetchRunningConfig,
+      },
+    });
+
+    expect(
+      await screen.findByTestId("running-config-in-sync"),
+    ).toBeInTheDocument();
+
+    await user.click(screen.getByTestId("running-config-refresh"));
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      'Component "udp" is not running',
+    );
+  });
+
+  it("lists runtime-only fields without counting them as drift", async () => {
+    render(RunningConfigTab, {
+      props: {
+        componentName: "udp",
+        savedConfig: { port: 5000 },
+        defaults: { buffer: 1024 },
+        isFlowRunning: true,
+        fetchRunningConfig: vi.fn(async () => ({
+          port: 5000,
+          buffer: 1024,
+          debug: true,
+        })),
+      },
+    });
+
+    expect(
+      await screen.findByTestId("running-config-in-sync"),
+    ).toBeInTheDocument();
+    const row = screen.getByTestId("drift-row-debug");
+    expect(within(row).getByText("Set at runtime")).toBeInTheDocument();
+    expect(screen.queryByTestId("drift-row-buffer")).not.toBeInTheDocument();
+  });
+
+  it("does not fetch while the flow is not running", () => {
+    const fetchRunningConfig = vi.fn();
+    render(RunningConfigTab, {
+      props: {
+        componentName: "udp",
+        savedConfig: {},
+        fetchRunningConfig,
+      },
+    });
+
+    expect(screen.getByText(/deploy and start the flow/i)).toBeInTheDocument();
+    expect(fetchRunningConfig).not.toHaveBeenCalled();
+  });
+});
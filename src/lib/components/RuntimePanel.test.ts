@@ -128,6 +128,17 @@ describe("RuntimePanel", () => {
       expect(screen.getByTestId("health-panel")).toBeInTheDocument();
     });
 
+    it("should switch to KV tab when clicked", async () => {
+      render(RuntimePanel, { props: { isOpen: true, flowId: "test-flow" } });
+
+      const kvTab = screen.getByTestId("tab-kv");
+      await fireEvent.click(kvTab);
+
+      expect(kvTab).toHaveClass("active");
+      expect(kvTab.getAttribute("aria-selected")).toBe("true");
+      expect(screen.getByTestId("kv-panel")).toBeInTheDocument();
+    });
+
     it("should have proper ARIA attributes for tabs", () => {
       render(RuntimePanel, { props: { isOpen: true, flowId: "test-flow" } });
 
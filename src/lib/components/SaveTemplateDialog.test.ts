@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from "vitest";
+import { render, screen } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import SaveTemplateDialog from "./SaveTemplateDialog.svelte";
+import type { FlowTemplate } from "$lib/services/flowTemplates";
+import type { FlowNode } from "$lib/types/flow";
+
+const nodes: FlowNode[] = [
+  {
+    id: "writer",
+    component: "objectstore",
+    type: "storage",
+    name: "writer",
+    position: { x: 0, y: 0 },
+    config: { bucket: "sensor-data", replicas: 3 },
+  },
+];
+
+function renderDialog() {
+  const props = {
+    nodes,
+    connections: [],
+    scope: "1 node selected",
+    onSave: vi.fn(),
+    onCancel: vi.fn(),
+  };
+  render(SaveTemplateDialog, { props });
+  return props;
+}
+
+describe("SaveTemplateDialog", () => {
+  it("saves ticked config values as parameters", async () => {
+    const user = userEvent.setup();
+    const props = renderDialog();
+
+    await user.type(screen.getByLabelText("Name"), "Storage");
+    await user.click(
+      screen.getByRole("checkbox", {
+        name: "Make writer bucket a parameter",
+      }),
+    );
+    const parameterName = screen.getByLabelText(
+      "Parameter name for writer bucket",
+    );
+    await user.clear(parameterName);
+    await user.type(parameterName, "bucket_name");
+    await user.click(screen.getByRole("button", { name: "Save template" }));
+
+    const template: FlowTemplate = props.onSave.mock.calls[0][0];
+    expect(template.name).toBe("Storage");
+    expect(template.nodes[0].config).toEqual({
+      bucket: "{{bucket_name}}",
+      replicas: 3,
+    });
+    expect(template.parameters.map((p) => p.name)).toEqual(["bucket_name"]);
+  });
+
+  it("requires a name and valid parameter names", async () => {
+    const user = userEvent.setup();
+    const props = renderDialog();
+    const save = screen.getByRole("button", { name: "Save template" });
+
+    expect(save).toBeDisabled();
+
+    await user.type(screen.getByLabelText("Name"), "Storage");
+    await user.click(
+      screen.getByRole("checkbox", {
+        name: "Make writer replicas a parameter",
+      }),
+    );
+    const parameterName = screen.getByLabelText(
+      "Parameter name for writer replicas",
+    );
+    await user.clear(parameterName);
+    await user.type(parameterName, "2 copies");
+
+    expect(screen.getByRole("alert")).toHaveTextContent(
+      '"2 copies" is not a valid parameter name',
+    );
+    expect(save).toBeDisabled();
+    expect(props.onSave).not.toHaveBeenCalled();
+  });
+
+  it("cancels on Escape", async () => {
+    const user = userEvent.setup();
+    const props = renderDialog();
+
+    await user.keyboard("{Escape}");
+
+    expect(props.onCancel).toHaveBeenCalled();
+  });
+});
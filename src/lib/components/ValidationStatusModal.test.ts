@@ -301,4 +301,25 @@ describe("ValidationStatusModal", () => {
     expect(dialog).toHaveTextContent("output");
     expect(dialog).toHaveTextContent("metadata");
   });
+
+  it("adds a confirm action beside Close when onConfirm is given", async () => {
+    const onConfirm = vi.fn();
+    render(ValidationStatusModal, {
+      props: {
+        isOpen: true,
+        validationResult: mockValidationResult,
+        onClose: vi.fn(),
+        title: "Import preview",
+        onConfirm,
+        confirmLabel: "Import flow",
+      },
+    });
+
+    expect(
+      screen.getByRole("heading", { name: "Import preview" }),
+    ).toBeInTheDocument();
+    await fireEvent.click(screen.getByRole("button", { name: "Import flow" }));
+
+    expect(onConfirm).toHaveBeenCalledOnce();
+  });
 });
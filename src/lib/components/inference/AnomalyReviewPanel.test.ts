@@ -0,0 +1,85 @@
+import { render, screen } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import AnomalyReviewPanel from "./AnomalyReviewPanel.svelte";
+import { normalizeAnomaly } from "$lib/services/inferenceApi";
+
+const anomaly = normalizeAnomaly({
+  id: "anomaly-1",
+  type: "semantic_structural_gap",
+  status: "human_review",
+  confidence: 0.82,
+  detected_at: "2026-07-06T00:00:00Z",
+  entity_a: "acme.ops.robotics.gcs.drone.001",
+  entity_b: "acme.ops.robotics.gcs.drone.002",
+  evidence: { similarity: 0.91, structural_distance: 4 },
+  suggestion: {
+    from_entity: "acme.ops.robotics.gcs.drone.001",
+    to_entity: "acme.ops.robotics.gcs.drone.002",
+    predicate: "fleet.peer.of",
+    confidence: 0.7,
+    reasoning: "High similarity without a direct link",
+  },
+  llm_reasoning: "Likely the same squadron",
+});
+
+describe("AnomalyReviewPanel", () => {
+  it("shows evidence, the suggested relationship and LLM reasoning", () => {
+    render(AnomalyReviewPanel, { props: { anomaly, onReview: vi.fn() } });
+
+    expect(screen.getByTestId("anomaly-evidence")).toHaveTextContent(
+      "similarity",
+    );
+    expect(screen.getByTestId("anomaly-suggestion")).toHaveTextContent(
+      "fleet.peer.of",
+    );
+    expect(screen.getByText("Likely the same squadron")).toBeInTheDocument();
+  });
+
+  it("approves with notes and overrides", async () => {
+    const user = userEvent.setup();
+    const onReview = vi.fn().mockResolvedValue(undefined);
+    render(AnomalyReviewPanel, { props: { anomaly, onReview } });
+
+    await user.type(screen.getByTestId("anomaly-review-notes"), "confirmed");
+    await user.type(
+      screen.getByTestId("anomaly-override-predicate"),
+      "fleet.wingman.of",
+    );
+    await user.type(screen.getByTestId("anomaly-reviewer"), "ops");
+    await user.click(screen.getByTestId("anomaly-approve"));
+
+    expect(onReview).toHaveBeenCalledWith({
+      decision: "approved",
+      notes: "confirmed",
+      overridePredicate: "fleet.wingman.of",
+      targetEntity: "",
+      reviewedBy: "ops",
+    });
+  });
+
+  it("drops overrides when rejecting and surfaces review failures", async () => {
+    const user = userEvent.setup();
+    const onReview = vi
+      .fn()
+      .mockRejectedValue(new Error("Anomaly is no longer awaiting review"));
+    render(AnomalyReviewPanel, { props: { anomaly, onReview } });
+
+    await user.type(
+      screen.getByTestId("anomaly-override-predicate"),
+      "fleet.wingman.of",
+    );
+    await user.click(screen.getByTestId("anomaly-reject"));
+
+    expect(onReview).toHaveBeenCalledWith(
+      expect.objectContaining({
+        decision: "rejected",
+        overridePredicate: undefined,
+        targetEntity: undefined,
+      }),
+    );
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "no longer awaiting review",
+    );
+  });
+});
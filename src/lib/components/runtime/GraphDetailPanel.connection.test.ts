@@ -0,0 +1,121 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, within } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import GraphDetailPanel from "./GraphDetailPanel.svelte";
+import type { GraphEntity } from "$lib/types/graph";
+import { parseEntityId } from "$lib/types/graph";
+import type { ConnectionSearch } from "$lib/services/connectionFinder";
+
+const DRONE = "c360.ops.robotics.gcs.drone.001";
+const FLEET = "c360.ops.robotics.gcs.fleet.west";
+const PILOT = "c360.ops.robotics.gcs.pilot.ana";
+const MISSION = "c360.ops.robotics.gcs.mission.x";
+
+function makeEntity(id: string): GraphEntity {
+  return {
+    id,
+    idParts: parseEntityId(id),
+    properties: [],
+    outgoing: [],
+    incoming: [],
+  };
+}
+
+function step(
+  from: string,
+  predicate: string,
+  to: string,
+  direction: "forward" | "backward" = "forward",
+) {
+  return { relationshipId: `${from}:${to}`, predicate, from, to, direction };
+}
+
+const found: ConnectionSearch = {
+  sourceId: DRONE,
+  targetId: MISSION,
+  status: "done",
+  activePath: 0,
+  paths: [
+    {
+      entityIds: [DRONE, FLEET, MISSION],
+      steps: [
+        step(DRONE, "fleet.member_of", FLEET),
+        step(FLEET, "mission.assigned", MISSION),
+      ],
+    },
+    {
+      entityIds: [DRONE, PILOT, MISSION],
+      steps: [
+        step(DRONE, "pilot.flies", PILOT, "backward"),
+        step(PILOT, "mission.crew", MISSION),
+      ],
+    },
+  ],
+};
+
+describe("GraphDetailPanel connection", () => {
+  it("starts a connection search from the entity", async () => {
+    const user = userEvent.setup();
+    const onFindConnection = vi.fn();
+    render(GraphDetailPanel, {
+      props: { entity: makeEntity(DRONE), onFindConnection },
+    });
+
+    await user.click(
+      screen.getByRole("button", { name: "Find connection from 001" }),
+    );
+
+    expect(onFindConnection).toHaveBeenCalledWith(DRONE);
+  });
+
+  it("asks for a target while picking", () => {
+    render(GraphDetailPanel, {
+      props: {
+        entity: null,
+        connection: { ...found, targetId: null, status: "picking", paths: [] },
+      },
+    });
+
+    expect(
+      screen.getByRole("region", { name: "Connection" }),
+    ).toHaveTextContent("Select the target entity");
+  });
+
+  it("lists the steps of the active path and switches paths", async () => {
+    const user = userEvent.setup();
+    const onSelectPath = vi.fn();
+    const onEntityClick = vi.fn();
+    const { rerender } = render(GraphDetailPanel, {
+      props: {
+        entity: makeEntity(MISSION),
+        connection: found,
+        onSelectPath,
+        onEntityClick,
+      },
+    });
+
+    const steps = within(screen.getByRole("list", { name: "Path steps" }))
+      .getAllByRole("listitem")
+      .map((item) => item.textContent?.replace(/\s+/g, " ").trim());
+    expect(steps).toEqual(["001 → member_of → west", "west → assigned → x"]);
+
+    await user.click(screen.getByRole("button", { name: "Path 2 (2 steps)" }));
+    expect(onSelectPath).toHaveBeenCalledWith(1);
+
+    await rerender({ connection: { ...found, activePath: 1 } });
+    expect(screen.getByRole("list", { name: "Path steps" })).toHaveTextContent(
+      "001 ← flies ← ana",
+    );
+
+    await user.click(screen.getByRole("button", { name: /ana → crew/ }));
+    expect(onEntityClick).toHaveBeenCalledWith(MISSION);
+  });
+
+  it("reports when nothing connects", () => {
+    render(GraphDetailPanel, {
+      props: { entity: null, connection: { ...found, paths: [] } },
+    });
+
+    expect(screen.getByText("No connection found nearby.")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import GraphExportMenu from "./GraphExportMenu.svelte";
+
+describe("GraphExportMenu", () => {
+  it("lists the formats and exports the one picked", async () => {
+    const user = userEvent.setup();
+    const onExport = vi.fn();
+    render(GraphExportMenu, { props: { entityCount: 12, onExport } });
+
+    await user.click(screen.getByRole("button", { name: "Export" }));
+    const menu = screen.getByRole("menu", { name: "Export 12 entities" });
+    expect(
+      screen.getAllByRole("menuitem").map((item) => item.textContent?.trim()),
+    ).toEqual([
+      "GraphML (Gephi)",
+      "JSON-LD",
+      "RDF Turtle",
+      "RDF N-Triples",
+      "CSV (nodes and edges)",
+    ]);
+
+    await user.click(screen.getByRole("menuitem", { name: "RDF Turtle" }));
+
+    expect(onExport).toHaveBeenCalledWith("turtle");
+    expect(menu).not.toBeInTheDocument();
+  });
+
+  it("closes on Escape and is disabled with nothing to export", async () => {
+    const user = userEvent.setup();
+    const { rerender } = render(GraphExportMenu, {
+      props: { entityCount: 3, onExport: vi.fn() },
+    });
+
+    await user.click(screen.getByRole("button", { name: "Export" }));
+    await user.keyboard("{Escape}");
+    expect(screen.queryByRole("menu")).not.toBeInTheDocument();
+
+    await rerender({ entityCount: 0 });
+    expect(screen.getByRole("button", { name: "Export" })).toBeDisabled();
+  });
+});
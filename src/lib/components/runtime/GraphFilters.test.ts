@@ -54,3 +54,67 @@ describe("GraphFilters search results", () => {
     );
   });
 });
+
+describe("GraphFilters saved views", () => {
+  const views = [
+    { name: "Drones", query: "type=drone", savedAt: "2026-01-01T00:00:00Z" },
+    { name: "Sensors", query: "type=sensor", savedAt: "2026-01-01T00:00:00Z" },
+  ];
+
+  function renderWithViews(overrides: Record<string, unknown> = {}) {
+    const props = {
+      filters: DEFAULT_GRAPH_FILTERS,
+      availableTypes: [],
+      availableDomains: [],
+      onFilterChange: vi.fn(),
+      onReset: vi.fn(),
+      savedViews: views,
+      onSaveView: vi.fn(),
+      onApplyView: vi.fn(),
+      onDeleteView: vi.fn(),
+      ...overrides,
+    };
+    render(GraphFilters, { props });
+    return props;
+  }
+
+  it("is hidden without a save handler", () => {
+    render(GraphFilters, {
+      props: {
+        filters: DEFAULT_GRAPH_FILTERS,
+        availableTypes: [],
+        availableDomains: [],
+        onFilterChange: vi.fn(),
+        onReset: vi.fn(),
+      },
+    });
+
+    expect(screen.queryByTestId("saved-views")).not.toBeInTheDocument();
+  });
+
+  it("applies and deletes the picked view", async () => {
+    const user = userEvent.setup();
+    const props = renderWithViews();
+
+    await user.selectOptions(screen.getByLabelText("Saved Views"), "Sensors");
+    expect(props.onApplyView).toHaveBeenCalledWith(views[1]);
+
+    await user.click(screen.getByRole("button", { name: "Delete saved view" }));
+    expect(props.onDeleteView).toHaveBeenCalledWith("Sensors");
+  });
+
+  it("saves the current view under a trimmed name", async () => {
+    const user = userEvent.setup();
+    const props = renderWithViews();
+    const save = screen.getByRole("button", { name: "Save" });
+
+    expect(save).toBeDisabled();
+    await user.type(
+      screen.getByLabelText("View name"),
+      "  Night shift {Enter}",
+    );
+
+    expect(props.onSaveView).toHaveBeenCalledWith("Night shift");
+    expect(screen.getByLabelText("View name")).toHaveValue("");
+  });
+});
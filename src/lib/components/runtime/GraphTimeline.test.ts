@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/svelte";
+import GraphTimeline from "./GraphTimeline.svelte";
+import type { GraphEntity } from "$lib/types/graph";
+import { parseEntityId } from "$lib/types/graph";
+
+function makeEntity(id: string, timestamps: number[]): GraphEntity {
+  return {
+    id,
+    idParts: parseEntityId(id),
+    properties: timestamps.map((timestamp) => ({
+      predicate: "status",
+      object: "ok",
+      confidence: 1,
+      source: "test",
+      timestamp,
+    })),
+    outgoing: [],
+    incoming: [],
+  };
+}
+
+// Facts at 0..399 ms in four 100 ms buckets
+const entities = [
+  makeEntity("org.platform.default.system.drone.d1", [0, 50, 120]),
+  makeEntity("org.platform.default.system.drone.d2", [250, 399]),
+];
+
+function renderTimeline(timeRange: [number, number] | null = null) {
+  const onTimeRangeChange = vi.fn();
+  const result = render(GraphTimeline, {
+    props: {
+      entities,
+      timeRange,
+      onTimeRangeChange,
+      bucketCount: 4,
+      playIntervalMs: 100,
+    },
+  });
+  return { onTimeRangeChange, ...result };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("GraphTimeline", () => {
+  it("draws a bar per bucket and highlights the selected range", () => {
+    renderTimeline([100, 299]);
+
+    const bars = screen.getAllByTestId("timeline-bar");
+    expect(bars).toHaveLength(4);
+    expect(bars.map((bar) => bar.classList.contains("selected"))).toEqual([
+      false,
+      true,
+      true,
+      false,
+    ]);
+    expect(bars[0]).toHaveAttribute("title", "2 facts");
+  });
+
+  it("sets the range from the sliders", async () => {
+    const { onTimeRangeChange } = renderTimeline();
+
+    await fireEvent.input(screen.getByLabelText("Range start"), {
+      target: { value: "2" },
+    });
+
+    expect(onTimeRangeChange).toHaveBeenCalledWith([200, 399]);
+  });
+
+  it("plays the graph forward one bucket at a time", async () => {
+    vi.useFakeTimers();
+    const { onTimeRangeChange } = renderTimeline();
+
+    await fireEvent.click(
+      screen.getByRole("button", { name: "Play timeline" }),
+    );
+    expect(onTimeRangeChange).toHaveBeenLastCalledWith([0, 99]);
+    expect(
+      screen.getByRole("button", { name: "Pause timeline" }),
+    ).toBeInTheDocument();
+
+    vi.advanceTimersByTime(200);
+    expect(onTimeRangeChange).toHaveBeenLastCalledWith([0, 299]);
+
+    // Past the last bucket the filter is cleared
+    vi.advanceTimersByTime(200);
+    expect(onTimeRangeChange).toHaveBeenLastCalledWith(null);
+    expect(onTimeRangeChange).toHaveBeenCalledTimes(5);
+  });
+
+  it("clears the range", async () => {
+    const { onTimeRangeChange } = renderTimeline([100, 199]);
+
+    await fireEvent.click(
+      screen.getByRole("button", { name: "Show all time" }),
+    );
+
+    expect(onTimeRangeChange).toHaveBeenCalledWith(null);
+  });
+
+  it("says so when nothing is timestamped", () => {
+    render(GraphTimeline, {
+      props: { entities: [], timeRange: null, onTimeRangeChange: vi.fn() },
+    });
+
+    expect(screen.getByText("No timestamped facts loaded")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/svelte";
+import KvTab from "./KvTab.svelte";
+import type { KvEntry, KvWatchOptions } from "$lib/services/kvApi";
+
+const watchClose = vi.fn();
+let watchOptions: KvWatchOptions | null = null;
+
+vi.mock("$lib/services/kvApi", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("$lib/services/kvApi")>();
+  return {
+    ...actual,
+    kvApi: {
+      query: vi.fn(),
+      watch: vi.fn((_bucket: string, options: KvWatchOptions) => {
+        watchOptions = options;
+        options.onStatus?.("live");
+        return { close: watchClose, lastEventId: null };
+      }),
+    },
+  };
+});
+
+const { kvApi, KvApiError } = await import("$lib/services/kvApi");
+
+function entry(overrides: Partial<KvEntry>): KvEntry {
+  return {
+    key: "entity.a",
+    value: { status: "active" },
+    revision: 1,
+    operation: "put",
+    ...overrides,
+  };
+}
+
+describe("KvTab", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    watchOptions = null;
+  });
+
+  it("loads bucket entries with the key pattern and shows the selected value", async () => {
+    vi.mocked(kvApi.query).mockResolvedValue({
+      bucket: "ENTITY_STATES",
+      entries: [
+        entry({ key: "entity.a", revision: 3 }),
+        entry({ key: "entity.b", value: { n: 2 } }),
+      ],
+    });
+
+    render(KvTab, { props: { flowId: "flow-1", isActive: true } });
+
+    await fireEvent.input(screen.getByTestId("kv-pattern-input"), {
+      target: { value: "entity.*" },
+    });
+    await fireEvent.click(screen.getByTestId("kv-load-button"));
+
+    await waitFor(() =>
+      expect(screen.getAllByTestId("kv-key")).toHaveLength(2),
+    );
+    expect(kvApi.query).toHaveBeenCalledWith("ENTITY_STATES", {
+      pattern: "entity.*",
+    });
+
+    await fireEvent.click(screen.getAllByTestId("kv-key")[1]);
+    expect(screen.getByTestId("kv-value")).toHaveTextContent('"n": 2');
+  });
+
+  it("shows query errors", async () => {
+    vi.mocked(kvApi.query).mockRejectedValue(
+      new KvApiError("Bucket not found: NOPE", 404),
+    );
+
+    render(KvTab, { props: { flowId: "flow-1", isActive: true } });
+    await fireEvent.click(screen.getByTestId("kv-load-button"));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "Bucket not found: NOPE",
+    );
+  });
+
+  it("applies live changes to keys and revision history", async () => {
+    vi.mocked(kvApi.query).mockResolvedValue({
+      bucket: "ENTITY_STATES",
+      entries: [entry({ key: "entity.a", revision: 1 })],
+    });
+
+    render(KvTab, { props: { flowId: "flow-1", isActive: true } });
+    await fireEvent.click(screen.getByTestId("kv-load-button"));
+    await waitFor(() =>
+      expect(screen.getAllByTestId("kv-key")).toHaveLength(1),
+    );
+    await fireEvent.click(screen.getAllByTestId("kv-key")[0]);
+
+    await fireEvent.click(screen.getByTestId("kv-tail-toggle"));
+    expect(kvApi.watch).toHaveBeenCalledWith(
+      "ENTITY_STATES",
+      expect.objectContaining({ lastEventId: undefined }),
+    );
+    expect(screen.getByTestId("kv-watch-status")).toHaveTextContent("Live");
+
+    watchOptions?.onChange(
+      entry({ key: "entity.a", revision: 2, value: { status: "idle" } }),
+      "10",
+    );
+    watchOptions?.onChange(
+      entry({ key: "entity.c", revision: 3, operation: "put" }),
+      "11",
+    );
+
+    await waitFor(() =>
+      expect(screen.getAllByTestId("kv-key")).toHaveLength(2),
+    );
+    expect(screen.getByTestId("kv-value")).toHaveTextContent(
+      '"status": "idle"',
+    );
+    expect(screen.getByTestId("kv-revisions").children).toHaveLength(2);
+    expect(screen.getByTestId("kv-tail").children).toHaveLength(2);
+  });
+
+  it("resumes the tail from the last event after pausing", async () => {
+    vi.mocked(kvApi.query).mockResolvedValue({
+      bucket: "ENTITY_STATES",
+      entries: [],
+    });
+    render(KvTab, { props: { flowId: "flow-1", isActive: true } });
+
+    // Nothing is loaded yet, so the bucket is loaded before it is tailed
+    await fireEvent.click(screen.getByTestId("kv-tail-toggle"));
+    await waitFor(() => expect(kvApi.watch).toHaveBeenCalled());
+    expect(kvApi.query).toHaveBeenCalledWith("ENTITY_STATES", {
+      pattern: undefined,
+    });
+    watchOptions?.onChange(entry({ revision: 5 }), "99");
+
+    // Pause: the mocked watch reported "live", so the toggle closes it
+    await fireEvent.click(screen.getByTestId("kv-tail-toggle"));
+    expect(watchClose).toHaveBeenCalled();
+    watchOptions?.onStatus?.("closed");
+
+    await fireEvent.click(screen.getByTestId("kv-tail-toggle"));
+    expect(kvApi.watch).toHaveBeenLastCalledWith(
+      "ENTITY_STATES",
+      expect.objectContaining({ lastEventId: "99" }),
+    );
+  });
+
+  it("loads a newly typed bucket and pattern before tailing them", async () => {
+    vi.mocked(kvApi.query).mockImplementation(async (bucket: string) => ({
+      bucket,
+      entries: [entry({ key: `${bucket}.key` })],
+    }));
+    render(KvTab, { props: { flowId: "flow-1", isActive: true } });
+    await fireEvent.click(screen.getByTestId("kv-load-button"));
+    await waitFor(() =>
+      expect(screen.getByText("ENTITY_STATES.key")).toBeInTheDocument(),
+    );
+
+    await fireEvent.input(screen.getByTestId("kv-bucket-input"), {
+      target: { value: "OTHER" },
+    });
+    await fireEvent.input(screen.getByTestId("kv-pattern-input"), {
+      target: { value: "rule.*" },
+    });
+    await fireEvent.click(screen.getByTestId("kv-tail-toggle"));
+
+    await waitFor(() =>
+      expect(kvApi.watch).toHaveBeenCalledWith(
+        "OTHER",
+        expect.objectContaining({ pattern: "rule.*" }),
+      ),
+    );
+    expect(kvApi.query).toHaveBeenLastCalledWith("OTHER", {
+      pattern: "rule.*",
+    });
+    // Changes from the tail land in the bucket they belong to
+    watchOptions?.onChange(entry({ key: "OTHER.new", revision: 2 }), "1");
+    await waitFor(() =>
+      expect(
+        screen.getAllByTestId("kv-key").map((el) => el.textContent),
+      ).toEqual([
+        expect.stringContaining("OTHER.key"),
+        expect.stringContaining("OTHER.new"),
+      ]),
+    );
+  });
+
+  it("moves a running tail to a reloaded pattern", async () => {
+    vi.mocked(kvApi.query).mockResolvedValue({
+      bucket: "ENTITY_STATES",
+      entries: [],
+    });
+    render(KvTab, { props: { flowId: "flow-1", isActive: true } });
+    await fireEvent.click(screen.getByTestId("kv-tail-toggle"));
+    await waitFor(() => expect(kvApi.watch).toHaveBeenCalledTimes(1));
+
+    await fireEvent.input(screen.getByTestId("kv-pattern-input"), {
+      target: { value: "entity.*" },
+    });
+    await fireEvent.click(screen.getByTestId("kv-load-button"));
+
+    await waitFor(() => expect(kvApi.watch).toHaveBeenCalledTimes(2));
+    expect(watchClose).toHaveBeenCalled();
+    expect(kvApi.watch).toHaveBeenLastCalledWith(
+      "ENTITY_STATES",
+      expect.objectContaining({ pattern: "entity.*" }),
+    );
+  });
+});
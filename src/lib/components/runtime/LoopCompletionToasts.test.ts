@@ -0,0 +1,42 @@
+import { render, screen } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import LoopCompletionToasts from "./LoopCompletionToasts.svelte";
+
+describe("LoopCompletionToasts", () => {
+  it("announces each completion with its outcome and can dismiss it", async () => {
+    const user = userEvent.setup();
+    const onDismiss = vi.fn();
+    render(LoopCompletionToasts, {
+      props: {
+        completions: [
+          {
+            id: "loop-1:2026-07-06T00:00:02Z",
+            loopId: "loop-1",
+            outcome: "failed",
+            label: "inspect-code",
+            completedAt: "2026-07-06T00:00:02Z",
+          },
+        ],
+        onDismiss,
+      },
+    });
+
+    const region = screen.getByTestId("loop-completion-toasts");
+    expect(region).toHaveTextContent("inspect-code finished");
+    expect(region).toHaveTextContent("failed");
+
+    await user.click(
+      screen.getByRole("button", { name: "Dismiss loop-1 notification" }),
+    );
+    expect(onDismiss).toHaveBeenCalledWith("loop-1:2026-07-06T00:00:02Z");
+  });
+
+  it("renders nothing without completions", () => {
+    render(LoopCompletionToasts);
+
+    expect(
+      screen.queryByTestId("loop-completion-toasts"),
+    ).not.toBeInTheDocument();
+  });
+});
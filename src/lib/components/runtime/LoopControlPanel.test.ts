@@ -0,0 +1,162 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import LoopControlPanel from "./LoopControlPanel.svelte";
+import type { ActivityStreamOptions } from "$lib/services/activityStream";
+import type { AgentLoop } from "$lib/services/loopApi";
+
+function makeLoops(): AgentLoop[] {
+  return [
+    {
+      loopId: "loop-1",
+      state: "executing",
+      workflowSlug: "inspect-code",
+      iterations: 2,
+      maxIterations: 10,
+      pendingApproval: null,
+    },
+    {
+      loopId: "loop-2",
+      state: "awaiting_approval",
+      role: "developer",
+      iterations: 4,
+      maxIterations: 10,
+      pendingApproval: {
+        callId: "call-1",
+        toolName: "shell",
+        arguments: { command: "rm -rf build" },
+        requestedAt: "2026-07-06T00:00:00Z",
+      },
+    },
+    {
+      loopId: "loop-3",
+      state: "complete",
+      iterations: 1,
+      maxIterations: 10,
+      pendingApproval: null,
+    },
+  ];
+}
+
+function setup() {
+  let stream: ActivityStreamOptions | null = null;
+  const unsubscribe = vi.fn();
+  const props = {
+    loadLoops: vi.fn(async () => makeLoops()),
+    sendSignal: vi.fn(async () => {}),
+    submitApproval: vi.fn(async () => {}),
+    subscribe: vi.fn((options: ActivityStreamOptions) => {
+      stream = options;
+      return unsubscribe;
+    }),
+  };
+  const view = render(LoopControlPanel, { props });
+  return { props, view, unsubscribe, stream: () => stream! };
+}
+
+describe("LoopControlPanel", () => {
+  it("lists only active loops and follows the activity stream", async () => {
+    const { props, view, unsubscribe, stream } = setup();
+
+    expect(await screen.findByTestId("loop-row-loop-1")).toBeInTheDocument();
+    expect(screen.getByTestId("loop-row-loop-2")).toBeInTheDocument();
+    expect(screen.queryByTestId("loop-row-loop-3")).not.toBeInTheDocument();
+    await waitFor(() => expect(props.subscribe).toHaveBeenCalledTimes(1));
+
+    stream().onStatus?.("open");
+    stream().onEvent({
+      type: "loop_updated",
+      loopId: "loop-1",
+      timestamp: "2026-07-06T00:00:01Z",
+      loop: { ...makeLoops()[0], state: "paused" },
+    });
+
+    expect(await screen.findByText("Live")).toBeInTheDocument();
+    expect(
+      await screen.findByRole("button", { name: "Resume loop-1" }),
+    ).toBeInTheDocument();
+
+    stream().onEvent({
+      type: "loop_completed",
+      loopId: "loop-1",
+      timestamp: "2026-07-06T00:00:02Z",
+      loop: null,
+    });
+    await waitFor(() =>
+      expect(screen.queryByTestId("loop-row-loop-1")).not.toBeInTheDocument(),
+    );
+
+    view.unmount();
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+
+  it("sends pause and cancel signals and surfaces failures", async () => {
+    const user = userEvent.setup();
+    const { props } = setup();
+    props.sendSignal
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error("Loop not found"));
+
+    await user.click(
+      await screen.findByRole("button", { name: "Pause loop-1" }),
+    );
+    await user.click(screen.getByRole("button", { name: "Cancel loop-2" }));
+
+    expect(props.sendSignal).toHaveBeenNthCalledWith(1, "loop-1", "pause");
+    expect(props.sendSignal).toHaveBeenNthCalledWith(2, "loop-2", "cancel");
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "Loop not found",
+    );
+  });
+
+  it("approves a pending tool call with edited arguments", async () => {
+    const user = userEvent.setup();
+    const { props } = setup();
+
+    await user.click(
+      await screen.findByRole("button", { name: "Review approval for loop-2" }),
+    );
+
+    const editor = screen.getByLabelText("Tool call arguments (JSON)");
+    expect(JSON.parse((editor as HTMLTextAreaElement).value)).toEqual({
+      command: "rm -rf build",
+    });
+
+    await fireEvent.input(editor, {
+      target: { value: '{"command": "rm -rf build/tmp"}' },
+    });
+    await user.type(screen.getByTestId("loop-approval-reason"), "narrower");
+    await user.click(
+      screen.getByRole("button", { name: "Approve with edits" }),
+    );
+
+    expect(props.submitApproval).toHaveBeenCalledWith("loop-2", {
+      decision: "modify",
+      modifiedArguments: { command: "rm -rf build/tmp" },
+      reason: "narrower",
+    });
+    await waitFor(() =>
+      expect(
+        screen.queryByTestId("loop-approval-dialog"),
+      ).not.toBeInTheDocument(),
+    );
+    expect(
+      screen.queryByRole("button", { name: "Review approval for loop-2" }),
+    ).not.toBeInTheDocument();
+  });
+
+  it("blocks approval while the arguments are invalid JSON", async () => {
+    const user = userEvent.setup();
+    setup();
+
+    await user.click(
+      await screen.findByRole("button", { name: "Review approval for loop-2" }),
+    );
+    await fireEvent.input(screen.getByLabelText("Tool call arguments (JSON)"), {
+      target: { value: "{ broken" },
+    });
+
+    expect(screen.getByTestId("loop-approval-approve")).toBeDisabled();
+    expect(screen.getByTestId("loop-approval-reject")).toBeEnabled();
+  });
+});
@@ -856,6 +856,66 @@ describe("MessagesTab", () => {
           expect(traceIdElement?.className).toContain("trace-id");
         });
       });
+
+      it("links to the trace waterfall, preferring the W3C trace_id field", async () => {
+        const logsWithTrace = [
+          createMessageLog({
+            id: "msg-001",
+            fields: {
+              subject: "test.subject",
+              direction: "published",
+              component: "test-comp",
+              message_id: "msg-123",
+              trace_id: "4bf92f3577b34da6a3ce929d0e0e4736",
+            },
+          }),
+        ];
+
+        mockState = createStateWithMessageLogger({
+          connected: true,
+          logs: logsWithTrace,
+        });
+
+        render(MessagesTab, {
+          flowId: "flow-123",
+          isActive: true,
+        });
+
+        await waitFor(() => {
+          const link = screen.getByTestId("open-trace-link");
+          expect(link.getAttribute("href")).toBe(
+            "/trace/4bf92f3577b34da6a3ce929d0e0e4736",
+          );
+        });
+      });
+
+      it("shows no trace link without a W3C trace_id", async () => {
+        mockState = createStateWithMessageLogger({
+          connected: true,
+          logs: [
+            createMessageLog({
+              id: "msg-001",
+              fields: {
+                subject: "test.subject",
+                direction: "published",
+                component: "test-comp",
+                message_id: "msg-123",
+                trace_id: "not-a-trace",
+              },
+            }),
+          ],
+        });
+
+        render(MessagesTab, {
+          flowId: "flow-123",
+          isActive: true,
+        });
+
+        await waitFor(() => {
+          expect(screen.getByText(/msg-123/)).toBeInTheDocument();
+        });
+        expect(screen.queryByTestId("open-trace-link")).not.toBeInTheDocument();
+      });
     });
 
     describe("Trace ID Search and Filtering", () => {
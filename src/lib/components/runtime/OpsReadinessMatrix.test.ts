@@ -254,6 +254,28 @@ describe("OpsReadinessMatrix", () => {
     ).toBeVisible();
   });
 
+  it("adds live loop activity evidence when the stream state is provided", async () => {
+    const { rerender } = render(OpsReadinessMatrix, {
+      props: {
+        summary: makeSummary(),
+      },
+    });
+
+    expect(
+      screen.queryByTestId("ops-readiness-row-loop-activity"),
+    ).not.toBeInTheDocument();
+
+    await rerender({
+      summary: makeSummary(),
+      activity: { status: "reconnecting", activeLoopCount: 3 },
+    });
+
+    const row = screen.getByTestId("ops-readiness-row-loop-activity");
+    expect(within(row).getByText("/activity")).toBeVisible();
+    expect(within(row).getByText("Degraded")).toBeVisible();
+    expect(within(row).getByText("Count 3")).toBeVisible();
+  });
+
   it("shows an empty state and no controls before a summary is loaded", () => {
     render(OpsReadinessMatrix, {
       props: {
@@ -0,0 +1,83 @@
+import { render, screen, within } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it } from "vitest";
+import TraceWaterfall from "./TraceWaterfall.svelte";
+import { normalizeTrace } from "$lib/services/messageLoggerApi";
+
+function makeTrace() {
+  return normalizeTrace("trace-abc", [
+    {
+      sequence: 1,
+      timestamp: "2026-07-06T00:00:00.000Z",
+      subject: "raw.udp",
+      summary: "UDP datagram",
+      metadata: { component: "udp-input", direction: "published" },
+    },
+    {
+      sequence: 2,
+      timestamp: "2026-07-06T00:00:00.050Z",
+      subject: "raw.udp",
+      summary: "Parsed payload",
+      message_type: "core.json.v1",
+      metadata: { component: "json-processor", direction: "received" },
+    },
+    {
+      sequence: 3,
+      timestamp: "2026-07-06T00:00:00.900Z",
+      subject: "graph.ingest.entity",
+      summary: "Entity stored",
+      message_id: "msg-3",
+      metadata: { component: "graph-processor", direction: "received" },
+    },
+  ]);
+}
+
+describe("TraceWaterfall", () => {
+  it("renders trace stats and one row per hop in order", () => {
+    render(TraceWaterfall, { props: { trace: makeTrace() } });
+
+    const waterfall = screen.getByTestId("trace-waterfall");
+    expect(within(waterfall).getByText("trace-abc")).toBeInTheDocument();
+    expect(within(waterfall).getByText("900 ms")).toBeInTheDocument();
+
+    const rows = screen.getAllByTestId("trace-hop");
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toHaveTextContent("udp-input");
+    expect(rows[0]).toHaveTextContent("start");
+    expect(rows[1]).toHaveTextContent("+50 ms");
+    expect(rows[2]).toHaveTextContent("graph-processor");
+    expect(rows[2]).toHaveTextContent("+850 ms");
+  });
+
+  it("highlights the slowest hop", () => {
+    render(TraceWaterfall, { props: { trace: makeTrace() } });
+
+    const rows = screen.getAllByTestId("trace-hop");
+    expect(rows[2]).toHaveClass("slowest");
+    expect(rows[1]).not.toHaveClass("slowest");
+  });
+
+  it("expands hop details on demand", async () => {
+    const user = userEvent.setup();
+    render(TraceWaterfall, { props: { trace: makeTrace() } });
+
+    expect(screen.queryByText("Entity stored")).not.toBeInTheDocument();
+
+    await user.click(
+      screen.getByRole("button", { name: "Toggle details for hop 3" }),
+    );
+
+    expect(screen.getByText("Entity stored")).toBeInTheDocument();
+    expect(screen.getByText("msg-3")).toBeInTheDocument();
+  });
+
+  it("shows an empty state when the trace has no entries", () => {
+    render(TraceWaterfall, {
+      props: { trace: normalizeTrace("trace-empty", []) },
+    });
+
+    expect(
+      screen.getByText("No message entries recorded for this trace"),
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,136 @@
+import { render, screen, within } from "@testing-library/svelte";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import WorkflowInstancePanel from "./WorkflowInstancePanel.svelte";
+import WorkflowPhaseDiagram from "./WorkflowPhaseDiagram.svelte";
+import {
+  normalizeParticipant,
+  normalizeWorkflowType,
+  type WorkflowTransitionEvent,
+} from "$lib/services/workflowApi";
+
+const workflow = normalizeWorkflowType({
+  workflow: "review",
+  phases: ["draft", "review", "approved", "rejected"],
+  transitions: {
+    draft: ["review"],
+    review: ["approved", "rejected", "draft"],
+  },
+  counts: { review: 4 },
+});
+
+const history: WorkflowTransitionEvent[] = [
+  {
+    from: "draft",
+    to: "review",
+    timestamp: "2026-07-06T00:00:00Z",
+    source: "operator",
+    note: "kick off review",
+  },
+];
+
+function renderPanel(phase: string, onTransition = vi.fn()) {
+  return render(WorkflowInstancePanel, {
+    props: {
+      workflow,
+      participant: normalizeParticipant(
+        { entity_id: "doc-1", phase },
+        "review",
+      ),
+      history,
+      children: [],
+      onTransition,
+    },
+  });
+}
+
+describe("WorkflowInstancePanel", () => {
+  it("offers only the declared edges out of the current phase", () => {
+    renderPanel("review");
+
+    const select = screen.getByTestId("workflow-target-phase");
+    const options = within(select)
+      .getAllByRole("option")
+      .map((option) => (option as HTMLOptionElement).value)
+      .filter(Boolean);
+
+    expect(options).toEqual(["approved", "rejected", "draft"]);
+  });
+
+  it("submits the chosen phase with the operator note", async () => {
+    const user = userEvent.setup();
+    const onTransition = vi.fn().mockResolvedValue(undefined);
+    renderPanel("review", onTransition);
+
+    const submit = screen.getByTestId("workflow-transition-submit");
+    expect(submit).toBeDisabled();
+
+    await user.selectOptions(
+      screen.getByTestId("workflow-target-phase"),
+      "approved",
+    );
+    await user.type(
+      screen.getByTestId("workflow-transition-note"),
+      "  ship it ",
+    );
+    await user.click(submit);
+
+    expect(onTransition).toHaveBeenCalledWith("approved", "ship it");
+  });
+
+  it("shows backend rejections from the transition action", async () => {
+    const user = userEvent.setup();
+    const onTransition = vi
+      .fn()
+      .mockRejectedValue(new Error("current phase is terminal"));
+    renderPanel("draft", onTransition);
+
+    await user.selectOptions(
+      screen.getByTestId("workflow-target-phase"),
+      "review",
+    );
+    await user.click(screen.getByTestId("workflow-transition-submit"));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "current phase is terminal",
+    );
+  });
+
+  it("blocks transitions out of terminal phases", () => {
+    renderPanel("approved");
+
+    expect(
+      screen.queryByTestId("workflow-target-phase"),
+    ).not.toBeInTheDocument();
+    expect(screen.getByText(/terminal phase/)).toBeInTheDocument();
+  });
+
+  it("lists transition history with source and note", () => {
+    renderPanel("review");
+
+    const table = screen.getByTestId("workflow-history");
+    expect(table).toHaveTextContent("draft → review");
+    expect(table).toHaveTextContent("operator");
+    expect(table).toHaveTextContent("kick off review");
+  });
+});
+
+describe("WorkflowPhaseDiagram", () => {
+  it("draws every phase and declared edge, highlighting the current phase", () => {
+    const { container } = render(WorkflowPhaseDiagram, {
+      props: { workflow, currentPhase: "review" },
+    });
+
+    expect(container.querySelectorAll("[data-phase]")).toHaveLength(4);
+    expect(container.querySelectorAll("[data-edge]")).toHaveLength(4);
+    expect(container.querySelector('[data-phase="review"]')).toHaveClass(
+      "current",
+    );
+    expect(container.querySelector('[data-phase="approved"]')).toHaveClass(
+      "terminal",
+    );
+    expect(container.querySelector('[data-edge="review->draft"]')).toHaveClass(
+      "from-current",
+    );
+  });
+});
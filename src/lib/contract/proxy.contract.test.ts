@@ -120,6 +120,66 @@ describe("Caddy proxy contract", () => {
     },
   );
 
+  it.each(proxyConfigs)(
+    "$file routes message-logger reads through the backend proxy namespace",
+    ({ file, backendTarget }) => {
+      const config = readConfig(file);
+      const block = extractHandleBlock(config, "/message-logger/*");
+
+      expect(extractReverseProxyTarget(block)).toBe(backendTarget);
+      expect(indexOfHandle(config, "/message-logger/*")).toBeLessThan(
+        indexOfHandle(config, ""),
+      );
+    },
+  );
+
+  it.each(proxyConfigs)(
+    "$file routes workflow manager calls through the backend proxy namespace",
+    ({ file, backendTarget }) => {
+      const config = readConfig(file);
+      const collectionBlock = extractHandleBlock(config, "/workflows");
+      const itemBlock = extractHandleBlock(config, "/workflows/*");
+
+      expect(extractReverseProxyTarget(collectionBlock)).toBe(backendTarget);
+      expect(extractReverseProxyTarget(itemBlock)).toBe(backendTarget);
+      expect(indexOfHandle(config, "/workflows")).toBeLessThan(
+        indexOfHandle(config, ""),
+      );
+      expect(indexOfHandle(config, "/workflows/*")).toBeLessThan(
+        indexOfHandle(config, ""),
+      );
+    },
+  );
+
+  it.each(proxyConfigs)(
+    "$file routes graph inference review calls through the backend proxy namespace",
+    ({ file, backendTarget }) => {
+      const config = readConfig(file);
+      const block = extractHandleBlock(config, "/inference/*");
+
+      expect(extractReverseProxyTarget(block)).toBe(backendTarget);
+      expect(indexOfHandle(config, "/inference/*")).toBeLessThan(
+        indexOfHandle(config, ""),
+      );
+    },
+  );
+
+  it.each(proxyConfigs)(
+    "$file routes agent loop control and activity stream calls through the backend",
+    ({ file, backendTarget }) => {
+      const config = readConfig(file);
+
+      for (const path of ["/loops", "/loops/*", "/activity"]) {
+        expect(
+          extractReverseProxyTarget(extractHandleBlock(config, path)),
+        ).toBe(backendTarget);
+        expect(indexOfHandle(config, path)).toBeLessThan(
+          indexOfHandle(config, ""),
+        );
+      }
+    },
+  );
+
   it("keeps /flows reserved for SvelteKit pages instead of backend flow APIs", () => {
     for (const { file } of proxyConfigs) {
       const config = readConfig(file);
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from "vitest";
+import { subscribeActivity } from "./activityStream";
+
+class FakeEventSource {
+  onopen: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  listeners = new Map<string, (event: MessageEvent) => void>();
+  close = vi.fn();
+
+  addEventListener(type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.set(type, listener);
+  }
+
+  removeEventListener(type: string) {
+    this.listeners.delete(type);
+  }
+
+  emit(type: string, data: unknown) {
+    this.listeners.get(type)?.(
+      new MessageEvent(type, { data: JSON.stringify(data) }),
+    );
+  }
+}
+
+function setup() {
+  const source = new FakeEventSource();
+  const onEvent = vi.fn();
+  const onStatus = vi.fn();
+  const createEventSource = vi.fn(() => source as unknown as EventSource);
+  const unsubscribe = subscribeActivity({
+    onEvent,
+    onStatus,
+    createEventSource,
+  });
+  return { source, onEvent, onStatus, createEventSource, unsubscribe };
+}
+
+describe("subscribeActivity", () => {
+  it("normalizes named and default-channel loop events", () => {
+    const { source, onEvent, createEventSource } = setup();
+
+    expect(createEventSource).toHaveBeenCalledWith("/activity");
+
+    source.emit("loop_updated", {
+      loop_id: "loop-1",
+      timestamp: "2026-07-06T00:00:00Z",
+      data: { loop_id: "loop-1", state: "paused", task_id: "t", user_id: "u" },
+    });
+    source.emit("message", {
+      type: "loop_deleted",
+      loop_id: "loop-2",
+      timestamp: "2026-07-06T00:00:01Z",
+    });
+
+    expect(onEvent).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        type: "loop_updated",
+        loopId: "loop-1",
+        loop: expect.objectContaining({ state: "paused" }),
+      }),
+    );
+    expect(onEvent).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        type: "loop_deleted",
+        loopId: "loop-2",
+        loop: null,
+      }),
+    );
+  });
+
+  it("reports connection status and ignores malformed payloads", () => {
+    const { source, onEvent, onStatus } = setup();
+
+    source.onopen?.();
+    source.onerror?.();
+    source.listeners.get("message")?.(
+      new MessageEvent("message", { data: "not json" }),
+    );
+
+    expect(onStatus.mock.calls.map(([status]) => status)).toEqual([
+      "connecting",
+      "open",
+      "reconnecting",
+    ]);
+    expect(onEvent).not.toHaveBeenCalled();
+  });
+
+  it("reports offline when EventSource is unavailable", () => {
+    const onStatus = vi.fn();
+
+    const unsubscribe = subscribeActivity({
+      onEvent: vi.fn(),
+      onStatus,
+      createEventSource: () => {
+        throw new ReferenceError("EventSource is not defined");
+      },
+    });
+
+    expect(onStatus).toHaveBeenLastCalledWith("offline");
+    expect(() => unsubscribe()).not.toThrow();
+  });
+
+  it("closes the stream on unsubscribe", () => {
+    const { source, unsubscribe } = setup();
+
+    unsubscribe();
+
+    expect(source.close).toHaveBeenCalled();
+    expect(source.listeners.size).toBe(0);
+  });
+});
@@ -0,0 +1,88 @@
+import { normalizeActivityEvent, type LoopActivityEvent } from "./loopApi";
+import type { components } from "$lib/types/api.generated";
+
+type BackendActivityEvent = components["schemas"]["ActivityEvent"];
+
+export type ActivityStreamStatus =
+  | "connecting"
+  | "open"
+  | "reconnecting"
+  | "offline";
+
+/** Named SSE events emitted by /activity */
+export const ACTIVITY_EVENT_TYPES = [
+  "loop_created",
+  "loop_updated",
+  "loop_deleted",
+  "loop_completed",
+] as const;
+
+export interface ActivityStreamOptions {
+  onEvent: (event: LoopActivityEvent) => void;
+  onStatus?: (status: ActivityStreamStatus) => void;
+  url?: string;
+  createEventSource?: (url: string) => EventSource;
+}
+
+/**
+ * Subscribe to loop activity over SSE. EventSource reconnects on its own;
+ * errors are surfaced as a "reconnecting" status, and runtimes without
+ * EventSource report "offline". Returns an unsubscribe function.
+ */
+export function subscribeActivity(options: ActivityStreamOptions): () => void {
+  const {
+    onEvent,
+    onStatus,
+    url = "/activity",
+    createEventSource = (target) => new EventSource(target),
+  } = options;
+
+  onStatus?.("connecting");
+  let source: EventSource;
+  try {
+    source = createEventSource(url);
+  } catch {
+    onStatus?.("offline");
+    return () => {};
+  }
+
+  const handleMessage = (message: MessageEvent) => {
+    const event = parseActivityEvent(message);
+    if (event) onEvent(event);
+  };
+
+  source.onopen = () => onStatus?.("open");
+  source.onerror = () => onStatus?.("reconnecting");
+  // The backend may send named events or typed payloads on the default channel
+  source.addEventListener("message", handleMessage);
+  for (const type of ACTIVITY_EVENT_TYPES) {
+    source.addEventListener(type, handleMessage);
+  }
+
+  return () => {
+    source.removeEventListener("message", handleMessage);
+    for (const type of ACTIVITY_EVENT_TYPES) {
+      source.removeEventListener(type, handleMessage);
+    }
+    source.close();
+  };
+}
+
+function parseActivityEvent(message: MessageEvent): LoopActivityEvent | null {
+  try {
+    const payload = JSON.parse(message.data) as Partial<BackendActivityEvent>;
+    const type =
+      payload.type ?? (message.type !== "message" ? message.type : "");
+    const loopId = payload.loop_id ?? payload.data?.loop_id;
+    if (!type || !loopId) return null;
+
+    return normalizeActivityEvent({
+      type,
+      loop_id: loopId,
+      timestamp: payload.timestamp ?? new Date().toISOString(),
+      data: payload.data ?? null,
+    });
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  ComponentConfigApiError,
+  componentConfigApi,
+  countConfigDrift,
+  diffConfig,
+} from "./componentConfigApi";
+
+function jsonResponse(
+  body: unknown,
+  status = 200,
+  statusText = "OK",
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText,
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+describe("componentConfigApi", () => {
+  it("fetches the running config through the component manager proxy", async () => {
+    const fetcher = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(jsonResponse({ port: 5000 }))
+      .mockResolvedValueOnce(jsonResponse({ config: { port: 6000 } }));
+
+    await expect(
+      componentConfigApi.fetchRunningConfig("udp input", { fetcher }),
+    ).resolves.toEqual({ port: 5000 });
+    await expect(
+      componentConfigApi.fetchRunningConfig("udp", { fetcher }),
+    ).resolves.toEqual({ port: 6000 });
+    expect(fetcher).toHaveBeenNthCalledWith(
+      1,
+      "/components/config/udp%20input",
+      { cache: "no-store" },
+    );
+  });
+
+  it("explains a 404 as a component that is not running", async () => {
+    const fetcher = vi.fn(async () => jsonResponse(null, 404, "Not Found"));
+
+    const error = await componentConfigApi
+      .fetchRunningConfig("udp", { fetcher })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ComponentConfigApiError);
+    expect(error).toMatchObject({
+      message: 'Component "udp" is not running',
+      statusCode: 404,
+    });
+  });
+});
+
+describe("diffConfig", () => {
+  it("reports changed, unapplied and unsaved fields by path", () => {
+    expect(
+      diffConfig(
+        {
+          port: 5000,
+          bind: "0.0.0.0",
+          ports: { inputs: ["a"], timeout: "5s" },
+          buffer: 1024,
+        },
+        {
+          port: 6000,
+          bind: "0.0.0.0",
+          ports: { inputs: ["a"], timeout: "10s" },
+          debug: true,
+        },
+      ),
+    ).toEqual([
+      { path: "buffer", kind: "saved-only", saved: 1024 },
+      { path: "debug", kind: "running-only", running: true },
+      { path: "port", kind: "changed", saved: 5000, running: 6000 },
+      { path: "ports.timeout", kind: "changed", saved: "5s", running: "10s" },
+    ]);
+  });
+
+  it("drops running-only fields that hold their schema default", () => {
+    const drift = diffConfig(
+      { port: 5000, ports: { inputs: ["a"] } },
+      {
+        port: 5000,
+        buffer: 1024,
+        debug: true,
+        ports: { inputs: ["a"], timeout: "5s" },
+      },
+      { defaults: { buffer: 1024, debug: false, ports: { timeout: "5s" } } },
+    );
+
+    expect(drift).toEqual([
+      { path: "debug", kind: "running-only", running: true },
+    ]);
+    expect(countConfigDrift(drift)).toBe(0);
+  });
+
+  it("returns no drift for identical configs", () => {
+    expect(
+      diffConfig({ a: [1, 2], b: { c: null } }, { a: [1, 2], b: { c: null } }),
+    ).toEqual([]);
+  });
+});
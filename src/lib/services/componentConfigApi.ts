@@ -0,0 +1,176 @@
+type Fetcher = typeof fetch;
+type FetchInit = Parameters<Fetcher>[1];
+
+export type ConfigDriftKind = "changed" | "saved-only" | "running-only";
+
+/** One field whose saved value differs from the running component */
+export interface ConfigDriftEntry {
+  /** Dot-separated path into the config, e.g. "ports.inputs" */
+  path: string;
+  kind: ConfigDriftKind;
+  saved?: unknown;
+  running?: unknown;
+}
+
+export interface ComponentConfigRequestOptions {
+  fetcher?: Fetcher;
+}
+
+export class ComponentConfigApiError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+  ) {
+    super(message);
+    this.name = "ComponentConfigApiError";
+  }
+}
+
+type RawRecord = Record<string, unknown>;
+
+export const componentConfigApi = {
+  /** Configuration the named component is actually running with */
+  async fetchRunningConfig(
+    name: string,
+    options: ComponentConfigRequestOptions = {},
+  ): Promise<RawRecord> {
+    const fetcher = options.fetcher ?? fetch;
+    const result = await fetchJson(
+      fetcher,
+      `/components/config/${encodeURIComponent(name)}`,
+      { cache: "no-store" },
+    );
+
+    if (!result.ok) {
+      throw new ComponentConfigApiError(
+        result.status === 404
+          ? `Component "${name}" is not running`
+          : (result.message ?? `Running config failed: ${result.statusText}`),
+        result.status,
+      );
+    }
+
+    const record = asRecord(result.data);
+    // Accept both the bare config and a {config: {...}} envelope
+    return isRecord(record.config) ? record.config : record;
+  },
+};
+
+export interface DiffConfigOptions {
+  /**
+   * Schema defaults. A running-only field holding its default was filled in
+   * by the component at startup, not changed, and is left out of the diff.
+   */
+  defaults?: RawRecord;
+}
+
+/**
+ * Field-level diff between the config saved in the flow and the config the
+ * component is running with. Nested objects are compared key by key; arrays
+ * and scalars are compared as whole values.
+ */
+export function diffConfig(
+  saved: RawRecord,
+  running: RawRecord,
+  options: DiffConfigOptions = {},
+): ConfigDriftEntry[] {
+  return diffRecords(saved, running, options.defaults ?? {}, "");
+}
+
+function diffRecords(
+  saved: RawRecord,
+  running: RawRecord,
+  defaults: RawRecord,
+  prefix: string,
+): ConfigDriftEntry[] {
+  const keys = [...new Set([...Object.keys(saved), ...Object.keys(running)])];
+  const entries: ConfigDriftEntry[] = [];
+
+  for (const key of keys.sort()) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const inSaved = key in saved && saved[key] !== undefined;
+    const inRunning = key in running && running[key] !== undefined;
+    const savedValue = saved[key];
+    const runningValue = running[key];
+    const defaultValue = defaults[key];
+
+    if (!inRunning) {
+      entries.push({ path, kind: "saved-only", saved: savedValue });
+    } else if (!inSaved) {
+      if (
+        defaultValue !== undefined &&
+        valuesEqual(runningValue, defaultValue)
+      ) {
+        continue;
+      }
+      entries.push({ path, kind: "running-only", running: runningValue });
+    } else if (isRecord(savedValue) && isRecord(runningValue)) {
+      entries.push(
+        ...diffRecords(
+          savedValue,
+          runningValue,
+          isRecord(defaultValue) ? defaultValue : {},
+          path,
+        ),
+      );
+    } else if (!valuesEqual(savedValue, runningValue)) {
+      entries.push({
+        path,
+        kind: "changed",
+        saved: savedValue,
+        running: runningValue,
+      });
+    }
+  }
+
+  return entries;
+}
+
+/** Entries that are real drift: running-only fields were set at runtime */
+export function countConfigDrift(entries: ConfigDriftEntry[]): number {
+  return entries.filter((entry) => entry.kind !== "running-only").length;
+}
+
+function valuesEqual(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+async function fetchJson(
+  fetcher: Fetcher,
+  input: string,
+  init?: FetchInit,
+): Promise<{
+  ok: boolean;
+  status: number;
+  statusText: string;
+  data: unknown;
+  message?: string;
+}> {
+  try {
+    const response = await fetcher(input, init);
+    const data = await response.json().catch(() => null);
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      data,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      status: 0,
+      statusText: "Network Error",
+      data: null,
+      message: error instanceof Error ? error.message : "Network error",
+    };
+  }
+}
+
+function isRecord(value: unknown): value is RawRecord {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function asRecord(value: unknown): RawRecord {
+  return isRecord(value) ? value : {};
+}
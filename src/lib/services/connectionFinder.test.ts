@@ -0,0 +1,101 @@
+import { describe, expect, it, vi } from "vitest";
+import { findConnections } from "./connectionFinder";
+import type { PathSearchResult } from "$lib/types/graph";
+
+const DRONE = "c360.ops.robotics.gcs.drone.001";
+const FLEET = "c360.ops.robotics.gcs.fleet.west";
+const MISSION = "c360.ops.robotics.gcs.mission.x";
+const PILOT = "c360.ops.robotics.gcs.pilot.ana";
+
+// drone -member_of-> fleet -assigned-> mission
+const neighbourhoods: Record<string, PathSearchResult> = {
+  [DRONE]: {
+    entities: [DRONE, FLEET].map((id) => ({ id, triples: [] })),
+    edges: [{ subject: DRONE, predicate: "fleet.member_of", object: FLEET }],
+  },
+  [MISSION]: {
+    entities: [MISSION, FLEET].map((id) => ({ id, triples: [] })),
+    edges: [{ subject: FLEET, predicate: "mission.assigned", object: MISSION }],
+  },
+};
+
+function fakePathSearch() {
+  return vi.fn(async (start: string, depth: number) =>
+    depth >= 1 ? neighbourhoods[start] : { entities: [], edges: [] },
+  );
+}
+
+describe("findConnections", () => {
+  it("expands both entities until their neighbourhoods meet", async () => {
+    const pathSearch = fakePathSearch();
+
+    const result = await findConnections({
+      sourceId: DRONE,
+      targetId: MISSION,
+      k: 1,
+      pathSearch,
+    });
+
+    expect(pathSearch).toHaveBeenCalledTimes(2);
+    expect(pathSearch).toHaveBeenCalledWith(DRONE, 1, 200);
+    expect(pathSearch).toHaveBeenCalledWith(MISSION, 1, 200);
+    expect(result.depth).toBe(1);
+    expect(result.paths[0].entityIds).toEqual([DRONE, FLEET, MISSION]);
+    expect(result.entities.map((entity) => entity.id).sort()).toEqual(
+      [DRONE, FLEET, MISSION].sort(),
+    );
+  });
+
+  it("keeps expanding up to maxDepth while fewer than k paths are found", async () => {
+    const pathSearch = fakePathSearch();
+
+    const result = await findConnections({
+      sourceId: DRONE,
+      targetId: MISSION,
+      k: 2,
+      maxDepth: 2,
+      pathSearch,
+    });
+
+    expect(pathSearch).toHaveBeenCalledTimes(4);
+    expect(result.depth).toBe(2);
+    expect(result.paths).toHaveLength(1);
+  });
+
+  it("searches known relationships before expanding", async () => {
+    const pathSearch = fakePathSearch();
+
+    const result = await findConnections({
+      sourceId: DRONE,
+      targetId: PILOT,
+      k: 1,
+      knownRelationships: [
+        {
+          id: "known",
+          sourceId: PILOT,
+          targetId: DRONE,
+          predicate: "pilot.flies",
+          confidence: 1,
+          timestamp: 0,
+        },
+      ],
+      pathSearch,
+    });
+
+    expect(pathSearch).not.toHaveBeenCalled();
+    expect(result.paths[0].steps[0]).toMatchObject({
+      predicate: "pilot.flies",
+      direction: "backward",
+    });
+  });
+
+  it("returns no paths when nothing connects within reach", async () => {
+    const result = await findConnections({
+      sourceId: DRONE,
+      targetId: PILOT,
+      pathSearch: vi.fn(async () => ({ entities: [], edges: [] })),
+    });
+
+    expect(result).toMatchObject({ paths: [], depth: 3 });
+  });
+});
@@ -0,0 +1,101 @@
+// Connection finder
+// Answers "how is A related to B": expands the neighbourhoods of both
+// entities through pathSearch one depth at a time until they meet, then ranks
+// the k shortest paths client-side
+
+import type { GraphEntity, GraphRelationship } from "$lib/types/graph";
+import { graphApi } from "./graphApi";
+import { transformPathSearchResult } from "./graphTransform";
+import {
+  buildPathGraph,
+  kShortestPaths,
+  type ConnectionPath,
+} from "$lib/utils/graph-paths";
+
+export interface FindConnectionsOptions {
+  sourceId: string;
+  targetId: string;
+  /** Paths to return (default: 3) */
+  k?: number;
+  /** Deepest pathSearch from each side; paths up to twice this long (default: 3) */
+  maxDepth?: number;
+  /** Node cap per pathSearch (default: 200) */
+  maxNodes?: number;
+  /** Relationships already loaded, searched along with the expansions */
+  knownRelationships?: GraphRelationship[];
+  pathSearch?: typeof graphApi.pathSearch;
+}
+
+export interface ConnectionResult {
+  /** Shortest first; empty when the entities are not connected within reach */
+  paths: ConnectionPath[];
+  /** Entities discovered while expanding, for the caller to show */
+  entities: GraphEntity[];
+  /** pathSearch depth the search stopped at */
+  depth: number;
+}
+
+/** A connection search as the explorer shows it */
+export interface ConnectionSearch {
+  sourceId: string;
+  /** Null while the user picks the target */
+  targetId: string | null;
+  status: "picking" | "searching" | "done" | "error";
+  paths: ConnectionPath[];
+  /** Index into paths of the path highlighted in the graph */
+  activePath: number;
+  error?: string;
+}
+
+/**
+ * Bidirectional expansion: each round runs pathSearch from both entities one
+ * level deeper, and stops as soon as k paths are found or maxDepth is reached.
+ */
+export async function findConnections(
+  options: FindConnectionsOptions,
+): Promise<ConnectionResult> {
+  const {
+    sourceId,
+    targetId,
+    k = 3,
+    maxDepth = 3,
+    maxNodes = 200,
+    knownRelationships = [],
+    pathSearch = (start, depth, nodes) =>
+      graphApi.pathSearch(start, depth, nodes),
+  } = options;
+
+  const entities = new Map<string, GraphEntity>();
+  const relationships = new Map(knownRelationships.map((rel) => [rel.id, rel]));
+  let paths = kShortestPaths(
+    buildPathGraph([...relationships.values()]),
+    sourceId,
+    targetId,
+    k,
+  );
+  let depth = 0;
+
+  while (paths.length < k && depth < maxDepth) {
+    depth++;
+    const results = await Promise.all([
+      pathSearch(sourceId, depth, maxNodes),
+      pathSearch(targetId, depth, maxNodes),
+    ]);
+    for (const result of results) {
+      for (const entity of transformPathSearchResult(result)) {
+        entities.set(entity.id, entity);
+        for (const rel of [...entity.outgoing, ...entity.incoming]) {
+          relationships.set(rel.id, rel);
+        }
+      }
+    }
+    paths = kShortestPaths(
+      buildPathGraph([...relationships.values()]),
+      sourceId,
+      targetId,
+      k,
+    );
+  }
+
+  return { paths, entities: [...entities.values()], depth };
+}
@@ -0,0 +1,262 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildDeployPlan,
+  collectResources,
+  planHasRisks,
+  subjectsOverlap,
+} from "./deployPlan";
+import type { RunningTopology, TopologyNode } from "./flowAnalysisApi";
+import type { Flow, FlowNode } from "$lib/types/flow";
+
+function node(
+  name: string,
+  component: string,
+  config: Record<string, unknown> = {},
+): FlowNode {
+  return {
+    id: `${name}-id`,
+    component,
+    type: "processor",
+    name,
+    position: { x: 0, y: 0 },
+    config,
+  };
+}
+
+function running(
+  name: string,
+  component: string,
+  config: Record<string, unknown> = {},
+): TopologyNode {
+  return { name, component, type: "processor", config };
+}
+
+function outputs(subject: string) {
+  return { ports: { outputs: [{ name: "out", subject }] } };
+}
+
+function otherFlow(
+  name: string,
+  nodes: FlowNode[],
+  runtimeState: Flow["runtime_state"] = "running",
+): Pick<Flow, "name" | "nodes" | "runtime_state"> {
+  return { name, nodes, runtime_state: runtimeState };
+}
+
+const topology: RunningTopology = {
+  nodes: [
+    running("udp", "udp-input", { port: 7000 }),
+    running("parser", "json-transform", { rules: ["a"], strict: true }),
+    running("old-store", "objectstore", { bucket: "telemetry" }),
+    running("billing-in", "nats-input", outputs("billing.events")),
+  ],
+  edges: [],
+};
+
+describe("buildDeployPlan", () => {
+  it("sorts flow components into create, reconfigure, and unchanged", () => {
+    const plan = buildDeployPlan({
+      nodes: [
+        node("udp", "udp-input", { port: 7000 }),
+        node("parser", "json-transform", { strict: false, rules: ["a"] }),
+        node("enricher", "json-transform"),
+      ],
+      topology,
+    });
+
+    expect(plan.create).toEqual([
+      { name: "enricher", component: "json-transform" },
+    ]);
+    expect(plan.reconfigure).toEqual([
+      {
+        name: "parser",
+        component: "json-transform",
+        changedKeys: ["strict"],
+        previousComponent: undefined,
+      },
+    ]);
+    expect(plan.unchanged).toEqual(["udp"]);
+    expect(plan.remove).toEqual([]);
+  });
+
+  it("ignores config key order and flags factory changes", () => {
+    const plan = buildDeployPlan({
+      nodes: [
+        node("parser", "json-transform", { strict: true, rules: ["a"] }),
+        node("udp", "tcp-input", { port: 7000 }),
+      ],
+      topology,
+    });
+
+    expect(plan.unchanged).toEqual(["parser"]);
+    expect(plan.reconfigure).toEqual([
+      {
+        name: "udp",
+        component: "tcp-input",
+        changedKeys: [],
+        previousComponent: "udp-input",
+      },
+    ]);
+  });
+
+  it("removes components from the last deploy that left the flow", () => {
+    const plan = buildDeployPlan({
+      nodes: [node("udp", "udp-input", { port: 7000 })],
+      deployedNodes: [
+        node("udp", "udp-input"),
+        node("old-store", "objectstore"),
+        // Deployed once but no longer running: nothing to remove
+        node("gone", "objectstore"),
+      ],
+      topology,
+    });
+
+    expect(plan.remove).toEqual([
+      { name: "old-store", component: "objectstore" },
+    ]);
+    expect(planHasRisks(plan)).toBe(true);
+  });
+
+  it("treats components disabled in /list as not running", () => {
+    const plan = buildDeployPlan({
+      nodes: [node("udp", "udp-input", { port: 7000 })],
+      topology,
+      components: [
+        { name: "udp", component: "udp-input", enabled: false },
+        { name: "metrics", component: "metrics", enabled: true },
+      ],
+    });
+
+    expect(plan.create).toEqual([{ name: "udp", component: "udp-input" }]);
+  });
+
+  it("ignores config keys only the running component has", () => {
+    const plan = buildDeployPlan({
+      nodes: [node("parser", "json-transform", { rules: ["a"] })],
+      topology,
+    });
+
+    expect(plan.unchanged).toEqual(["parser"]);
+    expect(plan.reconfigure).toEqual([]);
+  });
+
+  it("reports listed components missing from the flowgraph as unknown", () => {
+    const plan = buildDeployPlan({
+      nodes: [
+        node("metrics", "metrics", { interval: "10s" }),
+        node("sink", "objectstore", { bucket: "out" }),
+      ],
+      topology,
+      components: [
+        { name: "metrics", component: "metrics", enabled: true },
+        { name: "sink", component: "kv-writer", enabled: true },
+      ],
+    });
+
+    expect(plan.unknown).toEqual([{ name: "metrics", component: "metrics" }]);
+    expect(plan.reconfigure).toEqual([
+      {
+        name: "sink",
+        component: "objectstore",
+        changedKeys: [],
+        previousComponent: "kv-writer",
+      },
+    ]);
+  });
+
+  it("reports names owned by other deployed flows as conflicts", () => {
+    const plan = buildDeployPlan({
+      nodes: [node("udp", "udp-input", { port: 7000 })],
+      topology,
+      otherFlows: [
+        otherFlow("Ingest", [node("udp", "udp-input")]),
+        otherFlow("Draft", [node("parser", "json-transform")], "not_deployed"),
+      ],
+    });
+
+    expect(plan.conflicts).toEqual([{ name: "udp", flowName: "Ingest" }]);
+    expect(plan.unchanged).toEqual([]);
+  });
+
+  it("flags subjects and buckets shared with other running components", () => {
+    const plan = buildDeployPlan({
+      nodes: [
+        node("tap", "nats-input", {
+          ports: { inputs: [{ name: "in", subject: "billing.>" }] },
+        }),
+        node("store", "objectstore", { bucket: "telemetry" }),
+        node("quiet", "nats-input", outputs("audit.events")),
+      ],
+      topology,
+      otherFlows: [otherFlow("Billing", [node("billing-in", "nats-input")])],
+    });
+
+    expect(plan.sharedResources).toEqual([
+      {
+        kind: "subject",
+        value: "billing.>",
+        usedBy: ["tap"],
+        sharedWith: [
+          {
+            component: "billing-in",
+            value: "billing.events",
+            flowName: "Billing",
+          },
+        ],
+      },
+      {
+        kind: "bucket",
+        value: "telemetry",
+        usedBy: ["store"],
+        sharedWith: [
+          { component: "old-store", value: "telemetry", flowName: undefined },
+        ],
+      },
+    ]);
+  });
+
+  it("does not count this flow's own deployed components as sharing", () => {
+    const plan = buildDeployPlan({
+      nodes: [node("store", "objectstore", { bucket: "telemetry" })],
+      deployedNodes: [node("old-store", "objectstore")],
+      topology,
+    });
+
+    expect(plan.sharedResources).toEqual([]);
+  });
+});
+
+describe("subjectsOverlap", () => {
+  it.each([
+    ["a.b", "a.b", true],
+    ["a.b", "a.c", false],
+    ["a.*", "a.b", true],
+    ["a.*", "a.b.c", false],
+    ["a.>", "a.b.c", true],
+    ["a.>", "a", false],
+    ["*.b", "a.*", true],
+    ["a.b", "a.b.c", false],
+  ])("%s and %s -> %s", (a, b, expected) => {
+    expect(subjectsOverlap(a, b)).toBe(expected);
+    expect(subjectsOverlap(b, a)).toBe(expected);
+  });
+});
+
+describe("collectResources", () => {
+  it("finds subjects and buckets anywhere in a config", () => {
+    expect(
+      collectResources({
+        ports: {
+          inputs: [{ subject: "in.raw" }],
+          outputs: [{ subjects: ["events.>", ""] }, { bucket: "STATE" }],
+        },
+        cache: { bucket_name: "cache" },
+      }),
+    ).toEqual([
+      { kind: "subject", value: "in.raw" },
+      { kind: "subject", value: "events.>" },
+      { kind: "bucket", value: "STATE" },
+      { kind: "bucket", value: "cache" },
+    ]);
+  });
+});
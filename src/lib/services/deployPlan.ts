@@ -0,0 +1,310 @@
+// Deploy plan
+// Dry run of a deploy: compares the flow with the components that are running
+// now and reports what deploying would create, reconfigure, or remove, plus
+// NATS subjects and KV buckets the flow would share with other running flows
+
+import type { Flow, FlowNode } from "$lib/types/flow";
+import type {
+  ListedComponent,
+  RunningTopology,
+  TopologyNode,
+} from "./flowAnalysisApi";
+
+export interface PlannedComponent {
+  name: string;
+  component: string;
+}
+
+export interface PlannedReconfiguration extends PlannedComponent {
+  /** Top-level config keys the flow sets to a different value */
+  changedKeys: string[];
+  /** The component factory changes, e.g. udp-input → tcp-input */
+  previousComponent?: string;
+}
+
+/** A flow component whose name is already taken by another flow */
+export interface NameConflict {
+  name: string;
+  /** Owning flow, when it was deployed from the flow builder */
+  flowName?: string;
+}
+
+export type SharedResourceKind = "subject" | "bucket";
+
+/** A subject or bucket used both by this flow and by other running components */
+export interface SharedResource {
+  kind: SharedResourceKind;
+  /** The value as configured in this flow */
+  value: string;
+  /** This flow's components that use it */
+  usedBy: string[];
+  sharedWith: {
+    component: string;
+    /** The other side's value; differs from `value` for wildcard overlaps */
+    value: string;
+    flowName?: string;
+  }[];
+}
+
+export interface DeployPlan {
+  create: PlannedComponent[];
+  reconfigure: PlannedReconfiguration[];
+  remove: PlannedComponent[];
+  unchanged: string[];
+  /**
+   * Running components listed by /list but missing from the flowgraph, so
+   * their config cannot be compared
+   */
+  unknown: PlannedComponent[];
+  conflicts: NameConflict[];
+  sharedResources: SharedResource[];
+}
+
+export interface DeployPlanInput {
+  /** Flow content about to be deployed */
+  nodes: FlowNode[];
+  /**
+   * Nodes as of this flow's last deploy, when known. Deployed components that
+   * are no longer in the flow are the ones the deploy removes.
+   */
+  deployedNodes?: FlowNode[];
+  topology: RunningTopology;
+  /** From /list; components it reports as disabled do not count as running */
+  components?: ListedComponent[];
+  /** The other flows, to attribute running components to their flows */
+  otherFlows?: Pick<Flow, "name" | "nodes" | "runtime_state">[];
+}
+
+export function buildDeployPlan(input: DeployPlanInput): DeployPlan {
+  const disabled = new Set(
+    (input.components ?? [])
+      .filter((component) => !component.enabled)
+      .map((component) => component.name),
+  );
+  const running = new Map(
+    input.topology.nodes
+      .filter((node) => !disabled.has(node.name))
+      .map((node) => [node.name, node]),
+  );
+  // Listed components missing from the flowgraph still occupy their name,
+  // but their config is unknown
+  const unknownConfig = new Set<string>();
+  for (const component of input.components ?? []) {
+    if (component.enabled && !running.has(component.name)) {
+      unknownConfig.add(component.name);
+      running.set(component.name, {
+        name: component.name,
+        component: component.component,
+        type: "processor",
+        config: {},
+      });
+    }
+  }
+
+  const owners = new Map<string, string>();
+  for (const flow of input.otherFlows ?? []) {
+    if (flow.runtime_state === "not_deployed") continue;
+    for (const node of flow.nodes ?? []) owners.set(node.name, flow.name);
+  }
+
+  const plan: DeployPlan = {
+    create: [],
+    reconfigure: [],
+    remove: [],
+    unchanged: [],
+    unknown: [],
+    conflicts: [],
+    sharedResources: [],
+  };
+
+  const names = new Set(input.nodes.map((node) => node.name));
+  for (const node of input.nodes) {
+    const current = running.get(node.name);
+    if (owners.has(node.name)) {
+      plan.conflicts.push({ name: node.name, flowName: owners.get(node.name) });
+    } else if (!current) {
+      plan.create.push({ name: node.name, component: node.component });
+    } else if (
+      unknownConfig.has(node.name) &&
+      current.component === node.component
+    ) {
+      plan.unknown.push({ name: node.name, component: node.component });
+    } else {
+      const changedKeys = unknownConfig.has(node.name)
+        ? []
+        : changedConfigKeys(current.config, node.config ?? {});
+      if (changedKeys.length > 0 || current.component !== node.component) {
+        plan.reconfigure.push({
+          name: node.name,
+          component: node.component,
+          changedKeys,
+          previousComponent:
+            current.component !== node.component
+              ? current.component
+              : undefined,
+        });
+      } else {
+        plan.unchanged.push(node.name);
+      }
+    }
+  }
+
+  for (const node of input.deployedNodes ?? []) {
+    if (
+      !names.has(node.name) &&
+      running.has(node.name) &&
+      !owners.has(node.name)
+    ) {
+      plan.remove.push({ name: node.name, component: node.component });
+    }
+  }
+
+  // Everything else that keeps running after the deploy
+  const deployedNames = new Set(
+    (input.deployedNodes ?? []).map((node) => node.name),
+  );
+  const others = [...running.values()].filter(
+    (node) => !names.has(node.name) && !deployedNames.has(node.name),
+  );
+  plan.sharedResources = findSharedResources(input.nodes, others, owners);
+
+  return plan;
+}
+
+/** True when the plan needs a closer look before deploying */
+export function planHasRisks(plan: DeployPlan): boolean {
+  return (
+    plan.conflicts.length > 0 ||
+    plan.sharedResources.length > 0 ||
+    plan.remove.length > 0
+  );
+}
+
+/** NATS subjects and KV buckets named anywhere in a component config */
+export function collectResources(
+  config: Record<string, unknown>,
+): { kind: SharedResourceKind; value: string }[] {
+  const resources: { kind: SharedResourceKind; value: string }[] = [];
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (!value || typeof value !== "object") return;
+    for (const [key, child] of Object.entries(value)) {
+      if (key === "subject" && typeof child === "string" && child) {
+        resources.push({ kind: "subject", value: child });
+      } else if (key === "subjects" && Array.isArray(child)) {
+        for (const subject of child) {
+          if (typeof subject === "string" && subject) {
+            resources.push({ kind: "subject", value: subject });
+          }
+        }
+      } else if (
+        (key === "bucket" || key === "bucket_name") &&
+        typeof child === "string" &&
+        child
+      ) {
+        resources.push({ kind: "bucket", value: child });
+      } else {
+        visit(child);
+      }
+    }
+  };
+  visit(config);
+  return resources;
+}
+
+/**
+ * Whether two NATS subjects can match the same message. `*` matches one
+ * token and `>` matches one or more trailing tokens.
+ */
+export function subjectsOverlap(a: string, b: string): boolean {
+  const left = a.split(".");
+  const right = b.split(".");
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const l = left[i];
+    const r = right[i];
+    if (l === ">" || r === ">") return l !== undefined && r !== undefined;
+    if (l === undefined || r === undefined) return false;
+    if (l !== "*" && r !== "*" && l !== r) return false;
+  }
+  return true;
+}
+
+function findSharedResources(
+  nodes: FlowNode[],
+  others: TopologyNode[],
+  owners: Map<string, string>,
+): SharedResource[] {
+  const otherResources = others.flatMap((node) =>
+    collectResources(node.config).map((resource) => ({
+      ...resource,
+      component: node.name,
+    })),
+  );
+
+  const shared = new Map<string, SharedResource>();
+  for (const node of nodes) {
+    for (const resource of collectResources(node.config ?? {})) {
+      const matches = otherResources.filter(
+        (other) =>
+          other.kind === resource.kind &&
+          (resource.kind === "subject"
+            ? subjectsOverlap(resource.value, other.value)
+            : resource.value === other.value),
+      );
+      if (matches.length === 0) continue;
+
+      const key = `${resource.kind}:${resource.value}`;
+      const entry = shared.get(key) ?? {
+        kind: resource.kind,
+        value: resource.value,
+        usedBy: [],
+        sharedWith: [],
+      };
+      if (!entry.usedBy.includes(node.name)) entry.usedBy.push(node.name);
+      for (const match of matches) {
+        if (
+          !entry.sharedWith.some(
+            (existing) =>
+              existing.component === match.component &&
+              existing.value === match.value,
+          )
+        ) {
+          entry.sharedWith.push({
+            component: match.component,
+            value: match.value,
+            flowName: owners.get(match.component),
+          });
+        }
+      }
+      shared.set(key, entry);
+    }
+  }
+  return [...shared.values()];
+}
+
+// Only keys the flow sets: keys only the running side has are defaults the
+// component applied itself, and a deploy leaves them as they are
+function changedConfigKeys(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+): string[] {
+  return Object.keys(after)
+    .filter((key) => stableJson(before[key]) !== stableJson(after[key]))
+    .sort();
+}
+
+// JSON with sorted object keys, so key order does not count as a change
+function stableJson(value: unknown): string {
+  return JSON.stringify(value, (_key, child: unknown) =>
+    child && typeof child === "object" && !Array.isArray(child)
+      ? Object.fromEntries(
+          Object.entries(child as Record<string, unknown>).sort(([a], [b]) =>
+            a.localeCompare(b),
+          ),
+        )
+      : child,
+  );
+}
@@ -0,0 +1,282 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  FlowAnalysisApiError,
+  buildFlowOverlay,
+  flowAnalysisApi,
+  normalizeComponentList,
+  topologyToFlow,
+} from "./flowAnalysisApi";
+import type { FlowNode } from "$lib/types/flow";
+
+function jsonResponse(
+  body: unknown,
+  status = 200,
+  statusText = "OK",
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText,
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+function node(id: string, name: string): FlowNode {
+  return {
+    id,
+    component: "component",
+    type: "processor",
+    name,
+    position: { x: 0, y: 0 },
+    config: {},
+  };
+}
+
+describe("flowAnalysisApi", () => {
+  it("normalizes disconnected nodes and orphaned ports", async () => {
+    const fetcher = vi.fn(async () =>
+      jsonResponse({
+        disconnected_nodes: [
+          {
+            component_name: "stray",
+            issue: "no connections",
+            suggestions: ["connect an input"],
+          },
+        ],
+        orphaned_ports: [
+          { component_name: "stray", port_name: "in", direction: "input" },
+        ],
+      }),
+    );
+
+    const gaps = await flowAnalysisApi.fetchGaps({ fetcher });
+
+    expect(fetcher).toHaveBeenCalledWith("/components/gaps", {
+      cache: "no-store",
+    });
+    expect(gaps).toEqual({
+      disconnectedNodes: [
+        {
+          componentName: "stray",
+          issue: "no connections",
+          suggestions: ["connect an input"],
+        },
+      ],
+      orphanedPorts: [
+        {
+          componentName: "stray",
+          portName: "in",
+          direction: "input",
+          issue: undefined,
+        },
+      ],
+    });
+  });
+
+  it("accepts data paths as a bare map or wrapped in an envelope", async () => {
+    const fetcher = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(jsonResponse({ udp: ["parser", "store"] }))
+      .mockResolvedValueOnce(
+        jsonResponse({ paths: { udp: ["parser"] }, count: 1 }),
+      );
+
+    await expect(flowAnalysisApi.fetchPaths({ fetcher })).resolves.toEqual({
+      udp: ["parser", "store"],
+    });
+    await expect(flowAnalysisApi.fetchPaths({ fetcher })).resolves.toEqual({
+      udp: ["parser"],
+    });
+  });
+
+  it("throws a structured error when analysis is unavailable", async () => {
+    const fetcher = vi.fn(async () =>
+      jsonResponse(null, 503, "Service Unavailable"),
+    );
+
+    await expect(flowAnalysisApi.fetchGaps({ fetcher })).rejects.toBeInstanceOf(
+      FlowAnalysisApiError,
+    );
+  });
+});
+
+describe("running topology import", () => {
+  it("normalizes FlowGraph nodes keyed by name and port-level edges", async () => {
+    const fetcher = vi.fn(async () =>
+      jsonResponse({
+        nodes: {
+          udp: {
+            component_type: "udp-input",
+            output_ports: [{ name: "out" }],
+            config: { port: 5000 },
+          },
+          parser: {
+            component_type: "json-parser",
+            input_ports: [{ name: "in" }],
+            output_ports: [{ name: "out" }],
+          },
+          store: {
+            component_type: "graph-store",
+            category: "storage",
+            input_ports: [{ name: "in" }],
+          },
+        },
+        edges: [
+          {
+            from: { component_name: "udp", port_name: "out" },
+            to: { component_name: "parser", port_name: "in" },
+          },
+          {
+            from: { component_name: "parser", port_name: "out" },
+            to: { component_name: "store", port_name: "in" },
+          },
+        ],
+      }),
+    );
+
+    const topology = await flowAnalysisApi.fetchTopology({ fetcher });
+
+    expect(fetcher).toHaveBeenCalledWith("/components/flowgraph", {
+      cache: "no-store",
+    });
+    expect(topology.nodes).toEqual([
+      {
+        name: "udp",
+        component: "udp-input",
+        type: "input",
+        config: { port: 5000 },
+      },
+      {
+        name: "parser",
+        component: "json-parser",
+        type: "processor",
+        config: {},
+      },
+      { name: "store", component: "graph-store", type: "storage", config: {} },
+    ]);
+    expect(topology.edges[0]).toEqual({
+      sourceComponent: "udp",
+      sourcePort: "out",
+      targetComponent: "parser",
+      targetPort: "in",
+    });
+  });
+
+  it("converts the topology into laid-out nodes and auto connections", () => {
+    const { nodes, connections } = topologyToFlow({
+      nodes: [
+        { name: "udp", component: "udp-input", type: "input", config: {} },
+        {
+          name: "parser",
+          component: "json-parser",
+          type: "processor",
+          config: {},
+        },
+      ],
+      edges: [
+        {
+          sourceComponent: "udp",
+          sourcePort: "out",
+          targetComponent: "parser",
+          targetPort: "in",
+        },
+        {
+          sourceComponent: "parser",
+          sourcePort: "out",
+          targetComponent: "not-running",
+          targetPort: "in",
+        },
+      ],
+    });
+
+    expect(nodes.map((node) => node.id)).toEqual(["udp", "parser"]);
+    // Layered left to right from the input
+    expect(nodes[1].position.x).toBeGreaterThan(nodes[0].position.x);
+    expect(connections).toEqual([
+      {
+        id: "auto_udp_out_parser_in",
+        source_node_id: "udp",
+        source_port: "out",
+        target_node_id: "parser",
+        target_port: "in",
+        source: "auto",
+      },
+    ]);
+  });
+});
+
+describe("component list", () => {
+  it("normalizes listed components and their enabled state", async () => {
+    const fetcher = vi.fn(async () =>
+      jsonResponse({
+        components: [
+          { name: "udp", component_type: "udp-input", enabled: true },
+          { name: "parser", factory: "json-parser", state: "stopped" },
+          { name: "store", health: { healthy: false } },
+        ],
+      }),
+    );
+
+    const components = await flowAnalysisApi.fetchComponents({ fetcher });
+
+    expect(fetcher).toHaveBeenCalledWith("/components/list", {
+      cache: "no-store",
+    });
+    expect(components).toEqual([
+      {
+        name: "udp",
+        component: "udp-input",
+        enabled: true,
+        healthy: undefined,
+      },
+      {
+        name: "parser",
+        component: "json-parser",
+        enabled: false,
+        healthy: undefined,
+      },
+      { name: "store", component: "store", enabled: true, healthy: false },
+    ]);
+  });
+
+  it("accepts a map keyed by component name", () => {
+    expect(normalizeComponentList({ udp: { component: "udp-input" } })).toEqual(
+      [
+        {
+          name: "udp",
+          component: "udp-input",
+          enabled: true,
+          healthy: undefined,
+        },
+      ],
+    );
+  });
+});
+
+describe("buildFlowOverlay", () => {
+  it("maps component names to node IDs and finds unreachable nodes", () => {
+    const overlay = buildFlowOverlay(
+      [
+        node("n1", "udp"),
+        node("n2", "parser"),
+        node("n3", "store"),
+        node("n4", "stray"),
+      ],
+      {
+        disconnectedNodes: [{ componentName: "store", suggestions: [] }],
+        orphanedPorts: [
+          { componentName: "stray", portName: "in" },
+          { componentName: "stray", portName: "out" },
+        ],
+      },
+      { udp: ["udp", "parser", "store"] },
+    );
+
+    expect(overlay).toEqual({
+      unreachableNodeIds: ["n3", "n4"],
+      orphanedPorts: { n4: ["in", "out"] },
+      downstream: { n1: ["n2", "n3"] },
+    });
+  });
+});
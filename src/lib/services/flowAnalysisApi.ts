@@ -0,0 +1,395 @@
+import type { FlowConnection, FlowNode } from "$lib/types/flow";
+import { layoutNodes } from "$lib/utils/d3-layout";
+
+type Fetcher = typeof fetch;
+type FetchInit = Parameters<Fetcher>[1];
+
+/** Component that is not wired into the running flow */
+export interface DisconnectedNode {
+  componentName: string;
+  issue?: string;
+  suggestions: string[];
+}
+
+/** Port with no producer or consumer on the other side */
+export interface OrphanedPort {
+  componentName: string;
+  portName: string;
+  direction?: string;
+  issue?: string;
+}
+
+export interface FlowGaps {
+  disconnectedNodes: DisconnectedNode[];
+  orphanedPorts: OrphanedPort[];
+}
+
+/** Input component name → every component reachable from it */
+export type FlowPaths = Record<string, string[]>;
+
+/** Gap and reachability data keyed by flow node ID, ready for the canvas */
+export interface FlowOverlay {
+  unreachableNodeIds: string[];
+  /** Node ID → names of its orphaned ports */
+  orphanedPorts: Record<string, string[]>;
+  /** Input node ID → IDs of all nodes downstream of it */
+  downstream: Record<string, string[]>;
+}
+
+/** Component as registered with the running component manager */
+export interface TopologyNode {
+  name: string;
+  /** Component factory, e.g. "udp-input" */
+  component: string;
+  /** Category used for colouring: input, processor, output, storage… */
+  type: string;
+  config: Record<string, unknown>;
+}
+
+export interface TopologyEdge {
+  sourceComponent: string;
+  sourcePort: string;
+  targetComponent: string;
+  targetPort: string;
+}
+
+/** Component as reported by the component manager's /list */
+export interface ListedComponent {
+  name: string;
+  component: string;
+  /** False for components that are registered but disabled (stopped) */
+  enabled: boolean;
+  healthy?: boolean;
+}
+
+/** Normalized /flowgraph response */
+export interface RunningTopology {
+  nodes: TopologyNode[];
+  edges: TopologyEdge[];
+}
+
+export interface FlowAnalysisRequestOptions {
+  fetcher?: Fetcher;
+}
+
+export class FlowAnalysisApiError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+  ) {
+    super(message);
+    this.name = "FlowAnalysisApiError";
+  }
+}
+
+type RawRecord = Record<string, unknown>;
+
+export const flowAnalysisApi = {
+  async fetchGaps(options: FlowAnalysisRequestOptions = {}): Promise<FlowGaps> {
+    const data = await request(options, "/components/gaps", "Flow gaps");
+    return normalizeGaps(data);
+  },
+
+  async fetchPaths(
+    options: FlowAnalysisRequestOptions = {},
+  ): Promise<FlowPaths> {
+    const data = await request(options, "/components/paths", "Flow paths");
+    return normalizePaths(data);
+  },
+
+  async fetchTopology(
+    options: FlowAnalysisRequestOptions = {},
+  ): Promise<RunningTopology> {
+    const data = await request(
+      options,
+      "/components/flowgraph",
+      "Running topology",
+    );
+    return normalizeTopology(data);
+  },
+
+  async fetchComponents(
+    options: FlowAnalysisRequestOptions = {},
+  ): Promise<ListedComponent[]> {
+    const data = await request(options, "/components/list", "Component list");
+    return normalizeComponentList(data);
+  },
+};
+
+export function normalizeGaps(payload: unknown): FlowGaps {
+  const record = asRecord(payload);
+
+  return {
+    disconnectedNodes: asArray(record.disconnected_nodes).map((entry) => {
+      const node = asRecord(entry);
+      return {
+        componentName: String(node.component_name ?? node.name ?? ""),
+        issue: optionalString(node.issue),
+        suggestions: asArray(node.suggestions).map(String),
+      };
+    }),
+    orphanedPorts: asArray(record.orphaned_ports).map((entry) => {
+      const port = asRecord(entry);
+      return {
+        componentName: String(port.component_name ?? ""),
+        portName: String(port.port_name ?? port.name ?? ""),
+        direction: optionalString(port.direction),
+        issue: optionalString(port.issue),
+      };
+    }),
+  };
+}
+
+export function normalizePaths(payload: unknown): FlowPaths {
+  const record = asRecord(payload);
+  // Accept both the bare map and a {paths: {...}} envelope
+  const source = record.paths !== undefined ? asRecord(record.paths) : record;
+
+  const paths: FlowPaths = {};
+  for (const [input, reachable] of Object.entries(source)) {
+    if (Array.isArray(reachable)) {
+      paths[input] = reachable.map(String);
+    }
+  }
+  return paths;
+}
+
+export function normalizeTopology(payload: unknown): RunningTopology {
+  const record = asRecord(payload);
+  // Nodes arrive either as a list or as a map keyed by component name
+  const rawNodes = Array.isArray(record.nodes)
+    ? record.nodes.map((node) => [undefined, node] as const)
+    : Object.entries(asRecord(record.nodes));
+
+  const nodes = rawNodes.map(([key, entry]) => {
+    const node = asRecord(entry);
+    const name = String(node.component_name ?? node.name ?? key ?? "");
+    const component = String(
+      node.component_type ?? node.factory ?? node.component ?? name,
+    );
+    return {
+      name,
+      component,
+      type: optionalString(node.category) ?? inferCategory(node),
+      config: asRecord(node.config),
+    };
+  });
+
+  const edges = asArray(record.edges).map((entry) => {
+    const edge = asRecord(entry);
+    const from = asRecord(edge.from);
+    const to = asRecord(edge.to);
+    return {
+      sourceComponent: String(
+        from.component_name ?? from.component ?? edge.source_component ?? "",
+      ),
+      sourcePort: String(from.port_name ?? from.port ?? edge.source_port ?? ""),
+      targetComponent: String(
+        to.component_name ?? to.component ?? edge.target_component ?? "",
+      ),
+      targetPort: String(to.port_name ?? to.port ?? edge.target_port ?? ""),
+    };
+  });
+
+  return {
+    nodes: nodes.filter((node) => node.name),
+    edges: edges.filter((edge) => edge.sourceComponent && edge.targetComponent),
+  };
+}
+
+export function normalizeComponentList(payload: unknown): ListedComponent[] {
+  const record = asRecord(payload);
+  // A bare list, a {components: [...]} envelope, or a map keyed by name
+  const rawComponents = Array.isArray(payload)
+    ? payload.map((entry) => [undefined, entry] as const)
+    : Array.isArray(record.components)
+      ? record.components.map((entry) => [undefined, entry] as const)
+      : Object.entries(asRecord(record.components ?? payload));
+
+  return rawComponents
+    .map(([key, entry]) => {
+      const component = asRecord(entry);
+      const health = asRecord(component.health);
+      const name = String(
+        component.component_name ?? component.name ?? key ?? "",
+      );
+      const state = optionalString(component.state ?? component.status);
+      const healthy = component.healthy ?? health.healthy;
+      return {
+        name,
+        component: String(
+          component.component_type ??
+            component.factory ??
+            component.component ??
+            name,
+        ),
+        enabled:
+          typeof component.enabled === "boolean"
+            ? component.enabled
+            : state === undefined || !/stopped|disabled/i.test(state),
+        healthy: typeof healthy === "boolean" ? healthy : undefined,
+      };
+    })
+    .filter((component) => component.name);
+}
+
+/**
+ * Convert a running topology into editable flow records. Node IDs are the
+ * component names, and every edge becomes an auto-discovered connection so
+ * validation can re-derive it once the flow is opened in the editor.
+ */
+export function topologyToFlow(topology: RunningTopology): {
+  nodes: FlowNode[];
+  connections: FlowConnection[];
+} {
+  const nodeNames = new Set(topology.nodes.map((node) => node.name));
+  const nodes: FlowNode[] = topology.nodes.map((node) => ({
+    id: node.name,
+    component: node.component,
+    type: node.type,
+    name: node.name,
+    position: { x: 0, y: 0 },
+    config: node.config,
+  }));
+
+  const connections: FlowConnection[] = topology.edges
+    .filter(
+      (edge) =>
+        nodeNames.has(edge.sourceComponent) &&
+        nodeNames.has(edge.targetComponent),
+    )
+    .map((edge) => ({
+      id: `auto_${edge.sourceComponent}_${edge.sourcePort}_${edge.targetComponent}_${edge.targetPort}`,
+      source_node_id: edge.sourceComponent,
+      source_port: edge.sourcePort,
+      target_node_id: edge.targetComponent,
+      target_port: edge.targetPort,
+      source: "auto",
+    }));
+
+  const positions = new Map(
+    layoutNodes(nodes, connections).map((node) => [
+      node.id,
+      { x: node.x, y: node.y, placed: true },
+    ]),
+  );
+  for (const node of nodes) {
+    node.position = positions.get(node.id) ?? node.position;
+  }
+
+  return { nodes, connections };
+}
+
+/**
+ * Translate backend component names into flow node IDs. Nodes that no input
+ * can reach, or that the backend reports as disconnected, are unreachable.
+ */
+export function buildFlowOverlay(
+  nodes: FlowNode[],
+  gaps: FlowGaps,
+  paths: FlowPaths,
+): FlowOverlay {
+  const nodeIdsByName = new Map(nodes.map((node) => [node.name, node.id]));
+  const toNodeId = (name: string) => nodeIdsByName.get(name) ?? name;
+
+  const downstream: FlowOverlay["downstream"] = {};
+  const reachable = new Set<string>();
+  for (const [input, names] of Object.entries(paths)) {
+    const inputId = toNodeId(input);
+    const ids = names.map(toNodeId).filter((id) => id !== inputId);
+    downstream[inputId] = ids;
+    reachable.add(inputId);
+    ids.forEach((id) => reachable.add(id));
+  }
+
+  const disconnected = new Set(
+    gaps.disconnectedNodes.map((node) => toNodeId(node.componentName)),
+  );
+
+  const orphanedPorts: FlowOverlay["orphanedPorts"] = {};
+  for (const port of gaps.orphanedPorts) {
+    const nodeId = toNodeId(port.componentName);
+    (orphanedPorts[nodeId] ??= []).push(port.portName);
+  }
+
+  return {
+    unreachableNodeIds: nodes
+      .filter((node) => disconnected.has(node.id) || !reachable.has(node.id))
+      .map((node) => node.id),
+    orphanedPorts,
+    downstream,
+  };
+}
+
+async function request(
+  options: FlowAnalysisRequestOptions,
+  url: string,
+  label: string,
+  init: FetchInit = {},
+): Promise<unknown> {
+  const fetcher = options.fetcher ?? fetch;
+  const result = await fetchJson(fetcher, url, { cache: "no-store", ...init });
+
+  if (!result.ok) {
+    throw new FlowAnalysisApiError(
+      result.message ?? `${label} failed: ${result.statusText}`,
+      result.status,
+    );
+  }
+
+  return result.data;
+}
+
+async function fetchJson(
+  fetcher: Fetcher,
+  input: string,
+  init?: FetchInit,
+): Promise<{
+  ok: boolean;
+  status: number;
+  statusText: string;
+  data: unknown;
+  message?: string;
+}> {
+  try {
+    const response = await fetcher(input, init);
+    const data = await response.json().catch(() => null);
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      data,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      status: 0,
+      statusText: "Network Error",
+      data: null,
+      message: error instanceof Error ? error.message : "Network error",
+    };
+  }
+}
+
+function asRecord(value: unknown): RawRecord {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as RawRecord)
+    : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function inferCategory(node: RawRecord): string {
+  const inputs = asArray(node.input_ports).length;
+  const outputs = asArray(node.output_ports).length;
+  if (inputs === 0 && outputs > 0) return "input";
+  if (outputs === 0 && inputs > 0) return "output";
+  return "processor";
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
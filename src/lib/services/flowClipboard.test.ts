@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import {
+  copySelection,
+  FLOW_CLIPBOARD_FORMAT,
+  parseClipboard,
+  pasteSelection,
+  serializeClipboard,
+  uniqueCopyName,
+} from "./flowClipboard";
+import type { FlowConnection, FlowNode } from "$lib/types/flow";
+
+function node(id: string, x = 100, y = 100): FlowNode {
+  return {
+    id,
+    component: "json-transform",
+    type: "processor",
+    name: `${id}-name`,
+    position: { x, y },
+    config: { rules: [{ field: "a" }] },
+  };
+}
+
+function connection(
+  source: string,
+  target: string,
+  origin: "auto" | "manual" = "manual",
+): FlowConnection {
+  return {
+    id: `${origin === "auto" ? "auto" : "conn"}_${source}_out_${target}_in`,
+    source_node_id: source,
+    source_port: "out",
+    target_node_id: target,
+    target_port: "in",
+    source: origin,
+    validationState: "valid",
+  };
+}
+
+const nodes = [node("a"), node("b", 400), node("c", 700)];
+const connections = [
+  connection("a", "b"),
+  connection("b", "c"),
+  connection("a", "b", "auto"),
+];
+
+describe("copySelection", () => {
+  it("keeps selected nodes and the manual connections between them", () => {
+    const data = copySelection(nodes, connections, ["a", "b"]);
+
+    expect(data.format).toBe(FLOW_CLIPBOARD_FORMAT);
+    expect(data.nodes.map((n) => n.id)).toEqual(["a", "b"]);
+    expect(data.connections).toEqual([
+      {
+        id: "conn_a_out_b_in",
+        source_node_id: "a",
+        source_port: "out",
+        target_node_id: "b",
+        target_port: "in",
+        source: "manual",
+      },
+    ]);
+  });
+
+  it("is detached from the source nodes", () => {
+    const data = copySelection(nodes, connections, ["a"]);
+
+    expect(data.nodes[0].config).toEqual(nodes[0].config);
+    expect(data.nodes[0].config).not.toBe(nodes[0].config);
+  });
+});
+
+describe("parseClipboard", () => {
+  it("round-trips serialized selections", () => {
+    const data = copySelection(nodes, connections, ["a", "b"]);
+
+    expect(parseClipboard(serializeClipboard(data))).toEqual(data);
+  });
+
+  it("ignores text that is not a copied selection", () => {
+    expect(parseClipboard("hello")).toBeNull();
+    expect(parseClipboard('{"nodes": []}')).toBeNull();
+    expect(
+      parseClipboard(
+        JSON.stringify({ format: FLOW_CLIPBOARD_FORMAT, nodes: "x" }),
+      ),
+    ).toBeNull();
+  });
+
+  it("rejects selections with malformed nodes or connections", () => {
+    const data = copySelection(nodes, connections, ["a", "b"]);
+    const payload = (changes: object) =>
+      JSON.stringify({ ...data, ...changes });
+
+    expect(
+      parseClipboard(payload({ nodes: [...data.nodes, { id: "x" }] })),
+    ).toBeNull();
+    expect(
+      parseClipboard(payload({ nodes: [data.nodes[0], data.nodes[0]] })),
+    ).toBeNull();
+    const { target_port: _port, ...withoutPort } = data.connections[0];
+    expect(parseClipboard(payload({ connections: [withoutPort] }))).toBeNull();
+    expect(parseClipboard(payload({ connections: [null] }))).toBeNull();
+  });
+});
+
+describe("pasteSelection", () => {
+  it("gives pasted nodes new ids and names and rewires connections", () => {
+    const data = copySelection(nodes, connections, ["a", "b"]);
+    const pasted = pasteSelection(data, nodes);
+
+    expect(pasted.nodes.map((n) => [n.id, n.name])).toEqual([
+      ["a-copy", "a-name-copy"],
+      ["b-copy", "b-name-copy"],
+    ]);
+    expect(pasted.connections).toEqual([
+      expect.objectContaining({
+        id: "conn_a-copy_out_b-copy_in",
+        source_node_id: "a-copy",
+        target_node_id: "b-copy",
+        source: "manual",
+      }),
+    ]);
+  });
+
+  it("keeps ids and names when pasting into a flow without them", () => {
+    const data = copySelection(nodes, connections, ["a"]);
+    const pasted = pasteSelection(data, []);
+
+    expect(pasted.nodes[0]).toMatchObject({ id: "a", name: "a-name" });
+  });
+
+  it("offsets placed nodes past any copy already at the same spot", () => {
+    const data = copySelection(nodes, connections, ["a"]);
+    const first = pasteSelection(data, nodes);
+    const second = pasteSelection(data, [...nodes, ...first.nodes]);
+
+    expect(first.nodes[0].position).toEqual({ x: 140, y: 140, placed: true });
+    expect(second.nodes[0].position).toEqual({
+      x: 180,
+      y: 180,
+      placed: true,
+    });
+    expect(second.nodes[0].id).toBe("a-copy-2");
+  });
+
+  it("leaves unplaced nodes to the automatic layout", () => {
+    const data = copySelection([node("a", 0, 0)], [], ["a"]);
+
+    expect(pasteSelection(data, nodes).nodes[0].position).toEqual({
+      x: 0,
+      y: 0,
+    });
+  });
+
+  it("keeps a node placed at the origin where it is", () => {
+    const origin = { ...node("a"), position: { x: 0, y: 0, placed: true } };
+    const data = copySelection([origin], [], ["a"]);
+
+    expect(pasteSelection(data, []).nodes[0].position).toEqual({
+      x: 40,
+      y: 40,
+      placed: true,
+    });
+  });
+});
+
+describe("uniqueCopyName", () => {
+  it("counts up past taken copies", () => {
+    const taken = new Set(["parser", "parser-copy", "parser-copy-2"]);
+
+    expect(uniqueCopyName("parser", taken)).toBe("parser-copy-3");
+    expect(uniqueCopyName("store", taken)).toBe("store");
+  });
+});
@@ -0,0 +1,192 @@
+// Flow clipboard
+// Copies a selection of nodes (with the connections between them) as JSON so
+// it can be pasted into another flow, another tab, or shared in chat
+
+import type { FlowConnection, FlowNode } from "$lib/types/flow";
+import { hasSavedPosition } from "$lib/utils/d3-layout";
+import {
+  FlowImportError,
+  parseFlowConnection,
+  parseFlowNode,
+} from "./flowImport";
+
+export const FLOW_CLIPBOARD_FORMAT = "semstreams.flow-selection";
+
+/** Clipboard contents for a copied selection */
+export interface FlowClipboardData {
+  format: typeof FLOW_CLIPBOARD_FORMAT;
+  version: 1;
+  nodes: FlowNode[];
+  connections: FlowConnection[];
+}
+
+/** Nodes and connections ready to add to the target flow */
+export interface PastedSelection {
+  nodes: FlowNode[];
+  connections: FlowConnection[];
+}
+
+/** Distance a paste is shifted per step until it stops covering existing nodes */
+export const PASTE_OFFSET = 40;
+
+/**
+ * Build clipboard data for the selected nodes. Only connections with both
+ * ends inside the selection are kept; auto-discovered connections are left
+ * out because validation rediscovers them after the paste. The result is a
+ * detached JSON copy, so editing the source flow later does not change it.
+ */
+export function copySelection(
+  nodes: FlowNode[],
+  connections: FlowConnection[],
+  selectedIds: Iterable<string>,
+): FlowClipboardData {
+  const ids = new Set(selectedIds);
+  const data: FlowClipboardData = {
+    format: FLOW_CLIPBOARD_FORMAT,
+    version: 1,
+    nodes: nodes.filter((node) => ids.has(node.id)),
+    connections: connections
+      .filter(
+        (connection) =>
+          connection.source !== "auto" &&
+          ids.has(connection.source_node_id) &&
+          ids.has(connection.target_node_id),
+      )
+      // Validation state is UI-only
+      .map(
+        ({
+          validationState: _state,
+          validationMessage: _message,
+          ...connection
+        }) => connection,
+      ),
+  };
+  return JSON.parse(JSON.stringify(data));
+}
+
+export function serializeClipboard(data: FlowClipboardData): string {
+  return JSON.stringify(data, null, 2);
+}
+
+/** Read clipboard text; anything that is not a copied selection yields null */
+export function parseClipboard(text: string): FlowClipboardData | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const clipboard = data as Partial<FlowClipboardData> | null;
+  if (
+    !clipboard ||
+    typeof clipboard !== "object" ||
+    clipboard.format !== FLOW_CLIPBOARD_FORMAT ||
+    !Array.isArray(clipboard.nodes) ||
+    !Array.isArray(clipboard.connections)
+  ) {
+    return null;
+  }
+
+  // Nodes and connections get the same checks as an imported flow file
+  let nodes: FlowNode[];
+  let connections: FlowConnection[];
+  try {
+    nodes = clipboard.nodes.map(parseFlowNode);
+    connections = clipboard.connections.map(parseFlowConnection);
+  } catch (error) {
+    if (error instanceof FlowImportError) return null;
+    throw error;
+  }
+  // Pasting maps old ids to new ones, so they have to be unique
+  if (new Set(nodes.map((node) => node.id)).size !== nodes.length) {
+    return null;
+  }
+  return { format: FLOW_CLIPBOARD_FORMAT, version: 1, nodes, connections };
+}
+
+/**
+ * Re-create copied nodes for the target flow: every node gets a new id and a
+ * name that is not taken yet, connections are rewired to the new ids, and
+ * placed nodes are offset so the copy does not sit on top of its source.
+ */
+export function pasteSelection(
+  data: FlowClipboardData,
+  existingNodes: FlowNode[],
+): PastedSelection {
+  const takenIds = new Set(existingNodes.map((node) => node.id));
+  const takenNames = new Set(existingNodes.map((node) => node.name));
+  const idMap = new Map<string, string>();
+
+  const offset = pasteOffset(data.nodes, existingNodes);
+  const nodes = data.nodes.map((node) => {
+    const id = uniqueCopyName(node.id, takenIds);
+    const name = uniqueCopyName(node.name, takenNames);
+    takenIds.add(id);
+    takenNames.add(name);
+    idMap.set(node.id, id);
+
+    return {
+      ...node,
+      id,
+      name,
+      position: hasSavedPosition(node)
+        ? {
+            x: node.position.x + offset,
+            y: node.position.y + offset,
+            placed: true,
+          }
+        : { ...node.position },
+    };
+  });
+
+  const connections = data.connections
+    .filter(
+      (connection) =>
+        idMap.has(connection.source_node_id) &&
+        idMap.has(connection.target_node_id),
+    )
+    .map((connection) => {
+      const sourceId = idMap.get(connection.source_node_id)!;
+      const targetId = idMap.get(connection.target_node_id)!;
+      return {
+        ...connection,
+        id: `conn_${sourceId}_${connection.source_port}_${targetId}_${connection.target_port}`,
+        source_node_id: sourceId,
+        target_node_id: targetId,
+        source: "manual" as const,
+      };
+    });
+
+  return { nodes, connections };
+}
+
+/** `name`, or `name-copy`, `name-copy-2`, ... whichever is free first */
+export function uniqueCopyName(name: string, taken: Set<string>): string {
+  if (!taken.has(name)) return name;
+  let candidate = `${name}-copy`;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${name}-copy-${n}`;
+  }
+  return candidate;
+}
+
+// Smallest multiple of PASTE_OFFSET that keeps placed nodes off existing ones
+function pasteOffset(pasted: FlowNode[], existing: FlowNode[]): number {
+  const placed = pasted.filter(hasSavedPosition);
+  if (placed.length === 0) return 0;
+  const occupied = new Set(
+    existing
+      .filter(hasSavedPosition)
+      .map((node) => `${node.position.x},${node.position.y}`),
+  );
+
+  let offset = PASTE_OFFSET;
+  while (
+    placed.some((node) =>
+      occupied.has(`${node.position.x + offset},${node.position.y + offset}`),
+    )
+  ) {
+    offset += PASTE_OFFSET;
+  }
+  return offset;
+}
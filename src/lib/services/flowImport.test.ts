@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest";
+import {
+  FlowImportError,
+  importableConnections,
+  parseFlowFile,
+  validateImportedFlow,
+} from "./flowImport";
+import type { ComponentType } from "$lib/types/component";
+
+const exported = {
+  id: "flow-dev-1",
+  name: "Sensor pipeline",
+  description: "UDP to graph",
+  nodes: [
+    {
+      id: "n1",
+      component: "udp",
+      type: "input",
+      name: "udp-input",
+      position: { x: 10, y: 20 },
+      config: { port: 5000 },
+    },
+    {
+      id: "n2",
+      component: "graph-processor",
+      type: "processor",
+      name: "graph",
+      position: { x: 200, y: 20 },
+      config: {},
+    },
+  ],
+  connections: [
+    {
+      id: "conn_1",
+      source_node_id: "n1",
+      source_port: "out",
+      target_node_id: "n2",
+      target_port: "in",
+    },
+  ],
+};
+
+const componentTypes = [
+  {
+    id: "udp",
+    name: "UDP input",
+    schema: {
+      type: "object",
+      properties: {
+        port: { type: "int", description: "Listen port", minimum: 1024 },
+        bind: { type: "string", description: "Bind address" },
+      },
+      required: ["bind"],
+    },
+  },
+] as unknown as ComponentType[];
+
+describe("parseFlowFile", () => {
+  it("reads the editor's JSON export", () => {
+    const flow = parseFlowFile(JSON.stringify(exported), "pipeline.json");
+
+    expect(flow).toMatchObject({
+      sourceId: "flow-dev-1",
+      name: "Sensor pipeline",
+      description: "UDP to graph",
+    });
+    expect(flow.nodes[0]).toEqual(exported.nodes[0]);
+    expect(flow.connections).toHaveLength(1);
+  });
+
+  it("reads the YAML equivalent", () => {
+    const yaml = [
+      "name: Sensor pipeline",
+      "nodes:",
+      "  - id: n1",
+      "    component: udp",
+      "    name: udp-input",
+      "    config:",
+      "      port: 5000",
+    ].join("\n");
+
+    const flow = parseFlowFile(yaml, "pipeline.yaml");
+
+    expect(flow.nodes).toEqual([
+      {
+        id: "n1",
+        component: "udp",
+        type: "processor",
+        name: "udp-input",
+        position: { x: 0, y: 0, placed: false },
+        config: { port: 5000 },
+      },
+    ]);
+    expect(flow.connections).toEqual([]);
+  });
+
+  it("rejects files that are not flow definitions", () => {
+    expect(() => parseFlowFile("{not json", "flow.json")).toThrow(
+      FlowImportError,
+    );
+    expect(() => parseFlowFile('{"nodes": []}')).toThrow(
+      'Flow is missing a "name"',
+    );
+    expect(() =>
+      parseFlowFile('{"name": "x", "nodes": [{"id": "n1"}]}'),
+    ).toThrow('Node 1 needs a string "id" and "component"');
+  });
+
+  it("rejects connections without both ports", () => {
+    const { source_port: _port, ...withoutPort } = exported.connections[0];
+    const file = (connection: unknown) =>
+      JSON.stringify({ ...exported, connections: [connection] });
+
+    expect(() => parseFlowFile(file(withoutPort))).toThrow(
+      'Connection 1 needs "source_port"',
+    );
+    expect(() =>
+      parseFlowFile(file({ ...withoutPort, target_port: "" })),
+    ).toThrow('Connection 1 needs "source_port", "target_port"');
+    expect(() => parseFlowFile(file("n1->n2"))).toThrow(FlowImportError);
+    expect(() =>
+      parseFlowFile(file({ ...exported.connections[0], id: 7 })),
+    ).toThrow('Connection 1 has a non-string "id"');
+  });
+
+  it("names connections that have no id and drops UI state", () => {
+    const { id: _id, ...withoutId } = exported.connections[0];
+    const flow = parseFlowFile(
+      JSON.stringify({
+        ...exported,
+        connections: [{ ...withoutId, validationState: "error" }],
+      }),
+    );
+
+    expect(flow.connections).toEqual([
+      { id: "conn_n1_out_n2_in", ...withoutId },
+    ]);
+  });
+});
+
+describe("validateImportedFlow", () => {
+  it("flags unknown components and configs that fail their schema", () => {
+    const flow = parseFlowFile(
+      JSON.stringify({
+        ...exported,
+        nodes: [
+          { ...exported.nodes[0], config: { port: 80 } },
+          exported.nodes[1],
+        ],
+      }),
+    );
+
+    const result = validateImportedFlow(flow, componentTypes);
+
+    expect(result.validation_status).toBe("errors");
+    expect(result.errors.map((error) => [error.type, error.message])).toEqual([
+      ["invalid_config", "port: Must be >= 1024"],
+      ["invalid_config", "bind: This field is required"],
+      [
+        "unknown_component",
+        'Component "graph-processor" is not available in this environment',
+      ],
+    ]);
+    expect(result.nodes.map((node) => node.name)).toEqual([
+      "udp-input",
+      "graph",
+    ]);
+  });
+
+  it("warns about and drops connections to nodes outside the file", () => {
+    const flow = parseFlowFile(
+      JSON.stringify({
+        name: "Partial",
+        nodes: [{ ...exported.nodes[0], config: { bind: "0.0.0.0" } }],
+        connections: exported.connections,
+      }),
+    );
+
+    const result = validateImportedFlow(flow, componentTypes);
+
+    expect(result.validation_status).toBe("warnings");
+    expect(result.warnings[0].message).toContain('unknown node "n2"');
+    expect(importableConnections(flow)).toEqual([]);
+  });
+});
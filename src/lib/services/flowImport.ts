@@ -0,0 +1,266 @@
+// Flow import
+// Parses flows exported from the editor (JSON, or the YAML equivalent) and
+// checks them against the component registry before they are saved
+
+import { parse as parseYaml } from "yaml";
+import type { ComponentType } from "$lib/types/component";
+import type { FlowConnection, FlowNode, Position } from "$lib/types/flow";
+import type { ConfigSchema } from "$lib/types/schema";
+import type {
+  ValidationIssue,
+  ValidationResult,
+  ValidationStatus,
+} from "$lib/types/port";
+import { validateConfig } from "$lib/validation/schema-validator";
+
+/** Flow definition read from an export file */
+export interface ImportedFlow {
+  /** ID in the environment the flow was exported from */
+  sourceId?: string;
+  name: string;
+  description?: string;
+  nodes: FlowNode[];
+  connections: FlowConnection[];
+}
+
+export class FlowImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FlowImportError";
+  }
+}
+
+type RawRecord = Record<string, unknown>;
+
+/**
+ * Parse an exported flow file. YAML is chosen by extension; anything else is
+ * read as JSON first, falling back to YAML (a superset of JSON).
+ */
+export function parseFlowFile(text: string, fileName = ""): ImportedFlow {
+  const isYaml = /\.ya?ml$/i.test(fileName);
+
+  let data: unknown;
+  try {
+    data = isYaml ? parseYaml(text) : JSON.parse(text);
+  } catch (jsonError) {
+    if (isYaml) {
+      throw new FlowImportError(`Invalid YAML: ${errorMessage(jsonError)}`);
+    }
+    try {
+      data = parseYaml(text);
+    } catch {
+      throw new FlowImportError(`Invalid JSON: ${errorMessage(jsonError)}`);
+    }
+  }
+
+  return normalizeImportedFlow(data);
+}
+
+function normalizeImportedFlow(data: unknown): ImportedFlow {
+  if (!isRecord(data)) {
+    throw new FlowImportError("File does not contain a flow definition");
+  }
+  if (typeof data.name !== "string" || !data.name.trim()) {
+    throw new FlowImportError('Flow is missing a "name"');
+  }
+  if (!Array.isArray(data.nodes)) {
+    throw new FlowImportError('Flow is missing a "nodes" list');
+  }
+  if (data.connections != null && !Array.isArray(data.connections)) {
+    throw new FlowImportError('"connections" must be a list');
+  }
+
+  const nodes = data.nodes.map(parseFlowNode);
+  const connections = ((data.connections as unknown[] | undefined) ?? []).map(
+    parseFlowConnection,
+  );
+
+  return {
+    sourceId: typeof data.id === "string" ? data.id : undefined,
+    name: data.name.trim(),
+    description:
+      typeof data.description === "string" ? data.description : undefined,
+    nodes,
+    connections,
+  };
+}
+
+/**
+ * Read one node of a flow file or clipboard payload. Only "id" and
+ * "component" are required; the rest falls back to editor defaults.
+ */
+export function parseFlowNode(value: unknown, index: number): FlowNode {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== "string" ||
+    typeof value.component !== "string"
+  ) {
+    throw new FlowImportError(
+      `Node ${index + 1} needs a string "id" and "component"`,
+    );
+  }
+  return {
+    id: value.id,
+    component: value.component,
+    type: typeof value.type === "string" ? value.type : "processor",
+    name: typeof value.name === "string" ? value.name : value.id,
+    position: parsePosition(value.position),
+    config: isRecord(value.config) ? value.config : {},
+  };
+}
+
+// A node without a usable position is left for the automatic layout
+function parsePosition(value: unknown): Position {
+  if (
+    !isRecord(value) ||
+    typeof value.x !== "number" ||
+    typeof value.y !== "number"
+  ) {
+    return { x: 0, y: 0, placed: false };
+  }
+  return {
+    x: value.x,
+    y: value.y,
+    ...(typeof value.placed === "boolean" ? { placed: value.placed } : {}),
+  };
+}
+
+/**
+ * Read one connection of a flow file or clipboard payload. Both endpoints
+ * need a node and a port; a missing "id" is generated the way the editor
+ * names connections. UI-only validation state is dropped.
+ */
+export function parseFlowConnection(
+  value: unknown,
+  index: number,
+): FlowConnection {
+  const fields = [
+    "source_node_id",
+    "source_port",
+    "target_node_id",
+    "target_port",
+  ] as const;
+  const missing = isRecord(value)
+    ? fields.filter(
+        (field) => typeof value[field] !== "string" || !value[field],
+      )
+    : fields;
+  if (!isRecord(value) || missing.length > 0) {
+    throw new FlowImportError(
+      `Connection ${index + 1} needs ${missing.map((field) => `"${field}"`).join(", ")}`,
+    );
+  }
+  if (value.id != null && typeof value.id !== "string") {
+    throw new FlowImportError(`Connection ${index + 1} has a non-string "id"`);
+  }
+
+  const sourceNodeId = value.source_node_id as string;
+  const sourcePort = value.source_port as string;
+  const targetNodeId = value.target_node_id as string;
+  const targetPort = value.target_port as string;
+  return {
+    id:
+      value.id ||
+      `conn_${sourceNodeId}_${sourcePort}_${targetNodeId}_${targetPort}`,
+    source_node_id: sourceNodeId,
+    source_port: sourcePort,
+    target_node_id: targetNodeId,
+    target_port: targetPort,
+    ...(value.source === "auto" || value.source === "manual"
+      ? { source: value.source }
+      : {}),
+  };
+}
+
+/**
+ * Check every node against the component registry: unknown components and
+ * configs that fail their component schema are errors; connections to nodes
+ * that are not in the file are warnings.
+ */
+export function validateImportedFlow(
+  flow: ImportedFlow,
+  componentTypes: ComponentType[],
+): ValidationResult {
+  const typesById = new Map(componentTypes.map((type) => [type.id, type]));
+  const nodeIds = new Set(flow.nodes.map((node) => node.id));
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+
+  for (const node of flow.nodes) {
+    const componentType = typesById.get(node.component);
+    if (!componentType) {
+      errors.push({
+        type: "unknown_component",
+        severity: "error",
+        component_name: node.id,
+        message: `Component "${node.component}" is not available in this environment`,
+        suggestions: [],
+      });
+      continue;
+    }
+
+    if (!componentType.schema) continue;
+    // Registry types are loosely typed; the schema is the same backend shape
+    const schema = componentType.schema as ConfigSchema;
+    for (const fieldError of validateConfig(node.config, schema)) {
+      errors.push({
+        type: "invalid_config",
+        severity: "error",
+        component_name: node.id,
+        message: `${fieldError.field}: ${fieldError.message}`,
+        suggestions: [],
+      });
+    }
+  }
+
+  for (const connection of flow.connections) {
+    const missing = [connection.source_node_id, connection.target_node_id].find(
+      (id) => !nodeIds.has(id),
+    );
+    if (missing) {
+      warnings.push({
+        type: "disconnected_node",
+        severity: "warning",
+        component_name: "",
+        message: `Connection references unknown node "${missing}" and will be dropped`,
+        suggestions: [],
+      });
+    }
+  }
+
+  const validationStatus: ValidationStatus =
+    errors.length > 0 ? "errors" : warnings.length > 0 ? "warnings" : "valid";
+
+  return {
+    validation_status: validationStatus,
+    errors,
+    warnings,
+    // Names only, so the modal can show node names instead of IDs
+    nodes: flow.nodes.map((node) => ({
+      id: node.id,
+      type: node.type,
+      name: node.name,
+      input_ports: [],
+      output_ports: [],
+    })),
+    discovered_connections: [],
+  };
+}
+
+/** Connections whose endpoints are both part of the imported flow */
+export function importableConnections(flow: ImportedFlow): FlowConnection[] {
+  const nodeIds = new Set(flow.nodes.map((node) => node.id));
+  return flow.connections.filter(
+    (connection) =>
+      nodeIds.has(connection.source_node_id) &&
+      nodeIds.has(connection.target_node_id),
+  );
+}
+
+function isRecord(value: unknown): value is RawRecord {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
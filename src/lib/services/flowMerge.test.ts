@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeFlowConflict,
+  defaultMergeChoices,
+  mergeFlows,
+  type FlowSnapshot,
+} from "./flowMerge";
+import type { FlowConnection, FlowNode } from "$lib/types/flow";
+
+function makeNode(
+  id: string,
+  name: string,
+  config: Record<string, unknown> = {},
+): FlowNode {
+  return {
+    id,
+    component: "test-component",
+    type: "processor",
+    name,
+    position: { x: 0, y: 0 },
+    config,
+  };
+}
+
+function makeConnection(
+  id: string,
+  sourceId = "n1",
+  targetId = "n2",
+): FlowConnection {
+  return {
+    id,
+    source_node_id: sourceId,
+    source_port: "output",
+    target_node_id: targetId,
+    target_port: "input",
+  };
+}
+
+const base: FlowSnapshot = {
+  nodes: [
+    makeNode("n1", "udp-input", { port: 5000 }),
+    makeNode("n2", "parser", { strict: false }),
+    makeNode("n3", "sink"),
+  ],
+  connections: [makeConnection("conn_1"), makeConnection("conn_2", "n2", "n3")],
+};
+
+describe("computeFlowConflict", () => {
+  it("lists only nodes where mine and theirs disagree, with who changed them", () => {
+    const mine: FlowSnapshot = {
+      nodes: [
+        makeNode("n1", "udp-input", { port: 6000 }),
+        makeNode("n2", "parser", { strict: false }),
+        makeNode("n3", "sink"),
+        makeNode("n4", "mine-only"),
+      ],
+      connections: base.connections,
+    };
+    const theirs: FlowSnapshot = {
+      nodes: [
+        makeNode("n1", "udp-input", { port: 7000 }),
+        makeNode("n2", "parser", { strict: true }),
+        // Moving a node is layout only
+        { ...makeNode("n3", "sink"), position: { x: 50, y: 50 } },
+      ],
+      connections: [makeConnection("conn_1")],
+    };
+
+    const conflict = computeFlowConflict(base, mine, theirs);
+
+    expect(conflict.nodes.map((node) => [node.id, node.origin])).toEqual([
+      ["n1", "both"],
+      ["n2", "theirs"],
+      ["n4", "mine"],
+    ]);
+    expect(conflict.nodes[0]).toMatchObject({
+      mineConfigChanges: ["port"],
+      theirsConfigChanges: ["port"],
+    });
+    expect(conflict.mineDiff.nodesAdded).toEqual(["mine-only"]);
+    expect(conflict.theirsDiff).toMatchObject({
+      nodesModified: ["udp-input", "parser"],
+      connectionsRemoved: 1,
+    });
+    expect(defaultMergeChoices(conflict)).toEqual({
+      n1: "mine",
+      n2: "theirs",
+      n4: "mine",
+    });
+  });
+});
+
+describe("mergeFlows", () => {
+  it("applies the chosen side per node and keeps untouched nodes", () => {
+    const mine: FlowSnapshot = {
+      nodes: [
+        makeNode("n1", "udp-input", { port: 6000 }),
+        makeNode("n2", "parser", { strict: false }),
+        makeNode("n3", "sink"),
+      ],
+      connections: base.connections,
+    };
+    const theirs: FlowSnapshot = {
+      nodes: [
+        makeNode("n1", "udp-input", { port: 7000 }),
+        makeNode("n2", "parser", { strict: true }),
+        makeNode("n3", "sink"),
+      ],
+      connections: base.connections,
+    };
+
+    const merged = mergeFlows(base, mine, theirs, {
+      n1: "theirs",
+      n2: "theirs",
+    });
+
+    expect(merged.nodes.map((node) => node.config)).toEqual([
+      { port: 7000 },
+      { strict: true },
+      {},
+    ]);
+    expect(merged.connections.map((c) => c.id)).toEqual(["conn_1", "conn_2"]);
+  });
+
+  it("merges connection additions and removals from both sides", () => {
+    const mine: FlowSnapshot = {
+      nodes: base.nodes,
+      connections: [
+        makeConnection("conn_1"),
+        makeConnection("conn_2", "n2", "n3"),
+        makeConnection("conn_mine", "n1", "n3"),
+      ],
+    };
+    const theirs: FlowSnapshot = {
+      nodes: base.nodes,
+      connections: [
+        makeConnection("conn_2", "n2", "n3"),
+        makeConnection("conn_theirs", "n3", "n1"),
+      ],
+    };
+
+    const merged = mergeFlows(base, mine, theirs, {});
+
+    expect(merged.connections.map((c) => c.id)).toEqual([
+      "conn_2",
+      "conn_mine",
+      "conn_theirs",
+    ]);
+  });
+
+  it("drops a deleted node and its connections when that side is chosen", () => {
+    const mine: FlowSnapshot = {
+      nodes: base.nodes,
+      connections: base.connections,
+    };
+    const theirs: FlowSnapshot = {
+      nodes: [base.nodes[0], base.nodes[1]],
+      connections: [makeConnection("conn_1")],
+    };
+
+    const keepTheirs = mergeFlows(base, mine, theirs, { n3: "theirs" });
+    expect(keepTheirs.nodes.map((node) => node.id)).toEqual(["n1", "n2"]);
+    expect(keepTheirs.connections.map((c) => c.id)).toEqual(["conn_1"]);
+
+    const keepMine = mergeFlows(base, mine, theirs, { n3: "mine" });
+    expect(keepMine.nodes.map((node) => node.id)).toEqual(["n1", "n2", "n3"]);
+    // Their removal of conn_2 still applies; only the node is restored
+    expect(keepMine.connections.map((c) => c.id)).toEqual(["conn_1"]);
+  });
+});
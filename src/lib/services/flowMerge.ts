@@ -0,0 +1,180 @@
+import type { FlowNode, FlowConnection } from "$lib/types/flow";
+import type { FlowDiff } from "$lib/types/chat";
+import { computeFlowDiff } from "./flowDiff";
+import { diffConfig } from "./componentConfigApi";
+
+/** Which copy of a node wins when resolving a save conflict */
+export type MergeSide = "mine" | "theirs";
+
+/** Node and connection lists for one side of a three-way merge */
+export interface FlowSnapshot {
+  nodes: FlowNode[];
+  connections: FlowConnection[];
+}
+
+/** Who changed a node relative to the common base */
+export type NodeChangeOrigin = "mine" | "theirs" | "both";
+
+/** A node whose local and server copies differ */
+export interface NodeConflict {
+  id: string;
+  name: string;
+  origin: NodeChangeOrigin;
+  base?: FlowNode;
+  mine?: FlowNode;
+  theirs?: FlowNode;
+  /** Config fields each side changed relative to the base */
+  mineConfigChanges: string[];
+  theirsConfigChanges: string[];
+}
+
+/** Three-way comparison of the last loaded flow, local edits, and the server copy */
+export interface FlowConflict {
+  mineDiff: FlowDiff;
+  theirsDiff: FlowDiff;
+  nodes: NodeConflict[];
+}
+
+/**
+ * Compare both sides of a save conflict against their common base.
+ * Only nodes where the local and server copies disagree are listed.
+ */
+export function computeFlowConflict(
+  base: FlowSnapshot,
+  mine: FlowSnapshot,
+  theirs: FlowSnapshot,
+): FlowConflict {
+  const baseNodes = new Map(base.nodes.map((n) => [n.id, n]));
+  const mineNodes = new Map(mine.nodes.map((n) => [n.id, n]));
+  const theirsNodes = new Map(theirs.nodes.map((n) => [n.id, n]));
+  const ids = [
+    ...new Set([
+      ...baseNodes.keys(),
+      ...mineNodes.keys(),
+      ...theirsNodes.keys(),
+    ]),
+  ];
+
+  const nodes: NodeConflict[] = [];
+  for (const id of ids) {
+    const baseNode = baseNodes.get(id);
+    const mineNode = mineNodes.get(id);
+    const theirsNode = theirsNodes.get(id);
+    if (nodesEqual(mineNode, theirsNode)) continue;
+
+    const mineChanged = !nodesEqual(baseNode, mineNode);
+    const theirsChanged = !nodesEqual(baseNode, theirsNode);
+
+    nodes.push({
+      id,
+      name: (mineNode ?? theirsNode ?? baseNode)?.name ?? id,
+      origin:
+        mineChanged && theirsChanged ? "both" : mineChanged ? "mine" : "theirs",
+      base: baseNode,
+      mine: mineNode,
+      theirs: theirsNode,
+      mineConfigChanges: configChanges(baseNode, mineNode),
+      theirsConfigChanges: configChanges(baseNode, theirsNode),
+    });
+  }
+
+  return {
+    mineDiff: computeFlowDiff(
+      base.nodes,
+      base.connections,
+      mine.nodes,
+      mine.connections,
+    ),
+    theirsDiff: computeFlowDiff(
+      base.nodes,
+      base.connections,
+      theirs.nodes,
+      theirs.connections,
+    ),
+    nodes,
+  };
+}
+
+/** Default choice per node: the side that changed it, or mine when both did */
+export function defaultMergeChoices(
+  conflict: FlowConflict,
+): Record<string, MergeSide> {
+  return Object.fromEntries(
+    conflict.nodes.map((node) => [
+      node.id,
+      node.origin === "theirs" ? "theirs" : "mine",
+    ]),
+  );
+}
+
+/**
+ * Build the merged flow. Nodes that differ take the chosen side (which may
+ * remove them); every other node is shared by both sides. Connections are
+ * merged as a set: additions and removals from either side both apply, and
+ * connections to nodes missing from the result are dropped.
+ */
+export function mergeFlows(
+  base: FlowSnapshot,
+  mine: FlowSnapshot,
+  theirs: FlowSnapshot,
+  choices: Record<string, MergeSide>,
+): FlowSnapshot {
+  const conflict = computeFlowConflict(base, mine, theirs);
+  const contested = new Map(conflict.nodes.map((node) => [node.id, node]));
+
+  const nodes: FlowNode[] = [];
+  const seen = new Set<string>();
+  // Keep local ordering first so the canvas layout stays familiar
+  for (const node of [...mine.nodes, ...theirs.nodes]) {
+    if (seen.has(node.id)) continue;
+    seen.add(node.id);
+
+    const entry = contested.get(node.id);
+    const chosen = entry
+      ? (choices[node.id] ?? "mine") === "mine"
+        ? entry.mine
+        : entry.theirs
+      : node;
+    if (chosen) nodes.push(chosen);
+  }
+
+  const nodeIds = new Set(nodes.map((n) => n.id));
+  const baseConnIds = new Set(base.connections.map((c) => c.id));
+  const mineConnIds = new Set(mine.connections.map((c) => c.id));
+  const theirsConnIds = new Set(theirs.connections.map((c) => c.id));
+
+  const connections: FlowConnection[] = [];
+  const seenConnections = new Set<string>();
+  for (const connection of [...mine.connections, ...theirs.connections]) {
+    if (seenConnections.has(connection.id)) continue;
+    seenConnections.add(connection.id);
+
+    // A connection from the base that either side removed stays removed
+    const removed =
+      baseConnIds.has(connection.id) &&
+      (!mineConnIds.has(connection.id) || !theirsConnIds.has(connection.id));
+    const attached =
+      nodeIds.has(connection.source_node_id) &&
+      nodeIds.has(connection.target_node_id);
+    if (!removed && attached) connections.push(connection);
+  }
+
+  return { nodes, connections };
+}
+
+// Position is layout, not content, so moving a node is not a conflict
+function nodesEqual(left?: FlowNode, right?: FlowNode): boolean {
+  if (!left || !right) return left === right;
+  return (
+    left.name === right.name &&
+    left.component === right.component &&
+    JSON.stringify(left.config) === JSON.stringify(right.config)
+  );
+}
+
+function configChanges(base?: FlowNode, side?: FlowNode): string[] {
+  if (!base || !side) return [];
+  return diffConfig(base.config ?? {}, side.config ?? {}).map(
+    (entry) => entry.path,
+  );
+}
@@ -0,0 +1,264 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createTemplate,
+  createTemplateLibrary,
+  FlowTemplateError,
+  findParameterCandidates,
+  instantiateTemplate,
+  parseTemplateFile,
+  serializeTemplate,
+  templateParameterSchema,
+  type FlowTemplate,
+} from "./flowTemplates";
+import type { FlowConnection, FlowNode } from "$lib/types/flow";
+
+function node(
+  id: string,
+  config: Record<string, unknown>,
+  x = 100,
+  y = 100,
+): FlowNode {
+  return {
+    id,
+    component: "json-transform",
+    type: "processor",
+    name: id,
+    position: { x, y },
+    config,
+  };
+}
+
+const nodes = [
+  node("reader", { subject: "sensors.raw", port: 7000, enabled: true }),
+  node("writer", { bucket: "sensor-data", ttl: { hours: 24 } }, 400),
+];
+const connections: FlowConnection[] = [
+  {
+    id: "conn_reader_out_writer_in",
+    source_node_id: "reader",
+    source_port: "out",
+    target_node_id: "writer",
+    target_port: "in",
+    source: "manual",
+  },
+];
+
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+}
+
+function sensorTemplate(): FlowTemplate {
+  return createTemplate({
+    name: " Sensor pipeline ",
+    description: "Reads and stores sensor data",
+    nodes,
+    connections,
+    bindings: [
+      { nodeId: "reader", path: "subject", parameter: "subject" },
+      { nodeId: "reader", path: "port", parameter: "port" },
+      { nodeId: "writer", path: "bucket", parameter: "bucket" },
+    ],
+  });
+}
+
+describe("findParameterCandidates", () => {
+  it("lists scalar config values with suggested names", () => {
+    const candidates = findParameterCandidates([
+      node("writer", { bucketName: "data", ttl: { hours: 24 }, note: " " }),
+    ]);
+
+    expect(candidates).toEqual([
+      {
+        nodeId: "writer",
+        nodeName: "writer",
+        path: "bucketName",
+        value: "data",
+        suggestedName: "bucket_name",
+      },
+      {
+        nodeId: "writer",
+        nodeName: "writer",
+        path: "ttl.hours",
+        value: 24,
+        suggestedName: "hours",
+      },
+    ]);
+  });
+});
+
+describe("createTemplate", () => {
+  it("replaces bound values with placeholders and records typed parameters", () => {
+    const template = sensorTemplate();
+
+    expect(template.name).toBe("Sensor pipeline");
+    expect(template.nodes[0].config).toEqual({
+      subject: "{{subject}}",
+      port: "{{port}}",
+      enabled: true,
+    });
+    expect(template.nodes[1].config.bucket).toBe("{{bucket}}");
+    expect(template.parameters).toEqual([
+      {
+        name: "subject",
+        type: "string",
+        description: "reader › subject",
+        default: "sensors.raw",
+      },
+      {
+        name: "port",
+        type: "int",
+        description: "reader › port",
+        default: 7000,
+      },
+      {
+        name: "bucket",
+        type: "string",
+        description: "writer › bucket",
+        default: "sensor-data",
+      },
+    ]);
+    expect(template.connections).toHaveLength(1);
+    // The source nodes are untouched
+    expect(nodes[0].config.subject).toBe("sensors.raw");
+  });
+
+  it("picks up placeholders typed into config values", () => {
+    const template = createTemplate({
+      name: "Prefixed",
+      nodes: [node("reader", { subject: "{{prefix}}.raw" })],
+      connections: [],
+    });
+
+    expect(template.parameters).toEqual([
+      { name: "prefix", type: "string", description: "prefix" },
+    ]);
+  });
+});
+
+describe("templateParameterSchema", () => {
+  it("asks for every parameter with its default", () => {
+    const schema = templateParameterSchema(sensorTemplate());
+
+    expect(schema.required).toEqual(["subject", "port", "bucket"]);
+    expect(schema.properties.port).toEqual({
+      type: "int",
+      description: "reader › port",
+      default: 7000,
+      category: "basic",
+    });
+  });
+});
+
+describe("instantiateTemplate", () => {
+  it("fills in parameters, keeping the type of whole-value placeholders", () => {
+    const template = createTemplate({
+      name: "Prefixed",
+      nodes: [node("reader", { subject: "{{prefix}}.raw", port: "{{port}}" })],
+      connections: [],
+    });
+
+    const result = instantiateTemplate(template, {
+      prefix: "plant-a",
+      port: 9000,
+    });
+
+    expect(result.nodes[0].config).toEqual({
+      subject: "plant-a.raw",
+      port: 9000,
+    });
+  });
+
+  it("gives nodes free ids and rewires connections", () => {
+    const result = instantiateTemplate(
+      sensorTemplate(),
+      { subject: "a", port: 1, bucket: "b" },
+      nodes,
+    );
+
+    expect(result.nodes.map((n) => n.id)).toEqual([
+      "reader-copy",
+      "writer-copy",
+    ]);
+    expect(result.connections[0]).toMatchObject({
+      source_node_id: "reader-copy",
+      target_node_id: "writer-copy",
+      source: "manual",
+    });
+  });
+});
+
+describe("createTemplateLibrary", () => {
+  it("stores templates sorted by name and removes them by id", () => {
+    const library = createTemplateLibrary(memoryStorage());
+    const first = { ...sensorTemplate(), id: "t1", name: "Zeta" };
+    const second = { ...sensorTemplate(), id: "t2", name: "Alpha" };
+
+    library.save(first);
+    expect(library.save(second).map((t) => t.id)).toEqual(["t2", "t1"]);
+    expect(library.remove("t2").map((t) => t.id)).toEqual(["t1"]);
+    expect(library.list().map((t) => t.id)).toEqual(["t1"]);
+  });
+
+  it("keeps working when storage is unreadable", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const library = createTemplateLibrary({
+      getItem: () => "not json",
+      setItem: () => {},
+    });
+
+    expect(library.list()).toEqual([]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe("template files", () => {
+  it("round-trips through serializeTemplate", () => {
+    const template = sensorTemplate();
+
+    expect(parseTemplateFile(serializeTemplate(template))).toEqual(template);
+  });
+
+  it("rejects files that are not templates", () => {
+    expect(() => parseTemplateFile("{")).toThrow(FlowTemplateError);
+    expect(() => parseTemplateFile('{"nodes": []}')).toThrow(
+      "File is not a flow template",
+    );
+    expect(() =>
+      parseTemplateFile(
+        JSON.stringify({
+          format: "semstreams.flow-template",
+          template: { name: "Empty", nodes: [] },
+        }),
+      ),
+    ).toThrow("Template has no nodes");
+  });
+
+  it("rejects malformed nodes, connections and parameters", () => {
+    const template = sensorTemplate();
+    const file = (changes: object) =>
+      serializeTemplate({ ...template, ...changes } as FlowTemplate);
+
+    expect(() => parseTemplateFile(file({ nodes: [null] }))).toThrow(
+      new FlowTemplateError('Node 1 needs a string "id" and "component"'),
+    );
+    expect(() => parseTemplateFile(file({ nodes: [{ id: 1 }] }))).toThrow(
+      FlowTemplateError,
+    );
+    expect(() =>
+      parseTemplateFile(
+        file({ connections: [{ source_node_id: "a", target_node_id: "b" }] }),
+      ),
+    ).toThrow('Connection 1 needs "source_port", "target_port"');
+    expect(() =>
+      parseTemplateFile(file({ parameters: [{ name: "port", type: "date" }] })),
+    ).toThrow('Parameter 1 needs a "name" and a "type"');
+    expect(() =>
+      parseTemplateFile(file({ parameters: [{ type: "int" }] })),
+    ).toThrow(FlowTemplateError);
+  });
+});
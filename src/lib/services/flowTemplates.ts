@@ -0,0 +1,421 @@
+// Flow templates
+// Reusable groups of nodes whose config values may contain {{parameter}}
+// placeholders. Templates live in localStorage and can be shared as files.
+
+import type { FlowConnection, FlowNode } from "$lib/types/flow";
+import type { ConfigSchema, PropertySchema } from "$lib/types/schema";
+import type { ConfigValue } from "$lib/types/config";
+import { copySelection, pasteSelection } from "./flowClipboard";
+import {
+  FlowImportError,
+  parseFlowConnection,
+  parseFlowNode,
+} from "./flowImport";
+
+export const FLOW_TEMPLATE_FORMAT = "semstreams.flow-template";
+
+const STORAGE_KEY = "semstreams-flow-templates";
+
+/** Matches {{ name }} placeholders */
+const PLACEHOLDER = /\{\{\s*([a-zA-Z_][\w-]*)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([a-zA-Z_][\w-]*)\s*\}\}$/;
+const PARAMETER_NAME = /^[a-zA-Z_][\w-]*$/;
+
+const PARAMETER_TYPES = ["string", "int", "float", "bool"] as const;
+
+export type TemplateParameterType = (typeof PARAMETER_TYPES)[number];
+
+/** A value asked for when the template is used */
+export interface TemplateParameter {
+  name: string;
+  type: TemplateParameterType;
+  description: string;
+  default?: string | number | boolean;
+}
+
+export interface FlowTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  parameters: TemplateParameter[];
+  nodes: FlowNode[];
+  connections: FlowConnection[];
+  /** ISO 8601 */
+  createdAt: string;
+}
+
+/** A config value in the nodes being saved that can become a parameter */
+export interface ParameterCandidate {
+  nodeId: string;
+  nodeName: string;
+  /** Dot path inside the node config */
+  path: string;
+  value: string | number | boolean;
+  /** Suggested parameter name, derived from the config key */
+  suggestedName: string;
+}
+
+/** Replace the value at `path` in `nodeId`'s config with {{parameter}} */
+export interface ParameterBinding {
+  nodeId: string;
+  path: string;
+  parameter: string;
+}
+
+export class FlowTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FlowTemplateError";
+  }
+}
+
+type TemplateStorage = Pick<Storage, "getItem" | "setItem">;
+
+function browserStorage(): TemplateStorage | null {
+  return typeof window === "undefined" ? null : window.localStorage;
+}
+
+/** Scalar config values in the given nodes, in node order */
+export function findParameterCandidates(
+  nodes: FlowNode[],
+): ParameterCandidate[] {
+  const candidates: ParameterCandidate[] = [];
+  const visit = (node: FlowNode, value: unknown, path: string[]) => {
+    if (
+      typeof value === "string" ||
+      typeof value === "number" ||
+      typeof value === "boolean"
+    ) {
+      if (typeof value === "string" && !value.trim()) return;
+      candidates.push({
+        nodeId: node.id,
+        nodeName: node.name,
+        path: path.join("."),
+        value,
+        suggestedName: toParameterName(path[path.length - 1] ?? "value"),
+      });
+    } else if (value && typeof value === "object") {
+      for (const [key, child] of Object.entries(value)) {
+        visit(node, child, [...path, key]);
+      }
+    }
+  };
+  for (const node of nodes) visit(node, node.config ?? {}, []);
+  return candidates;
+}
+
+/**
+ * Build a template from nodes (a selection or a whole flow). Bound values are
+ * replaced by placeholders and become parameters defaulting to the original
+ * value; placeholders already typed into config values are picked up too.
+ */
+export function createTemplate(input: {
+  name: string;
+  description?: string;
+  nodes: FlowNode[];
+  connections: FlowConnection[];
+  bindings?: ParameterBinding[];
+}): FlowTemplate {
+  const copied = copySelection(
+    input.nodes,
+    input.connections,
+    input.nodes.map((node) => node.id),
+  );
+  const parameters = new Map<string, TemplateParameter>();
+
+  for (const binding of input.bindings ?? []) {
+    const node = copied.nodes.find((n) => n.id === binding.nodeId);
+    if (!node) continue;
+    const keys = binding.path.split(".");
+    const parent = keys
+      .slice(0, -1)
+      .reduce<unknown>(
+        (target, key) => (target as Record<string, unknown> | undefined)?.[key],
+        node.config,
+      ) as Record<string, unknown> | undefined;
+    const key = keys[keys.length - 1];
+    const value = parent?.[key];
+    if (
+      parent === undefined ||
+      !(
+        typeof value === "string" ||
+        typeof value === "number" ||
+        typeof value === "boolean"
+      )
+    ) {
+      continue;
+    }
+
+    parent[key] = `{{${binding.parameter}}}`;
+    if (!parameters.has(binding.parameter)) {
+      parameters.set(binding.parameter, {
+        name: binding.parameter,
+        type: parameterType(value),
+        description: `${node.name} › ${binding.path}`,
+        default: value,
+      });
+    }
+  }
+
+  for (const name of findPlaceholders(copied.nodes)) {
+    if (!parameters.has(name)) {
+      parameters.set(name, { name, type: "string", description: name });
+    }
+  }
+
+  return {
+    id: `tpl_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+    name: input.name.trim(),
+    description: input.description?.trim() || undefined,
+    parameters: [...parameters.values()],
+    nodes: copied.nodes,
+    connections: copied.connections,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/** Placeholder names used in node names and config values */
+export function findPlaceholders(nodes: FlowNode[]): string[] {
+  const names = new Set<string>();
+  const visit = (value: unknown) => {
+    if (typeof value === "string") {
+      for (const match of value.matchAll(PLACEHOLDER)) names.add(match[1]);
+    } else if (value && typeof value === "object") {
+      Object.values(value).forEach(visit);
+    }
+  };
+  for (const node of nodes) {
+    visit(node.name);
+    visit(node.config);
+  }
+  return [...names];
+}
+
+/** Form schema asking for the template's parameters */
+export function templateParameterSchema(template: FlowTemplate): ConfigSchema {
+  const properties: Record<string, PropertySchema> = {};
+  for (const parameter of template.parameters) {
+    properties[parameter.name] = {
+      type: parameter.type,
+      description: parameter.description,
+      default: parameter.default,
+      category: "basic",
+    };
+  }
+  return {
+    properties,
+    required: template.parameters.map((parameter) => parameter.name),
+  };
+}
+
+/**
+ * Stamp out a template: fill in parameters, then give the nodes ids and
+ * names that are free in the target flow (see pasteSelection).
+ */
+export function instantiateTemplate(
+  template: FlowTemplate,
+  values: Record<string, ConfigValue>,
+  existingNodes: FlowNode[] = [],
+): { nodes: FlowNode[]; connections: FlowConnection[] } {
+  const fill = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      const whole = value.match(WHOLE_PLACEHOLDER);
+      // A value that is only a placeholder keeps the parameter's type
+      if (whole && values[whole[1]] !== undefined) return values[whole[1]];
+      return value.replace(PLACEHOLDER, (placeholder, name: string) =>
+        values[name] === undefined ? placeholder : String(values[name]),
+      );
+    }
+    if (Array.isArray(value)) return value.map(fill);
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, child]) => [key, fill(child)]),
+      );
+    }
+    return value;
+  };
+
+  const nodes = template.nodes.map((node) => ({
+    ...node,
+    name: String(fill(node.name)),
+    config: fill(node.config) as Record<string, unknown>,
+  }));
+
+  return pasteSelection(
+    copySelection(
+      nodes,
+      template.connections,
+      nodes.map((node) => node.id),
+    ),
+    existingNodes,
+  );
+}
+
+/** Template library kept in localStorage */
+export interface FlowTemplateLibrary {
+  list(): FlowTemplate[];
+  /** Add a template, replacing one with the same id */
+  save(template: FlowTemplate): FlowTemplate[];
+  remove(templateId: string): FlowTemplate[];
+}
+
+export function createTemplateLibrary(
+  storage: TemplateStorage | null = browserStorage(),
+): FlowTemplateLibrary {
+  const read = (): FlowTemplate[] => {
+    if (!storage) return [];
+    try {
+      const stored = storage.getItem(STORAGE_KEY);
+      const parsed: unknown = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed) ? (parsed as FlowTemplate[]) : [];
+    } catch (e) {
+      console.warn("Failed to load flow templates from localStorage:", e);
+      return [];
+    }
+  };
+
+  const write = (templates: FlowTemplate[]) => {
+    if (!storage) return;
+    try {
+      storage.setItem(STORAGE_KEY, JSON.stringify(templates));
+    } catch (e) {
+      console.warn("Failed to save flow templates to localStorage:", e);
+    }
+  };
+
+  return {
+    list: read,
+
+    save(template) {
+      const templates = [
+        ...read().filter((existing) => existing.id !== template.id),
+        template,
+      ].sort((a, b) => a.name.localeCompare(b.name));
+      write(templates);
+      return templates;
+    },
+
+    remove(templateId) {
+      const templates = read().filter((existing) => existing.id !== templateId);
+      write(templates);
+      return templates;
+    },
+  };
+}
+
+/** Template file contents for sharing */
+export function serializeTemplate(template: FlowTemplate): string {
+  return JSON.stringify(
+    { format: FLOW_TEMPLATE_FORMAT, version: 1, template },
+    null,
+    2,
+  );
+}
+
+/** Read a template file written by serializeTemplate */
+export function parseTemplateFile(text: string): FlowTemplate {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new FlowTemplateError(
+      `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const file = data as { format?: unknown; template?: Partial<FlowTemplate> };
+  if (!file || file.format !== FLOW_TEMPLATE_FORMAT || !file.template) {
+    throw new FlowTemplateError("File is not a flow template");
+  }
+  const template = file.template;
+  if (typeof template.name !== "string" || !template.name.trim()) {
+    throw new FlowTemplateError('Template is missing a "name"');
+  }
+  if (!Array.isArray(template.nodes) || template.nodes.length === 0) {
+    throw new FlowTemplateError("Template has no nodes");
+  }
+  if (template.connections != null && !Array.isArray(template.connections)) {
+    throw new FlowTemplateError('"connections" must be a list');
+  }
+  if (template.parameters != null && !Array.isArray(template.parameters)) {
+    throw new FlowTemplateError('"parameters" must be a list');
+  }
+
+  // Nodes and connections get the same checks as an imported flow file
+  let nodes: FlowNode[];
+  let connections: FlowConnection[];
+  try {
+    nodes = template.nodes.map(parseFlowNode);
+    connections = (template.connections ?? []).map(parseFlowConnection);
+  } catch (error) {
+    if (error instanceof FlowImportError) {
+      throw new FlowTemplateError(error.message);
+    }
+    throw error;
+  }
+
+  return {
+    id:
+      typeof template.id === "string" && template.id
+        ? template.id
+        : `tpl_${Date.now().toString(36)}`,
+    name: template.name.trim(),
+    description:
+      typeof template.description === "string"
+        ? template.description
+        : undefined,
+    parameters: (template.parameters ?? []).map(parseParameter),
+    nodes,
+    connections,
+    createdAt: template.createdAt ?? new Date().toISOString(),
+  };
+}
+
+function parseParameter(value: unknown, index: number): TemplateParameter {
+  const parameter = value as Partial<TemplateParameter> | null;
+  if (
+    !parameter ||
+    typeof parameter !== "object" ||
+    typeof parameter.name !== "string" ||
+    !PARAMETER_NAME.test(parameter.name) ||
+    !PARAMETER_TYPES.includes(parameter.type as TemplateParameterType)
+  ) {
+    throw new FlowTemplateError(
+      `Parameter ${index + 1} needs a "name" and a "type" of ${PARAMETER_TYPES.join(", ")}`,
+    );
+  }
+  const defaultValue = parameter.default;
+  return {
+    name: parameter.name,
+    type: parameter.type as TemplateParameterType,
+    description:
+      typeof parameter.description === "string" ? parameter.description : "",
+    ...(typeof defaultValue === "string" ||
+    typeof defaultValue === "number" ||
+    typeof defaultValue === "boolean"
+      ? { default: defaultValue }
+      : {}),
+  };
+}
+
+function parameterType(
+  value: string | number | boolean,
+): TemplateParameterType {
+  if (typeof value === "boolean") return "bool";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "int" : "float";
+  }
+  return "string";
+}
+
+function toParameterName(key: string): string {
+  return (
+    key
+      .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+      .replace(/[^a-zA-Z0-9_]+/g, "_")
+      .replace(/^_+|_+$/g, "")
+      // Placeholders must start with a letter
+      .replace(/^(\d)/, "value_$1")
+      .toLowerCase() || "value"
+  );
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  createFlowVersionJournal,
+  findDeployedVersion,
+  loadJournalAuthor,
+  saveJournalAuthor,
+  type FlowVersionSnapshot,
+} from "./flowVersionJournal";
+
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  };
+}
+
+function snapshot(
+  version: number,
+  savedAt = `2026-10-0${version}T12:00:00Z`,
+): FlowVersionSnapshot {
+  return {
+    version,
+    savedAt,
+    author: "alex",
+    name: "Telemetry",
+    nodes: [],
+    connections: [],
+  };
+}
+
+describe("createFlowVersionJournal", () => {
+  it("lists recorded versions newest first per flow", () => {
+    const journal = createFlowVersionJournal(memoryStorage());
+
+    journal.record("flow-1", snapshot(1));
+    journal.record("flow-1", snapshot(3));
+    journal.record("flow-1", snapshot(2));
+    journal.record("flow-2", snapshot(7));
+
+    expect(journal.list("flow-1").map((entry) => entry.version)).toEqual([
+      3, 2, 1,
+    ]);
+    expect(journal.list("flow-2")).toHaveLength(1);
+  });
+
+  it("replaces an entry recorded again for the same version", () => {
+    const journal = createFlowVersionJournal(memoryStorage());
+
+    journal.record("flow-1", snapshot(1));
+    const entries = journal.record("flow-1", {
+      ...snapshot(1),
+      note: "Restored v0",
+    });
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].note).toBe("Restored v0");
+  });
+
+  it("drops the oldest versions past the limit", () => {
+    const journal = createFlowVersionJournal(memoryStorage(), 2);
+
+    journal.record("flow-1", snapshot(1));
+    journal.record("flow-1", snapshot(2));
+    journal.record("flow-1", snapshot(3));
+
+    expect(journal.list("flow-1").map((entry) => entry.version)).toEqual([
+      3, 2,
+    ]);
+  });
+
+  it("survives unreadable storage", () => {
+    const storage = memoryStorage();
+    storage.setItem("semstreams-flow-versions:flow-1", "{not json");
+    const journal = createFlowVersionJournal(storage);
+
+    expect(journal.list("flow-1")).toEqual([]);
+    expect(journal.record("flow-1", snapshot(1))).toHaveLength(1);
+  });
+
+  it("keeps nothing without storage", () => {
+    const journal = createFlowVersionJournal(null);
+
+    expect(journal.record("flow-1", snapshot(1))).toHaveLength(1);
+    expect(journal.list("flow-1")).toEqual([]);
+  });
+});
+
+describe("findDeployedVersion", () => {
+  const entries = [snapshot(3), snapshot(2), snapshot(1)];
+
+  it("picks the newest version saved before the deploy", () => {
+    expect(findDeployedVersion(entries, "2026-10-02T18:00:00Z")?.version).toBe(
+      2,
+    );
+  });
+
+  it("returns null without a deploy or an earlier version", () => {
+    expect(findDeployedVersion(entries, undefined)).toBeNull();
+    expect(findDeployedVersion(entries, "2026-09-01T00:00:00Z")).toBeNull();
+  });
+});
+
+describe("journal author", () => {
+  it("persists the trimmed name", () => {
+    const storage = memoryStorage();
+
+    saveJournalAuthor("  Sam  ", storage);
+
+    expect(loadJournalAuthor(storage)).toBe("Sam");
+    expect(loadJournalAuthor(memoryStorage())).toBe("");
+  });
+});
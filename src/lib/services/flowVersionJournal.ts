@@ -0,0 +1,130 @@
+// Flow version journal
+// Client-side record of every saved flow version, kept in localStorage so the
+// editor can diff any two versions and roll back to an earlier one
+
+import type { FlowConnection, FlowNode } from "$lib/types/flow";
+
+const STORAGE_PREFIX = "semstreams-flow-versions:";
+const AUTHOR_KEY = "semstreams-flow-author";
+
+/** Oldest versions are dropped past this many per flow */
+export const DEFAULT_JOURNAL_LIMIT = 50;
+
+/** Flow content as it was saved at one version */
+export interface FlowVersionSnapshot {
+  version: number;
+  /** ISO 8601 time the version was saved */
+  savedAt: string;
+  author: string;
+  name: string;
+  nodes: FlowNode[];
+  connections: FlowConnection[];
+  /** Why the version exists when it is not a plain save (e.g. a restore) */
+  note?: string;
+}
+
+export interface FlowVersionJournal {
+  /** Recorded versions of a flow, newest first */
+  list(flowId: string): FlowVersionSnapshot[];
+  /** Record a version, replacing any earlier entry for the same version */
+  record(flowId: string, snapshot: FlowVersionSnapshot): FlowVersionSnapshot[];
+  clear(flowId: string): void;
+}
+
+type JournalStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+function browserStorage(): JournalStorage | null {
+  return typeof window === "undefined" ? null : window.localStorage;
+}
+
+/**
+ * Create a journal backed by localStorage (or the given storage). Storage
+ * errors are logged and the journal keeps working for the current page.
+ */
+export function createFlowVersionJournal(
+  storage: JournalStorage | null = browserStorage(),
+  limit = DEFAULT_JOURNAL_LIMIT,
+): FlowVersionJournal {
+  const read = (flowId: string): FlowVersionSnapshot[] => {
+    if (!storage) return [];
+    try {
+      const stored = storage.getItem(STORAGE_PREFIX + flowId);
+      const parsed: unknown = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed) ? (parsed as FlowVersionSnapshot[]) : [];
+    } catch (e) {
+      console.warn("Failed to load flow versions from localStorage:", e);
+      return [];
+    }
+  };
+
+  const write = (flowId: string, entries: FlowVersionSnapshot[]) => {
+    if (!storage) return;
+    try {
+      storage.setItem(STORAGE_PREFIX + flowId, JSON.stringify(entries));
+    } catch (e) {
+      console.warn("Failed to save flow versions to localStorage:", e);
+    }
+  };
+
+  return {
+    list(flowId) {
+      return read(flowId);
+    },
+
+    record(flowId, snapshot) {
+      const entries = [
+        // Detach from live editor state before storing
+        JSON.parse(JSON.stringify(snapshot)) as FlowVersionSnapshot,
+        ...read(flowId).filter((entry) => entry.version !== snapshot.version),
+      ]
+        .sort((a, b) => b.version - a.version)
+        .slice(0, limit);
+      write(flowId, entries);
+      return entries;
+    },
+
+    clear(flowId) {
+      storage?.removeItem(STORAGE_PREFIX + flowId);
+    },
+  };
+}
+
+/**
+ * The version that was live at the last deploy: the newest version saved at
+ * or before `deployedAt`
+ */
+export function findDeployedVersion(
+  entries: FlowVersionSnapshot[],
+  deployedAt: string | undefined,
+): FlowVersionSnapshot | null {
+  if (!deployedAt) return null;
+  const deployedTime = Date.parse(deployedAt);
+  if (Number.isNaN(deployedTime)) return null;
+  return (
+    entries
+      .filter((entry) => Date.parse(entry.savedAt) <= deployedTime)
+      .sort((a, b) => b.version - a.version)[0] ?? null
+  );
+}
+
+/** Name recorded as the author of versions saved from this browser */
+export function loadJournalAuthor(
+  storage: JournalStorage | null = browserStorage(),
+): string {
+  try {
+    return storage?.getItem(AUTHOR_KEY)?.trim() || "";
+  } catch {
+    return "";
+  }
+}
+
+export function saveJournalAuthor(
+  author: string,
+  storage: JournalStorage | null = browserStorage(),
+): void {
+  try {
+    storage?.setItem(AUTHOR_KEY, author.trim());
+  } catch (e) {
+    console.warn("Failed to save author name to localStorage:", e);
+  }
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import {
+  exportGraph,
+  toEdgeCsv,
+  toGraphML,
+  toJsonLd,
+  toNodeCsv,
+  toNTriples,
+  toTurtle,
+  type GraphExportInput,
+} from "./graphExport";
+import type { GraphEntity, GraphRelationship } from "$lib/types/graph";
+import { parseEntityId } from "$lib/types/graph";
+
+const DRONE = "c360.ops.robotics.gcs.drone.001";
+const FLEET = "c360.ops.robotics.gcs.fleet.west";
+
+const membership: GraphRelationship = {
+  id: `${DRONE}:fleet.member_of:${FLEET}`,
+  sourceId: DRONE,
+  targetId: FLEET,
+  predicate: "fleet.member_of",
+  confidence: 0.8,
+  timestamp: 2000,
+};
+
+function entity(
+  id: string,
+  properties: GraphEntity["properties"] = [],
+): GraphEntity {
+  return {
+    id,
+    idParts: parseEntityId(id),
+    properties,
+    outgoing: [],
+    incoming: [],
+  };
+}
+
+const input: GraphExportInput = {
+  entities: [
+    entity(DRONE, [
+      {
+        predicate: "core.property.name",
+        object: 'Drone "One", <alpha>',
+        confidence: 0.9,
+        source: "telemetry-parser",
+        timestamp: 1000,
+      },
+      {
+        predicate: "core.property.battery",
+        object: 87.5,
+        confidence: 1,
+        source: "telemetry-parser",
+        timestamp: 1500,
+      },
+    ]),
+    entity(FLEET),
+  ],
+  relationships: [membership],
+  positions: new Map([[DRONE, { x: 1.5, y: -2 }]]),
+};
+
+describe("graphExport", () => {
+  it("writes GraphML with attribute keys, escaped values and layout", () => {
+    const graphml = toGraphML(input);
+
+    expect(graphml).toContain(
+      '<key id="x" for="node" attr.name="x" attr.type="double"/>',
+    );
+    expect(graphml).toContain(
+      'attr.name="core.property.name" attr.type="string"/>',
+    );
+    expect(graphml).toContain("Drone &quot;One&quot;, &lt;alpha&gt;</data>");
+    expect(graphml).toContain('<data key="x">1.5</data>');
+    expect(graphml).toContain(
+      `<edge id="${membership.id}" source="${DRONE}" target="${FLEET}">`,
+    );
+    expect(graphml).toContain('<data key="confidence">0.8</data>');
+    // Only positioned nodes get coordinates
+    expect(graphml.match(/<data key="x">/g)).toHaveLength(1);
+  });
+
+  it("writes JSON-LD that keeps predicate, confidence and source", () => {
+    const document = JSON.parse(toJsonLd(input));
+
+    expect(document["@context"]).toEqual({
+      "@vocab": "urn:semstreams:vocab:",
+    });
+    const [drone, fleet] = document["@graph"];
+    expect(drone).toMatchObject({
+      "@id": `urn:semstreams:entity:${DRONE}`,
+      "@type": "drone",
+      x: 1.5,
+      y: -2,
+    });
+    expect(drone.facts[0]).toEqual({
+      predicate: "core.property.name",
+      value: 'Drone "One", <alpha>',
+      confidence: 0.9,
+      source: "telemetry-parser",
+      timestamp: 1000,
+    });
+    expect(drone.relationships).toEqual([
+      {
+        predicate: "fleet.member_of",
+        target: { "@id": `urn:semstreams:entity:${FLEET}` },
+        confidence: 0.8,
+        timestamp: 2000,
+      },
+    ]);
+    expect(fleet.x).toBeUndefined();
+  });
+
+  it("writes N-Triples with reified confidence and source", () => {
+    const lines = toNTriples(input).trim().split("\n");
+    const drone = `<urn:semstreams:entity:${DRONE}>`;
+
+    expect(lines).toContain(
+      `${drone} <urn:semstreams:predicate:core.property.name> "Drone \\"One\\", <alpha>" .`,
+    );
+    expect(lines).toContain(
+      `${drone} <urn:semstreams:predicate:core.property.battery> "87.5"^^<http://www.w3.org/2001/XMLSchema#double> .`,
+    );
+    expect(lines).toContain(
+      '_:s0 <urn:semstreams:vocab:source> "telemetry-parser" .',
+    );
+    expect(lines).toContain(
+      '_:s2 <urn:semstreams:vocab:confidence> "0.8"^^<http://www.w3.org/2001/XMLSchema#double> .',
+    );
+    // Every line is a complete statement
+    expect(lines.every((line) => line.endsWith(" ."))).toBe(true);
+  });
+
+  it("writes Turtle grouped by subject", () => {
+    const turtle = toTurtle(input);
+
+    expect(turtle).toContain("@prefix sem: <urn:semstreams:vocab:> .");
+    expect(turtle).toContain(
+      `<urn:semstreams:entity:${DRONE}>\n    <urn:semstreams:predicate:core.property.name> "Drone \\"One\\", <alpha>" ;\n    <urn:semstreams:predicate:core.property.battery>`,
+    );
+    expect(turtle).toContain("[] a rdf:Statement ;");
+    expect(turtle).toContain('sem:source "telemetry-parser"');
+  });
+
+  it("writes node and edge CSVs with quoting", () => {
+    const [header, droneRow, fleetRow] = toNodeCsv(input).split("\r\n");
+
+    expect(header).toBe("id,label,type,domain,x,y,properties");
+    expect(droneRow.startsWith(`${DRONE},001,drone,robotics,1.5,-2,"[`)).toBe(
+      true,
+    );
+    expect(droneRow).toContain('""source"":""telemetry-parser""');
+    expect(fleetRow).toBe(`${FLEET},west,fleet,robotics,,,[]`);
+
+    expect(toEdgeCsv(input).split("\r\n").slice(0, 2)).toEqual([
+      "id,source,target,predicate,confidence,timestamp",
+      `${membership.id},${DRONE},${FLEET},fleet.member_of,0.8,2000`,
+    ]);
+  });
+
+  it("names the files for each format", () => {
+    expect(
+      exportGraph("csv", input, "incident").map((file) => file.filename),
+    ).toEqual(["incident-nodes.csv", "incident-edges.csv"]);
+    expect(exportGraph("turtle", input)[0]).toMatchObject({
+      filename: "graph.ttl",
+      mimeType: "text/turtle",
+    });
+  });
+});
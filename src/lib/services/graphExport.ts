@@ -0,0 +1,460 @@
+// Graph export
+// Serialises the explorer's (filtered) graph for other tools: GraphML for
+// Gephi, JSON-LD, RDF as Turtle or N-Triples, and node/edge CSVs. Layout
+// coordinates are included where the format has a place for them
+
+import type {
+  GraphEntity,
+  GraphRelationship,
+  TripleProperty,
+} from "$lib/types/graph";
+
+export type GraphExportFormat =
+  | "graphml"
+  | "jsonld"
+  | "turtle"
+  | "ntriples"
+  | "csv";
+
+export const GRAPH_EXPORT_FORMATS: {
+  format: GraphExportFormat;
+  label: string;
+}[] = [
+  { format: "graphml", label: "GraphML (Gephi)" },
+  { format: "jsonld", label: "JSON-LD" },
+  { format: "turtle", label: "RDF Turtle" },
+  { format: "ntriples", label: "RDF N-Triples" },
+  { format: "csv", label: "CSV (nodes and edges)" },
+];
+
+export interface GraphExportInput {
+  entities: GraphEntity[];
+  relationships: GraphRelationship[];
+  /** Layout coordinates by entity ID */
+  positions?: Map<string, { x: number; y: number }>;
+}
+
+export interface GraphExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+// Entity IDs and predicates are not IRIs; these namespaces make them so
+export const ENTITY_NAMESPACE = "urn:semstreams:entity:";
+export const PREDICATE_NAMESPACE = "urn:semstreams:predicate:";
+export const VOCAB_NAMESPACE = "urn:semstreams:vocab:";
+
+const RDF = "http://www.w3.org/1999/02/22-rdf-syntax-ns#";
+const XSD = "http://www.w3.org/2001/XMLSchema#";
+
+/** The files for one export; CSV produces a node file and an edge file */
+export function exportGraph(
+  format: GraphExportFormat,
+  input: GraphExportInput,
+  baseName = "graph",
+): GraphExportFile[] {
+  switch (format) {
+    case "graphml":
+      return [
+        {
+          filename: `${baseName}.graphml`,
+          mimeType: "application/graphml+xml",
+          content: toGraphML(input),
+        },
+      ];
+    case "jsonld":
+      return [
+        {
+          filename: `${baseName}.jsonld`,
+          mimeType: "application/ld+json",
+          content: toJsonLd(input),
+        },
+      ];
+    case "turtle":
+      return [
+        {
+          filename: `${baseName}.ttl`,
+          mimeType: "text/turtle",
+          content: toTurtle(input),
+        },
+      ];
+    case "ntriples":
+      return [
+        {
+          filename: `${baseName}.nt`,
+          mimeType: "application/n-triples",
+          content: toNTriples(input),
+        },
+      ];
+    case "csv":
+      return [
+        {
+          filename: `${baseName}-nodes.csv`,
+          mimeType: "text/csv",
+          content: toNodeCsv(input),
+        },
+        {
+          filename: `${baseName}-edges.csv`,
+          mimeType: "text/csv",
+          content: toEdgeCsv(input),
+        },
+      ];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// GraphML
+// ---------------------------------------------------------------------------
+
+/**
+ * Node attributes are the ID parts, layout position, and one attribute per
+ * property predicate (the latest value wins). Edges keep predicate,
+ * confidence, and timestamp.
+ */
+export function toGraphML(input: GraphExportInput): string {
+  const predicates = [
+    ...new Set(
+      input.entities.flatMap((entity) =>
+        entity.properties.map((property) => property.predicate),
+      ),
+    ),
+  ].sort();
+  const propertyKeys = new Map(
+    predicates.map((predicate, index) => [predicate, `p${index}`]),
+  );
+
+  const keys = [
+    key("label", "node", "label", "string"),
+    key("type", "node", "type", "string"),
+    key("domain", "node", "domain", "string"),
+    key("x", "node", "x", "double"),
+    key("y", "node", "y", "double"),
+    ...predicates.map((predicate) =>
+      key(propertyKeys.get(predicate)!, "node", predicate, "string"),
+    ),
+    key("predicate", "edge", "predicate", "string"),
+    key("confidence", "edge", "confidence", "double"),
+    key("timestamp", "edge", "timestamp", "long"),
+  ];
+
+  const nodes = input.entities.map((entity) => {
+    const position = input.positions?.get(entity.id);
+    const data = [
+      dataElement("label", entity.idParts.instance || entity.id),
+      dataElement("type", entity.idParts.type),
+      dataElement("domain", entity.idParts.domain),
+      ...(position
+        ? [dataElement("x", position.x), dataElement("y", position.y)]
+        : []),
+      ...latestProperties(entity).map((property) =>
+        dataElement(
+          propertyKeys.get(property.predicate)!,
+          literalText(property),
+        ),
+      ),
+    ];
+    return `    <node id="${xml(entity.id)}">\n${data.join("\n")}\n    </node>`;
+  });
+
+  const edges = input.relationships.map(
+    (rel) =>
+      `    <edge id="${xml(rel.id)}" source="${xml(rel.sourceId)}" target="${xml(rel.targetId)}">\n` +
+      [
+        dataElement("predicate", rel.predicate),
+        dataElement("confidence", rel.confidence),
+        dataElement("timestamp", rel.timestamp),
+      ].join("\n") +
+      "\n    </edge>",
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...keys,
+    '  <graph id="G" edgedefault="directed">',
+    ...nodes,
+    ...edges,
+    "  </graph>",
+    "</graphml>",
+    "",
+  ].join("\n");
+}
+
+function key(id: string, target: string, name: string, type: string): string {
+  return `  <key id="${id}" for="${target}" attr.name="${xml(name)}" attr.type="${type}"/>`;
+}
+
+function dataElement(keyId: string, value: string | number): string {
+  return `      <data key="${keyId}">${xml(String(value))}</data>`;
+}
+
+function xml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Latest value per predicate
+function latestProperties(entity: GraphEntity): TripleProperty[] {
+  const latest = new Map<string, TripleProperty>();
+  for (const property of entity.properties) {
+    const current = latest.get(property.predicate);
+    if (!current || property.timestamp >= current.timestamp) {
+      latest.set(property.predicate, property);
+    }
+  }
+  return [...latest.values()];
+}
+
+// ---------------------------------------------------------------------------
+// JSON-LD
+// ---------------------------------------------------------------------------
+
+/**
+ * One node object per entity with its facts and outgoing relationships, each
+ * carrying predicate, confidence, source (facts only), and timestamp.
+ */
+export function toJsonLd(input: GraphExportInput): string {
+  const outgoing = new Map<string, GraphRelationship[]>();
+  for (const rel of input.relationships) {
+    const list = outgoing.get(rel.sourceId) ?? [];
+    list.push(rel);
+    outgoing.set(rel.sourceId, list);
+  }
+
+  const graph = input.entities.map((entity) => {
+    const position = input.positions?.get(entity.id);
+    return {
+      "@id": entityIri(entity.id),
+      "@type": entity.idParts.type,
+      entityId: entity.id,
+      label: entity.idParts.instance || entity.id,
+      domain: entity.idParts.domain,
+      ...(position ? { x: position.x, y: position.y } : {}),
+      facts: entity.properties.map((property) => ({
+        predicate: property.predicate,
+        value: property.object,
+        confidence: property.confidence,
+        source: property.source,
+        timestamp: property.timestamp,
+      })),
+      relationships: (outgoing.get(entity.id) ?? []).map((rel) => ({
+        predicate: rel.predicate,
+        target: { "@id": entityIri(rel.targetId) },
+        confidence: rel.confidence,
+        timestamp: rel.timestamp,
+      })),
+    };
+  });
+
+  return JSON.stringify(
+    { "@context": { "@vocab": VOCAB_NAMESPACE }, "@graph": graph },
+    null,
+    2,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// RDF
+// ---------------------------------------------------------------------------
+
+interface Statement {
+  subject: string;
+  predicate: string;
+  /** An IRI or a literal, already serialised */
+  object: string;
+  confidence: number;
+  source?: string;
+  timestamp: number;
+}
+
+/**
+ * Every fact as a plain triple, plus an rdf:Statement that reifies it with
+ * its confidence, source, and timestamp.
+ */
+export function toNTriples(input: GraphExportInput): string {
+  const lines: string[] = [];
+  statements(input).forEach((statement, index) => {
+    const node = `_:s${index}`;
+    lines.push(
+      `${statement.subject} ${statement.predicate} ${statement.object} .`,
+      `${node} <${RDF}type> <${RDF}Statement> .`,
+      `${node} <${RDF}subject> ${statement.subject} .`,
+      `${node} <${RDF}predicate> ${statement.predicate} .`,
+      `${node} <${RDF}object> ${statement.object} .`,
+      ...metadata(statement).map(
+        ([name, value]) => `${node} <${VOCAB_NAMESPACE}${name}> ${value} .`,
+      ),
+    );
+  });
+  return lines.join("\n") + "\n";
+}
+
+/** The same triples as N-Triples, grouped by subject and with prefixes */
+export function toTurtle(input: GraphExportInput): string {
+  const all = statements(input);
+  const bySubject = new Map<string, Statement[]>();
+  for (const statement of all) {
+    const list = bySubject.get(statement.subject) ?? [];
+    list.push(statement);
+    bySubject.set(statement.subject, list);
+  }
+
+  const blocks = [...bySubject].map(
+    ([subject, facts]) =>
+      `${subject}\n` +
+      facts.map((fact) => `    ${fact.predicate} ${fact.object}`).join(" ;\n") +
+      " .",
+  );
+  const reified = all.map(
+    (statement) =>
+      "[] a rdf:Statement ;\n" +
+      `    rdf:subject ${statement.subject} ;\n` +
+      `    rdf:predicate ${statement.predicate} ;\n` +
+      `    rdf:object ${statement.object}` +
+      metadata(statement)
+        .map(([name, value]) => ` ;\n    sem:${name} ${value}`)
+        .join("") +
+      " .",
+  );
+
+  return (
+    [
+      `@prefix rdf: <${RDF}> .`,
+      `@prefix xsd: <${XSD}> .`,
+      `@prefix sem: <${VOCAB_NAMESPACE}> .`,
+      "",
+      ...blocks,
+      "",
+      ...reified,
+    ].join("\n") + "\n"
+  );
+}
+
+function statements(input: GraphExportInput): Statement[] {
+  const result: Statement[] = [];
+  for (const entity of input.entities) {
+    for (const property of entity.properties) {
+      result.push({
+        subject: `<${entityIri(entity.id)}>`,
+        predicate: `<${predicateIri(property.predicate)}>`,
+        object: rdfLiteral(property.object),
+        confidence: property.confidence,
+        source: property.source,
+        timestamp: property.timestamp,
+      });
+    }
+  }
+  for (const rel of input.relationships) {
+    result.push({
+      subject: `<${entityIri(rel.sourceId)}>`,
+      predicate: `<${predicateIri(rel.predicate)}>`,
+      object: `<${entityIri(rel.targetId)}>`,
+      confidence: rel.confidence,
+      timestamp: rel.timestamp,
+    });
+  }
+  return result;
+}
+
+function metadata(statement: Statement): [string, string][] {
+  return [
+    ["confidence", `"${statement.confidence}"^^<${XSD}double>`],
+    ...(statement.source
+      ? [["source", rdfString(statement.source)] as [string, string]]
+      : []),
+    ["timestamp", `"${statement.timestamp}"^^<${XSD}long>`],
+  ];
+}
+
+function entityIri(id: string): string {
+  return ENTITY_NAMESPACE + encodeURIComponent(id);
+}
+
+function predicateIri(predicate: string): string {
+  return PREDICATE_NAMESPACE + encodeURIComponent(predicate);
+}
+
+function rdfLiteral(value: unknown): string {
+  if (typeof value === "boolean") return `"${value}"^^<${XSD}boolean>`;
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return Number.isInteger(value)
+      ? `"${value}"^^<${XSD}integer>`
+      : `"${value}"^^<${XSD}double>`;
+  }
+  return rdfString(typeof value === "string" ? value : JSON.stringify(value));
+}
+
+function rdfString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r");
+  return `"${escaped}"`;
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/** One row per entity; properties as a JSON column with confidence and source */
+export function toNodeCsv(input: GraphExportInput): string {
+  const rows = input.entities.map((entity) => {
+    const position = input.positions?.get(entity.id);
+    return [
+      entity.id,
+      entity.idParts.instance || entity.id,
+      entity.idParts.type,
+      entity.idParts.domain,
+      position?.x ?? "",
+      position?.y ?? "",
+      JSON.stringify(
+        entity.properties.map((property) => ({
+          predicate: property.predicate,
+          value: property.object,
+          confidence: property.confidence,
+          source: property.source,
+          timestamp: property.timestamp,
+        })),
+      ),
+    ];
+  });
+  return csv(["id", "label", "type", "domain", "x", "y", "properties"], rows);
+}
+
+export function toEdgeCsv(input: GraphExportInput): string {
+  return csv(
+    ["id", "source", "target", "predicate", "confidence", "timestamp"],
+    input.relationships.map((rel) => [
+      rel.id,
+      rel.sourceId,
+      rel.targetId,
+      rel.predicate,
+      rel.confidence,
+      rel.timestamp,
+    ]),
+  );
+}
+
+function csv(header: string[], rows: (string | number)[][]): string {
+  return (
+    [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") +
+    "\r\n"
+  );
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function literalText(property: TripleProperty): string {
+  return typeof property.object === "string"
+    ? property.object
+    : JSON.stringify(property.object);
+}
@@ -0,0 +1,223 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  childPrefixes,
+  estimateEntityBytes,
+  loadEntitiesProgressively,
+  type GraphLoadProgress,
+} from "./graphLoader";
+import type { BackendEntity } from "$lib/types/graph";
+
+function entity(id: string): BackendEntity {
+  return { id, triples: [] };
+}
+
+// Backend stand-in: sorted prefix scan over a fixed set of IDs
+function prefixScan(ids: string[]) {
+  const sorted = [...ids].sort();
+  return vi.fn(async (prefix: string, limit: number) =>
+    sorted
+      .filter((id) => id.startsWith(prefix))
+      .slice(0, limit)
+      .map(entity),
+  );
+}
+
+function ids(count: number, prefix: string) {
+  return Array.from(
+    { length: count },
+    (_, i) => `${prefix}${String(i).padStart(3, "0")}`,
+  );
+}
+
+describe("loadEntitiesProgressively", () => {
+  it("stops after one request when the first page is not full", async () => {
+    const fetchPage = prefixScan(["a.1", "b.2"]);
+    const onBatch = vi.fn();
+
+    const result = await loadEntitiesProgressively({
+      fetchPage,
+      pageSize: 10,
+      onBatch,
+    });
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(fetchPage).toHaveBeenCalledWith("", 10);
+    expect(onBatch).toHaveBeenCalledWith([entity("a.1"), entity("b.2")]);
+    expect(result).toMatchObject({ loaded: 2, status: "complete" });
+  });
+
+  it("issues the first request synchronously", () => {
+    const fetchPage = prefixScan([]);
+
+    void loadEntitiesProgressively({ fetchPage, onBatch: vi.fn() });
+
+    expect(fetchPage).toHaveBeenCalledWith("", 200);
+  });
+
+  it("splits full pages into child prefixes until every entity is loaded", async () => {
+    const all = [...ids(12, "a."), ...ids(7, "b."), ...ids(3, "c-")];
+    const fetchPage = prefixScan(all);
+    const loaded = new Set<string>();
+    const progress: GraphLoadProgress[] = [];
+
+    const result = await loadEntitiesProgressively({
+      fetchPage,
+      pageSize: 5,
+      alphabet: "abc.-0123456789",
+      onBatch: (batch) => {
+        for (const item of batch) {
+          expect(loaded.has(item.id)).toBe(false);
+          loaded.add(item.id);
+        }
+      },
+      onProgress: (update) => progress.push(update),
+    });
+
+    expect([...loaded].sort()).toEqual([...all].sort());
+    expect(result).toMatchObject({
+      loaded: all.length,
+      total: all.length,
+      pending: 0,
+      status: "complete",
+    });
+    // Characters seen in a full page are tried before the rest of the alphabet
+    expect(fetchPage.mock.calls[1][0]).toBe("a");
+    expect(progress.at(-1)?.loaded).toBe(all.length);
+    expect(progress[0]).toMatchObject({ loaded: 5, total: null, requests: 1 });
+  });
+
+  it("covers partitions missing from a page that shares one next character", async () => {
+    const all = [...ids(10, "a."), ...ids(3, "b."), "c.1"];
+    const fetchPage = prefixScan(all);
+
+    const result = await loadEntitiesProgressively({
+      fetchPage,
+      pageSize: 5,
+      onBatch: vi.fn(),
+    });
+
+    // The first page is all "a…", yet "b" and "c" are still requested
+    expect(fetchPage).toHaveBeenCalledWith("b", 5);
+    expect(result).toMatchObject({
+      loaded: all.length,
+      total: all.length,
+      status: "complete",
+    });
+  });
+
+  it("fetches an entity whose ID is exactly a full-page prefix", async () => {
+    const all = ["x", ...ids(10, "x")];
+    // Descending scan: the short ID "x" never makes a full page
+    const fetchPage = vi.fn(async (prefix: string, limit: number) =>
+      all
+        .filter((id) => id.startsWith(prefix))
+        .sort()
+        .reverse()
+        .slice(0, limit)
+        .map(entity),
+    );
+    const fetchEntity = vi.fn(async (id: string) =>
+      all.includes(id) ? entity(id) : null,
+    );
+
+    const result = await loadEntitiesProgressively({
+      fetchPage,
+      fetchEntity,
+      pageSize: 10,
+      onBatch: vi.fn(),
+    });
+
+    expect(fetchEntity).toHaveBeenCalledWith("x");
+    expect(result).toMatchObject({ loaded: 11, total: 11 });
+  });
+
+  it("splits on characters outside the alphabet but reports no total", async () => {
+    const all = [...ids(4, "a b"), ...ids(2, "a😀"), ...ids(2, "a.")];
+    const fetchPage = prefixScan(all);
+
+    const result = await loadEntitiesProgressively({
+      fetchPage,
+      pageSize: 4,
+      onBatch: vi.fn(),
+    });
+
+    expect(fetchPage).toHaveBeenCalledWith("a ", 4);
+    // "a😀" was never in a page, so IDs like it may still be missing
+    expect(result).toMatchObject({ status: "complete", total: null });
+    expect(result.loaded).toBe(6);
+  });
+
+  it("does not split pages from a backend that ignores the prefix", async () => {
+    const page = ["a0", "a1", "a2", "a3", "a4"].map(entity);
+    const fetchPage = vi.fn(async () => page);
+
+    const result = await loadEntitiesProgressively({
+      fetchPage,
+      pageSize: 5,
+      alphabet: "ab",
+      onBatch: vi.fn(),
+    });
+
+    // "" and "a" split; "b", "a0"… get pages outside their prefix and stop
+    expect(result).toMatchObject({ status: "complete", loaded: 5 });
+    expect(fetchPage).toHaveBeenCalledTimes(10);
+  });
+
+  it("caps the load at the memory budget", async () => {
+    const all = ids(40, "e.");
+    const onBatch = vi.fn();
+    const budget = estimateEntityBytes(entity(all[0])) * 8;
+
+    const result = await loadEntitiesProgressively({
+      fetchPage: prefixScan(all),
+      pageSize: 5,
+      memoryBudgetBytes: budget,
+      onBatch,
+    });
+
+    expect(result).toMatchObject({ status: "capped", total: null });
+    expect(result.loaded).toBe(8);
+    expect(onBatch.mock.calls.flat(2)).toHaveLength(8);
+  });
+
+  it("stops when aborted", async () => {
+    const controller = new AbortController();
+    const fetchPage = prefixScan(ids(30, "e."));
+    const onBatch = vi.fn();
+
+    const result = await loadEntitiesProgressively({
+      fetchPage,
+      pageSize: 5,
+      signal: controller.signal,
+      onBatch,
+      onProgress: () => controller.abort(),
+    });
+
+    expect(result).toMatchObject({ status: "stopped", loaded: 5 });
+    expect(onBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects with the first failure", async () => {
+    const failure = new Error("Query timed out");
+    const fetchPage = vi
+      .fn()
+      .mockResolvedValueOnce(ids(5, "e.").map(entity))
+      .mockRejectedValue(failure);
+
+    await expect(
+      loadEntitiesProgressively({ fetchPage, pageSize: 5, onBatch: vi.fn() }),
+    ).rejects.toBe(failure);
+  });
+});
+
+describe("childPrefixes", () => {
+  it("lists the page's next characters by frequency, then the alphabet", () => {
+    expect(
+      childPrefixes(
+        "a",
+        [entity("ab"), entity("az1"), entity("a"), entity("az2")],
+        "xyz",
+      ),
+    ).toEqual(["az", "ab", "ax", "ay"]);
+  });
+});
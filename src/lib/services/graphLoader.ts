@@ -0,0 +1,218 @@
+// Progressive graph loading
+// The graph API only pages by prefix (entitiesByPrefix has no cursor), so the
+// loader partitions the ID space: a prefix that returns a full page is split
+// into one child prefix per possible next character (the entity ID alphabet,
+// plus anything else seen in the page), and each child is fetched in turn
+// until every partition returns less than a full page.
+
+import type { BackendEntity } from "$lib/types/graph";
+
+/** Characters tried after a full page, besides the ones seen in that page */
+export const ENTITY_ID_ALPHABET =
+  ".-_:0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+export type GraphLoadStatus =
+  | "loading"
+  | "complete"
+  | "capped"
+  | "stopped"
+  | "error";
+
+export interface GraphLoadProgress {
+  /** Distinct entities loaded so far */
+  loaded: number;
+  /**
+   * Entities in the graph. The API has no count, so this is only set once
+   * every partition has been covered: null until complete, and null when IDs
+   * use characters outside the alphabet (others like them may be unseen).
+   */
+  total: number | null;
+  /** Prefixes queued or in flight */
+  pending: number;
+  requests: number;
+  /** Rough in-memory size of the loaded entities */
+  estimatedBytes: number;
+  /** "error" is never reported by the loader, which rejects instead */
+  status: GraphLoadStatus;
+}
+
+export interface ProgressiveLoadOptions {
+  fetchPage: (prefix: string, limit: number) => Promise<BackendEntity[]>;
+  /** Entities per request (default: 200) */
+  pageSize?: number;
+  /** Requests in flight at once (default: 4) */
+  concurrency?: number;
+  /** Stop with status "capped" once the estimate reaches this (default: none) */
+  memoryBudgetBytes?: number;
+  /** Characters an ID can continue with (default: ENTITY_ID_ALPHABET) */
+  alphabet?: string;
+  /**
+   * Looks up one entity by ID, null when there is none. A full page at a
+   * prefix is split into longer prefixes, so an entity whose ID is exactly
+   * that prefix is fetched on its own (default: not fetched).
+   */
+  fetchEntity?: (id: string) => Promise<BackendEntity | null>;
+  signal?: AbortSignal;
+  /** New entities from one page, never empty */
+  onBatch: (entities: BackendEntity[]) => void;
+  /** Called after every page */
+  onProgress?: (progress: GraphLoadProgress) => void;
+}
+
+/** A prefix to page through, or with `exact` an ID to look up on its own */
+interface LoadTask {
+  prefix: string;
+  exact?: boolean;
+}
+
+/**
+ * Load every entity by prefix partitioning. The first request is always for
+ * the empty prefix and is issued synchronously. Resolves with the final
+ * progress; aborting resolves at once with status "stopped". A failed request
+ * stops the load and rejects with its error.
+ */
+export async function loadEntitiesProgressively(
+  options: ProgressiveLoadOptions,
+): Promise<GraphLoadProgress> {
+  const {
+    fetchPage,
+    pageSize = 200,
+    concurrency = 4,
+    memoryBudgetBytes = Infinity,
+    alphabet = ENTITY_ID_ALPHABET,
+    fetchEntity,
+    signal,
+    onBatch,
+    onProgress,
+  } = options;
+
+  const seen = new Set<string>();
+  const queue: LoadTask[] = [{ prefix: "" }];
+  let inFlight = 0;
+  // Set once a split meets a character outside the alphabet
+  let partial = false;
+  const failures: unknown[] = [];
+  const progress: GraphLoadProgress = {
+    loaded: 0,
+    total: null,
+    pending: 1,
+    requests: 0,
+    estimatedBytes: 0,
+    status: "loading",
+  };
+
+  const load = async ({ prefix, exact }: LoadTask) => {
+    let result: BackendEntity[] | null | undefined;
+    if (exact) {
+      const entity = fetchEntity ? await fetchEntity(prefix) : null;
+      result = entity ? [entity] : [];
+    } else {
+      result = await fetchPage(prefix, pageSize);
+    }
+    progress.requests++;
+    if (signal?.aborted || progress.status !== "loading") return;
+
+    // Guard: treat null/undefined response as an empty list.
+    const page = Array.isArray(result) ? result : [];
+    const batch: BackendEntity[] = [];
+    for (const entity of page) {
+      if (seen.has(entity.id)) continue;
+      if (progress.estimatedBytes >= memoryBudgetBytes) {
+        progress.status = "capped";
+        break;
+      }
+      seen.add(entity.id);
+      batch.push(entity);
+      progress.estimatedBytes += estimateEntityBytes(entity);
+    }
+    progress.loaded = seen.size;
+    if (batch.length > 0) onBatch(batch);
+
+    // A backend that ignores the prefix would never stop returning full
+    // pages, so only split pages that honour it
+    if (
+      !exact &&
+      progress.status === "loading" &&
+      page.length >= pageSize &&
+      page.every((entity) => entity.id.startsWith(prefix))
+    ) {
+      const children = childPrefixes(prefix, page, alphabet);
+      if (children.length > alphabet.length) partial = true;
+      queue.push(...children.map((child) => ({ prefix: child })));
+      if (prefix && fetchEntity && !seen.has(prefix)) {
+        queue.push({ prefix, exact: true });
+      }
+    }
+  };
+
+  await new Promise<void>((resolve) => {
+    const pump = () => {
+      if (signal?.aborted && progress.status === "loading") {
+        progress.status = "stopped";
+      }
+      while (
+        progress.status === "loading" &&
+        failures.length === 0 &&
+        inFlight < concurrency &&
+        queue.length > 0
+      ) {
+        const task = queue.shift()!;
+        inFlight++;
+        load(task)
+          .catch((error: unknown) => {
+            failures.push(error);
+          })
+          .finally(() => {
+            inFlight--;
+            progress.pending = queue.length + inFlight;
+            if (failures.length === 0) onProgress?.({ ...progress });
+            pump();
+          });
+      }
+      // Results still in flight after an abort are dropped by load
+      if (inFlight === 0 || progress.status === "stopped") resolve();
+    };
+    signal?.addEventListener("abort", pump, { once: true });
+    pump();
+  });
+
+  if (failures.length > 0) throw failures[0];
+  if (progress.status === "loading") {
+    progress.status = "complete";
+    progress.total = partial ? null : progress.loaded;
+  }
+  progress.pending = 0;
+  onProgress?.({ ...progress });
+  return { ...progress };
+}
+
+/**
+ * Prefixes that together cover every ID longer than `prefix` whose next
+ * character is in the alphabet or in the page. Characters in the page come
+ * first, most frequent first, so the densest partitions load early.
+ */
+export function childPrefixes(
+  prefix: string,
+  page: BackendEntity[],
+  alphabet: string = ENTITY_ID_ALPHABET,
+): string[] {
+  const counts = new Map<string, number>();
+  for (const entity of page) {
+    if (entity.id.length <= prefix.length) continue;
+    // Whole code points, so a prefix never ends inside a surrogate pair
+    const char = String.fromCodePoint(entity.id.codePointAt(prefix.length)!);
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  const next = [...counts.entries()]
+    .sort(([, a], [, b]) => b - a)
+    .map(([char]) => char);
+  for (const char of alphabet) {
+    if (!counts.has(char)) next.push(char);
+  }
+  return next.map((char) => prefix + char);
+}
+
+/** UTF-16 size of the entity's JSON, a stand-in for its in-memory footprint */
+export function estimateEntityBytes(entity: BackendEntity): number {
+  return JSON.stringify(entity).length * 2;
+}
@@ -0,0 +1,181 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  InferenceApiError,
+  anomalyFocus,
+  anomalyGraph,
+  inferenceApi,
+  normalizeAnomaly,
+} from "./inferenceApi";
+
+function jsonResponse(
+  body: unknown,
+  status = 200,
+  statusText = "OK",
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText,
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+const ENTITY_A = "acme.ops.robotics.gcs.drone.001";
+const ENTITY_B = "acme.ops.robotics.gcs.drone.002";
+const ENTITY_C = "acme.ops.robotics.gcs.drone.003";
+
+const backendAnomaly = {
+  id: "anomaly-1",
+  type: "semantic_structural_gap",
+  status: "human_review",
+  confidence: 0.82,
+  detected_at: "2026-07-06T00:00:00Z",
+  entity_a: ENTITY_A,
+  entity_b: ENTITY_B,
+  evidence: { similarity: 0.91, chain_path: [ENTITY_A, ENTITY_C, ENTITY_B] },
+  suggestion: {
+    from_entity: ENTITY_A,
+    to_entity: ENTITY_B,
+    predicate: "fleet.peer.of",
+    confidence: 0.7,
+    reasoning: "High similarity without a direct link",
+  },
+  llm_reasoning: "Likely the same squadron",
+};
+
+describe("inferenceApi", () => {
+  it("lists pending anomalies with the most confident first", async () => {
+    const fetcher = vi.fn(async () =>
+      jsonResponse([
+        { ...backendAnomaly, id: "low", confidence: 0.4 },
+        { ...backendAnomaly, id: "high", confidence: 0.9 },
+      ]),
+    );
+
+    const anomalies = await inferenceApi.listPending({ fetcher });
+
+    expect(fetcher).toHaveBeenCalledWith("/inference/anomalies/pending", {
+      cache: "no-store",
+    });
+    expect(anomalies.map((anomaly) => anomaly.id)).toEqual(["high", "low"]);
+    expect(anomalies[0]).toMatchObject({
+      entityA: ENTITY_A,
+      llmReasoning: "Likely the same squadron",
+      suggestion: { fromEntity: ENTITY_A, predicate: "fleet.peer.of" },
+    });
+  });
+
+  it("posts review decisions with overrides in backend field names", async () => {
+    const fetcher = vi.fn(async () =>
+      jsonResponse({ ...backendAnomaly, status: "human_approved" }),
+    );
+
+    const reviewed = await inferenceApi.review(
+      "anomaly/1",
+      {
+        decision: "approved",
+        notes: "confirmed",
+        overridePredicate: "fleet.wingman.of",
+        targetEntity: "",
+        reviewedBy: "ops",
+      },
+      { fetcher },
+    );
+
+    expect(fetcher).toHaveBeenCalledWith(
+      "/inference/anomalies/anomaly%2F1/review",
+      {
+        cache: "no-store",
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          decision: "approved",
+          notes: "confirmed",
+          override_predicate: "fleet.wingman.of",
+          reviewed_by: "ops",
+        }),
+      },
+    );
+    expect(reviewed.status).toBe("human_approved");
+  });
+
+  it("explains reviews of anomalies that already left the queue", async () => {
+    const fetcher = vi.fn(async () => jsonResponse(null, 409, "Conflict"));
+
+    const review = inferenceApi.review(
+      "anomaly-1",
+      { decision: "rejected" },
+      { fetcher },
+    );
+
+    await expect(review).rejects.toBeInstanceOf(InferenceApiError);
+    await expect(review).rejects.toMatchObject({
+      statusCode: 409,
+      message: "Anomaly is no longer awaiting review",
+    });
+  });
+
+  it("maps stats to camelCase with zero defaults", async () => {
+    const fetcher = vi.fn(async () =>
+      jsonResponse({ total_detected: 12, pending_review: 3, applied: 4 }),
+    );
+
+    await expect(inferenceApi.fetchStats({ fetcher })).resolves.toEqual({
+      totalDetected: 12,
+      pendingReview: 3,
+      humanReview: 0,
+      humanApproved: 0,
+      humanRejected: 0,
+      llmApproved: 0,
+      llmRejected: 0,
+      applied: 4,
+    });
+  });
+});
+
+describe("anomalyFocus", () => {
+  it("collects endpoints, the evidence chain and the suggested edge", () => {
+    const focus = anomalyFocus(normalizeAnomaly(backendAnomaly));
+
+    expect(focus.entityIds).toEqual([ENTITY_A, ENTITY_B, ENTITY_C]);
+    expect(focus.edges).toEqual([
+      { sourceId: ENTITY_A, targetId: ENTITY_C },
+      { sourceId: ENTITY_C, targetId: ENTITY_B },
+      { sourceId: ENTITY_A, targetId: ENTITY_B },
+    ]);
+  });
+});
+
+describe("anomalyGraph", () => {
+  it("merges neighbourhoods and adds the suggested relationship", () => {
+    const anomaly = normalizeAnomaly(backendAnomaly);
+    const graph = anomalyGraph(anomaly, [
+      {
+        entities: [
+          { id: ENTITY_A, triples: [] },
+          { id: ENTITY_C, triples: [] },
+        ],
+        edges: [
+          { subject: ENTITY_A, predicate: "fleet.near", object: ENTITY_C },
+        ],
+      },
+      {
+        entities: [
+          { id: ENTITY_B, triples: [] },
+          { id: ENTITY_C, triples: [] },
+        ],
+        edges: [
+          { subject: ENTITY_C, predicate: "fleet.near", object: ENTITY_B },
+        ],
+      },
+    ]);
+
+    expect(graph.entities.map((entity) => entity.id).sort()).toEqual(
+      [ENTITY_A, ENTITY_B, ENTITY_C].sort(),
+    );
+    expect(
+      graph.relationships.map((relationship) => relationship.predicate),
+    ).toEqual(["fleet.near", "fleet.near", "fleet.peer.of"]);
+  });
+});
@@ -0,0 +1,347 @@
+import type { components } from "$lib/types/api.generated";
+import {
+  createRelationshipId,
+  type GraphEntity,
+  type GraphRelationship,
+  type PathSearchResult,
+} from "$lib/types/graph";
+import { transformPathSearchResult } from "./graphTransform";
+
+type BackendAnomaly = components["schemas"]["StructuralAnomaly"];
+type BackendReviewRequest = components["schemas"]["ReviewRequest"];
+type BackendStats = components["schemas"]["StatsResponse"];
+
+type Fetcher = typeof fetch;
+type FetchInit = Parameters<Fetcher>[1];
+
+export type AnomalyEvidence = BackendAnomaly["evidence"];
+
+export interface AnomalySuggestion {
+  fromEntity: string;
+  toEntity: string;
+  predicate: string;
+  confidence: number;
+  reasoning: string;
+}
+
+export interface StructuralAnomaly {
+  id: string;
+  type: string;
+  status: string;
+  confidence: number;
+  detectedAt: string;
+  entityA: string;
+  entityAContext?: string;
+  entityB?: string;
+  entityBContext?: string;
+  evidence: AnomalyEvidence;
+  suggestion: AnomalySuggestion | null;
+  llmReasoning?: string;
+  reviewNotes?: string;
+  reviewedAt?: string | null;
+  reviewedBy?: string;
+}
+
+export interface InferenceStats {
+  totalDetected: number;
+  pendingReview: number;
+  humanReview: number;
+  humanApproved: number;
+  humanRejected: number;
+  llmApproved: number;
+  llmRejected: number;
+  applied: number;
+}
+
+export type ReviewDecision = "approved" | "rejected";
+
+export interface ReviewInput {
+  decision: ReviewDecision;
+  notes?: string;
+  /** Replace the suggested predicate when approving */
+  overridePredicate?: string;
+  /** Replace the suggested target entity when approving */
+  targetEntity?: string;
+  reviewedBy?: string;
+}
+
+/** Entities and edges a reviewer needs to see to judge an anomaly */
+export interface AnomalyFocus {
+  entityIds: string[];
+  edges: Array<{ sourceId: string; targetId: string }>;
+}
+
+export interface InferenceRequestOptions {
+  fetcher?: Fetcher;
+}
+
+export class InferenceApiError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+  ) {
+    super(message);
+    this.name = "InferenceApiError";
+  }
+}
+
+export const inferenceApi = {
+  async listPending(
+    options: InferenceRequestOptions = {},
+  ): Promise<StructuralAnomaly[]> {
+    const data = await request(
+      options,
+      "/inference/anomalies/pending",
+      "Pending anomalies",
+    );
+    const anomalies = Array.isArray(data) ? (data as BackendAnomaly[]) : [];
+    // Most confident detections first; reviewers work the top of the queue
+    return anomalies
+      .map(normalizeAnomaly)
+      .sort((a, b) => b.confidence - a.confidence);
+  },
+
+  async getAnomaly(
+    id: string,
+    options: InferenceRequestOptions = {},
+  ): Promise<StructuralAnomaly> {
+    const data = await request(
+      options,
+      `/inference/anomalies/${encodeURIComponent(id)}`,
+      "Anomaly lookup",
+    );
+    return normalizeAnomaly(data as BackendAnomaly);
+  },
+
+  async review(
+    id: string,
+    input: ReviewInput,
+    options: InferenceRequestOptions = {},
+  ): Promise<StructuralAnomaly> {
+    const body: BackendReviewRequest = {
+      decision: input.decision,
+      notes: input.notes || undefined,
+      override_predicate: input.overridePredicate || undefined,
+      target_entity: input.targetEntity || undefined,
+      reviewed_by: input.reviewedBy || undefined,
+    };
+
+    const data = await request(
+      options,
+      `/inference/anomalies/${encodeURIComponent(id)}/review`,
+      "Review",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      },
+    );
+    return normalizeAnomaly(data as BackendAnomaly);
+  },
+
+  async fetchStats(
+    options: InferenceRequestOptions = {},
+  ): Promise<InferenceStats> {
+    const data = (await request(
+      options,
+      "/inference/stats",
+      "Inference stats",
+    )) as Partial<BackendStats> | null;
+
+    return {
+      totalDetected: data?.total_detected ?? 0,
+      pendingReview: data?.pending_review ?? 0,
+      humanReview: data?.human_review ?? 0,
+      humanApproved: data?.human_approved ?? 0,
+      humanRejected: data?.human_rejected ?? 0,
+      llmApproved: data?.llm_approved ?? 0,
+      llmRejected: data?.llm_rejected ?? 0,
+      applied: data?.applied ?? 0,
+    };
+  },
+};
+
+export function normalizeAnomaly(payload: BackendAnomaly): StructuralAnomaly {
+  const suggestion = payload.suggestion;
+
+  return {
+    id: payload.id,
+    type: payload.type,
+    status: payload.status,
+    confidence: payload.confidence ?? 0,
+    detectedAt: payload.detected_at,
+    entityA: payload.entity_a,
+    entityAContext: payload.entity_a_context,
+    entityB: payload.entity_b || undefined,
+    entityBContext: payload.entity_b_context,
+    evidence: payload.evidence ?? {},
+    suggestion: suggestion
+      ? {
+          fromEntity: suggestion.from_entity,
+          toEntity: suggestion.to_entity,
+          predicate: suggestion.predicate,
+          confidence: suggestion.confidence,
+          reasoning: suggestion.reasoning,
+        }
+      : null,
+    llmReasoning: payload.llm_reasoning,
+    reviewNotes: payload.review_notes,
+    reviewedAt: payload.reviewed_at,
+    reviewedBy: payload.reviewed_by,
+  };
+}
+
+/**
+ * Collect the entities and suspicious edges behind an anomaly: the two
+ * endpoints, any evidence chain, and the suggested relationship.
+ */
+export function anomalyFocus(anomaly: StructuralAnomaly): AnomalyFocus {
+  const entityIds: string[] = [];
+  const edges: AnomalyFocus["edges"] = [];
+  const addEntity = (id: string | undefined) => {
+    if (id && !entityIds.includes(id)) entityIds.push(id);
+  };
+  const addEdge = (sourceId: string | undefined, targetId?: string) => {
+    if (!sourceId || !targetId || sourceId === targetId) return;
+    if (
+      !edges.some(
+        (edge) => edge.sourceId === sourceId && edge.targetId === targetId,
+      )
+    ) {
+      edges.push({ sourceId, targetId });
+    }
+  };
+
+  addEntity(anomaly.entityA);
+  addEntity(anomaly.entityB);
+
+  const chain = anomaly.evidence.chain_path ?? [];
+  chain.forEach(addEntity);
+  for (let index = 1; index < chain.length; index++) {
+    addEdge(chain[index - 1], chain[index]);
+  }
+
+  if (anomaly.suggestion) {
+    addEntity(anomaly.suggestion.fromEntity);
+    addEntity(anomaly.suggestion.toEntity);
+    addEdge(anomaly.suggestion.fromEntity, anomaly.suggestion.toEntity);
+  } else {
+    addEdge(anomaly.entityA, anomaly.entityB);
+  }
+
+  return { entityIds, edges };
+}
+
+/**
+ * Merge the neighbourhoods loaded around an anomaly's focus entities into a
+ * single graph. The suggested relationship is added as a synthetic edge so
+ * reviewers can see where it would land.
+ */
+export function anomalyGraph(
+  anomaly: StructuralAnomaly,
+  neighbourhoods: PathSearchResult[],
+): { entities: GraphEntity[]; relationships: GraphRelationship[] } {
+  const merged: PathSearchResult = { entities: [], edges: [] };
+  const seenEntities = new Set<string>();
+  for (const result of neighbourhoods) {
+    for (const entity of result.entities) {
+      if (seenEntities.has(entity.id)) continue;
+      seenEntities.add(entity.id);
+      merged.entities.push(entity);
+    }
+    merged.edges.push(...result.edges);
+  }
+
+  const entities = transformPathSearchResult(merged);
+  const relationships = new Map<string, GraphRelationship>();
+  for (const entity of entities) {
+    for (const relationship of [...entity.outgoing, ...entity.incoming]) {
+      if (
+        seenEntities.has(relationship.sourceId) &&
+        seenEntities.has(relationship.targetId)
+      ) {
+        relationships.set(relationship.id, relationship);
+      }
+    }
+  }
+
+  const suggestion = anomaly.suggestion;
+  if (
+    suggestion &&
+    seenEntities.has(suggestion.fromEntity) &&
+    seenEntities.has(suggestion.toEntity)
+  ) {
+    const id = createRelationshipId(
+      suggestion.fromEntity,
+      suggestion.predicate,
+      suggestion.toEntity,
+    );
+    if (!relationships.has(id)) {
+      relationships.set(id, {
+        id,
+        sourceId: suggestion.fromEntity,
+        targetId: suggestion.toEntity,
+        predicate: suggestion.predicate,
+        confidence: suggestion.confidence,
+        timestamp: Date.now(),
+      });
+    }
+  }
+
+  return { entities, relationships: Array.from(relationships.values()) };
+}
+
+async function request(
+  options: InferenceRequestOptions,
+  url: string,
+  label: string,
+  init: FetchInit = {},
+): Promise<unknown> {
+  const fetcher = options.fetcher ?? fetch;
+  const result = await fetchJson(fetcher, url, { cache: "no-store", ...init });
+
+  if (!result.ok) {
+    throw new InferenceApiError(
+      result.status === 404
+        ? "Anomaly not found"
+        : result.status === 409
+          ? "Anomaly is no longer awaiting review"
+          : (result.message ?? `${label} failed: ${result.statusText}`),
+      result.status,
+    );
+  }
+
+  return result.data;
+}
+
+async function fetchJson(
+  fetcher: Fetcher,
+  input: string,
+  init?: FetchInit,
+): Promise<{
+  ok: boolean;
+  status: number;
+  statusText: string;
+  data: unknown;
+  message?: string;
+}> {
+  try {
+    const response = await fetcher(input, init);
+    const data = await response.json().catch(() => null);
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      data,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      status: 0,
+      statusText: "Network Error",
+      data: null,
+      message: error instanceof Error ? error.message : "Network error",
+    };
+  }
+}
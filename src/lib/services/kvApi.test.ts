@@ -0,0 +1,164 @@
+import { describe, expect, it, vi } from "vitest";
+import { KvApiError, kvApi, type KvEntry } from "./kvApi";
+import { ReconnectBackoff } from "./reconnectBackoff";
+
+function jsonResponse(
+  body: unknown,
+  status = 200,
+  statusText = "OK",
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText,
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+function sseResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, {
+    status: 200,
+    headers: { "Content-Type": "text/event-stream" },
+  });
+}
+
+describe("kvApi.query", () => {
+  it("queries a bucket with pattern and limit and normalizes entries", async () => {
+    const fetcher = vi.fn(async () =>
+      jsonResponse({
+        bucket: "ENTITY_STATES",
+        entries: [
+          {
+            key: "entity.b",
+            value: '{"status":"active"}',
+            revision: 7,
+            created: "2026-07-06T00:00:01Z",
+          },
+          { key: "entity.a", value: { count: 2 }, revision: 3 },
+        ],
+      }),
+    );
+
+    const result = await kvApi.query("ENTITY_STATES", {
+      pattern: "entity.*",
+      limit: 50,
+      fetcher,
+    });
+
+    expect(fetcher).toHaveBeenCalledWith(
+      "/message-logger/kv/ENTITY_STATES?pattern=entity.*&limit=50",
+      { cache: "no-store" },
+    );
+    expect(result.entries.map((entry) => entry.key)).toEqual([
+      "entity.a",
+      "entity.b",
+    ]);
+    expect(result.entries[1]).toEqual({
+      key: "entity.b",
+      value: { status: "active" },
+      revision: 7,
+      updatedAt: "2026-07-06T00:00:01Z",
+      operation: "put",
+    });
+  });
+
+  it("throws descriptive errors for disabled queries and unknown buckets", async () => {
+    const forbidden = vi.fn(async () => jsonResponse({}, 403, "Forbidden"));
+    await expect(
+      kvApi.query("ENTITY_STATES", { fetcher: forbidden }),
+    ).rejects.toMatchObject({
+      name: "KvApiError",
+      statusCode: 403,
+      message: "KV queries are disabled in this environment",
+    });
+
+    const missing = vi.fn(async () => jsonResponse({}, 404, "Not Found"));
+    await expect(
+      kvApi.query("NOPE", { fetcher: missing }),
+    ).rejects.toBeInstanceOf(KvApiError);
+    await expect(kvApi.query("NOPE", { fetcher: missing })).rejects.toThrow(
+      "Bucket not found: NOPE",
+    );
+  });
+});
+
+describe("kvApi.watch", () => {
+  it("emits kv_change events and resumes with Last-Event-ID after a drop", async () => {
+    const fetcher = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(
+        sseResponse([
+          'event: connected\ndata: {"bucket":"ENTITY_STATES"}\n\n',
+          'id: 41\nevent: kv_change\ndata: {"key":"entity.a","operation":"PUT","value":{"n":1},"revision":41}\n\n',
+          'id: 42\nevent: kv_change\ndata: {"key":"entity.b","operation":"DEL",',
+          '"revision":42}\n\n',
+        ]),
+      )
+      // Resumed stream stays open until the watch is closed
+      .mockResolvedValue(new Response(new ReadableStream(), { status: 200 }));
+
+    const changes: Array<[KvEntry, string | null]> = [];
+    const statuses: string[] = [];
+    const handle = kvApi.watch("ENTITY_STATES", {
+      pattern: "entity.*",
+      fetcher,
+      backoff: new ReconnectBackoff({ baseDelayMs: 1 }),
+      onChange: (entry, eventId) => changes.push([entry, eventId]),
+      onStatus: (status) => statuses.push(status),
+    });
+
+    await vi.waitFor(() => expect(fetcher).toHaveBeenCalledTimes(2));
+    handle.close();
+
+    expect(fetcher.mock.calls[0][0]).toBe(
+      "/message-logger/kv/ENTITY_STATES/watch?pattern=entity.*",
+    );
+    expect(changes).toHaveLength(2);
+    expect(changes[0][0]).toMatchObject({
+      key: "entity.a",
+      operation: "put",
+      value: { n: 1 },
+    });
+    expect(changes[1]).toEqual([
+      expect.objectContaining({ key: "entity.b", operation: "delete" }),
+      "42",
+    ]);
+
+    const resumeInit = fetcher.mock.calls[1][1] as RequestInit;
+    expect(resumeInit.headers).toMatchObject({ "Last-Event-ID": "42" });
+    expect(handle.lastEventId).toBe("42");
+    expect(statuses).toContain("live");
+    expect(statuses).toContain("reconnecting");
+    expect(statuses[statuses.length - 1]).toBe("closed");
+  });
+
+  it("stops without retrying when the bucket does not exist", async () => {
+    const fetcher = vi.fn(
+      async () => new Response(null, { status: 404, statusText: "Not Found" }),
+    );
+    const onStatus = vi.fn();
+
+    kvApi.watch("MISSING", {
+      fetcher,
+      backoff: new ReconnectBackoff({ baseDelayMs: 1 }),
+      onChange: vi.fn(),
+      onStatus,
+    });
+
+    await vi.waitFor(() =>
+      expect(onStatus).toHaveBeenCalledWith(
+        "error",
+        "Bucket not found: MISSING",
+      ),
+    );
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+});
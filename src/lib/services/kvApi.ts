@@ -0,0 +1,363 @@
+import { ReconnectBackoff } from "./reconnectBackoff";
+
+// KV inspection is served by the message-logger service (development/test
+// deployments only) and reaches the browser through /message-logger/*.
+const API_BASE = "/message-logger/kv";
+
+type Fetcher = typeof fetch;
+type FetchInit = Parameters<Fetcher>[1];
+
+/** Buckets the platform always creates; any other bucket name can be typed in */
+export const KNOWN_KV_BUCKETS = ["ENTITY_STATES", "CONTEXT_INDEX"] as const;
+
+export type KvOperation = "put" | "delete" | "purge";
+
+export interface KvEntry {
+  key: string;
+  value: unknown;
+  revision: number;
+  /** ISO timestamp of the revision, when the backend reports one */
+  updatedAt?: string;
+  operation: KvOperation;
+}
+
+export interface KvQueryResult {
+  bucket: string;
+  entries: KvEntry[];
+}
+
+export interface KvQueryOptions {
+  /** Key pattern to match (e.g. 'entity.*') */
+  pattern?: string;
+  /** Maximum entries to return (backend default 100, max 1000) */
+  limit?: number;
+  fetcher?: Fetcher;
+}
+
+export type KvWatchStatus =
+  | "connecting"
+  | "live"
+  | "reconnecting"
+  | "closed"
+  | "error";
+
+export interface KvWatchOptions {
+  /** Key pattern to watch (backend default: all keys) */
+  pattern?: string;
+  /** Resume after this event ID instead of starting from the current state */
+  lastEventId?: string;
+  onChange: (entry: KvEntry, eventId: string | null) => void;
+  onStatus?: (status: KvWatchStatus, message?: string) => void;
+  fetcher?: Fetcher;
+  backoff?: ReconnectBackoff;
+}
+
+export interface KvWatchHandle {
+  close: () => void;
+  /** ID of the last event received; sent as Last-Event-ID on reconnect */
+  readonly lastEventId: string | null;
+}
+
+export class KvApiError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+  ) {
+    super(message);
+    this.name = "KvApiError";
+  }
+}
+
+interface BackendKvEntry {
+  key?: string;
+  value?: unknown;
+  revision?: number;
+  created?: string;
+  timestamp?: string;
+  operation?: string;
+}
+
+interface SseEvent {
+  id: string | null;
+  event: string;
+  data: string;
+}
+
+export const kvApi = {
+  async query(
+    bucket: string,
+    options: KvQueryOptions = {},
+  ): Promise<KvQueryResult> {
+    const fetcher = options.fetcher ?? fetch;
+    const params = new URLSearchParams();
+    if (options.pattern) params.set("pattern", options.pattern);
+    if (options.limit !== undefined) params.set("limit", String(options.limit));
+
+    const query = params.toString();
+    const url = `${API_BASE}/${encodeURIComponent(bucket)}${query ? `?${query}` : ""}`;
+    const result = await fetchJson(fetcher, url, { cache: "no-store" });
+
+    if (!result.ok) {
+      throw new KvApiError(
+        result.status === 403
+          ? "KV queries are disabled in this environment"
+          : result.status === 404
+            ? `Bucket not found: ${bucket}`
+            : (result.message ?? `KV query failed: ${result.statusText}`),
+        result.status,
+      );
+    }
+
+    return normalizeKvQuery(bucket, result.data);
+  },
+
+  /**
+   * Tail a bucket over SSE. Dropped streams reconnect with exponential
+   * backoff and resume from the last seen event via Last-Event-ID.
+   */
+  watch(bucket: string, options: KvWatchOptions): KvWatchHandle {
+    const fetcher = options.fetcher ?? fetch;
+    const backoff = options.backoff ?? new ReconnectBackoff();
+    const params = new URLSearchParams();
+    if (options.pattern) params.set("pattern", options.pattern);
+    const query = params.toString();
+    const url = `${API_BASE}/${encodeURIComponent(bucket)}/watch${query ? `?${query}` : ""}`;
+
+    let lastEventId = options.lastEventId ?? null;
+    let controller: AbortController | null = null;
+    let closed = false;
+
+    const setStatus = (status: KvWatchStatus, message?: string) => {
+      options.onStatus?.(status, message);
+    };
+
+    const handleEvent = (event: SseEvent) => {
+      if (event.id) lastEventId = event.id;
+
+      if (event.event === "connected") {
+        backoff.reset();
+        setStatus("live");
+      } else if (event.event === "kv_change") {
+        const entry = parseJson(event.data);
+        if (entry && typeof entry === "object") {
+          options.onChange(
+            normalizeKvEntry(entry as BackendKvEntry),
+            event.id ?? null,
+          );
+        }
+      } else if (event.event === "error") {
+        const payload = parseJson(event.data) as { message?: string } | null;
+        setStatus("error", payload?.message ?? event.data);
+      }
+    };
+
+    const reconnect = (reason: string) => {
+      if (closed) return;
+      const delay = backoff.schedule(connect);
+      if (delay === null) {
+        setStatus("error", `${reason}. Max reconnect attempts reached.`);
+      } else {
+        setStatus("reconnecting", reason);
+      }
+    };
+
+    const connect = async () => {
+      controller = new AbortController();
+      setStatus(backoff.attempts > 0 ? "reconnecting" : "connecting");
+
+      const headers: Record<string, string> = {
+        Accept: "text/event-stream",
+      };
+      if (lastEventId) headers["Last-Event-ID"] = lastEventId;
+
+      let response: Response;
+      try {
+        response = await fetcher(url, {
+          headers,
+          cache: "no-store",
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (closed) return;
+        reconnect(error instanceof Error ? error.message : "Network error");
+        return;
+      }
+
+      if (!response.ok || !response.body) {
+        // Client errors (bad pattern, unknown bucket) will not fix themselves
+        if (response.status >= 400 && response.status < 500) {
+          closed = true;
+          setStatus(
+            "error",
+            response.status === 404
+              ? `Bucket not found: ${bucket}`
+              : `Watch failed: ${response.statusText}`,
+          );
+          return;
+        }
+        reconnect(`Watch failed: ${response.statusText}`);
+        return;
+      }
+
+      try {
+        await readSseStream(response.body, handleEvent);
+      } catch {
+        // Aborted or dropped mid-stream; fall through to reconnect
+      }
+
+      reconnect("Watch stream ended");
+    };
+
+    void connect();
+
+    return {
+      close() {
+        if (closed) return;
+        closed = true;
+        backoff.cancel();
+        controller?.abort();
+        setStatus("closed");
+      },
+      get lastEventId() {
+        return lastEventId;
+      },
+    };
+  },
+};
+
+/**
+ * Normalize a KV query response.
+ * The backend returns { bucket, entries: [...] }; a bare array is also accepted.
+ */
+export function normalizeKvQuery(
+  bucket: string,
+  payload: unknown,
+): KvQueryResult {
+  const response = (payload ?? {}) as {
+    bucket?: string;
+    entries?: BackendKvEntry[] | null;
+  };
+  const entries: BackendKvEntry[] = Array.isArray(payload)
+    ? payload
+    : Array.isArray(response.entries)
+      ? response.entries
+      : [];
+
+  return {
+    bucket: response.bucket ?? bucket,
+    entries: entries
+      .map(normalizeKvEntry)
+      .filter((entry) => entry.key !== "")
+      .sort((a, b) => a.key.localeCompare(b.key)),
+  };
+}
+
+export function normalizeKvEntry(entry: BackendKvEntry): KvEntry {
+  const operation = entry.operation?.toLowerCase();
+
+  return {
+    key: entry.key ?? "",
+    value: decodeValue(entry.value),
+    revision: typeof entry.revision === "number" ? entry.revision : 0,
+    updatedAt: entry.timestamp ?? entry.created,
+    operation:
+      operation === "delete" || operation === "del"
+        ? "delete"
+        : operation === "purge"
+          ? "purge"
+          : "put",
+  };
+}
+
+/** Values arrive as embedded JSON or as a JSON-encoded string; prefer structured */
+function decodeValue(value: unknown): unknown {
+  if (typeof value !== "string") return value ?? null;
+  const parsed = parseJson(value);
+  return parsed === null ? value : parsed;
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+async function readSseStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: SseEvent) => void,
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+    // Split on double newline (SSE event boundary)
+    const parts = buffer.split("\n\n");
+    // Last part may be incomplete — keep it in the buffer
+    buffer = parts.pop() ?? "";
+
+    for (const part of parts) {
+      const event = parseSseEvent(part);
+      if (event) onEvent(event);
+    }
+  }
+}
+
+function parseSseEvent(block: string): SseEvent | null {
+  let id: string | null = null;
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (!line || line.startsWith(":")) continue;
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+
+    if (field === "id") id = value;
+    else if (field === "event") event = value;
+    else if (field === "data") data.push(value);
+  }
+
+  if (id === null && data.length === 0) return null;
+  return { id, event, data: data.join("\n") };
+}
+
+async function fetchJson(
+  fetcher: Fetcher,
+  input: string,
+  init?: FetchInit,
+): Promise<{
+  ok: boolean;
+  status: number;
+  statusText: string;
+  data: unknown;
+  message?: string;
+}> {
+  try {
+    const response = await fetcher(input, init);
+    const data = await response.json().catch(() => null);
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      data,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      status: 0,
+      statusText: "Network Error",
+      data: null,
+      message: error instanceof Error ? error.message : "Network error",
+    };
+  }
+}
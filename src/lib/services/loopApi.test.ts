@@ -0,0 +1,177 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  LoopApiError,
+  applyActivityEvent,
+  loopApi,
+  type AgentLoop,
+} from "./loopApi";
+
+function jsonResponse(
+  body: unknown,
+  status = 200,
+  statusText = "OK",
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText,
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+function makeLoop(overrides: Partial<AgentLoop> = {}): AgentLoop {
+  return {
+    loopId: "loop-1",
+    state: "executing",
+    role: "developer",
+    iterations: 2,
+    maxIterations: 10,
+    pendingApproval: null,
+    ...overrides,
+  };
+}
+
+describe("loopApi", () => {
+  it("lists loops with filters and normalizes pending approvals", async () => {
+    const fetcher = vi.fn(async () =>
+      jsonResponse([
+        {
+          loop_id: "loop-1",
+          task_id: "task-1",
+          user_id: "alice",
+          state: "awaiting_approval",
+          iterations: 3,
+          max_iterations: 20,
+          pending_approval: {
+            call_id: "call-1",
+            tool_name: "shell",
+            arguments: { command: "ls" },
+            requested_at: "2026-07-06T00:00:00Z",
+          },
+        },
+      ]),
+    );
+
+    const loops = await loopApi.listLoops(
+      { state: "awaiting_approval", userId: "alice" },
+      { fetcher },
+    );
+
+    expect(fetcher).toHaveBeenCalledWith(
+      "/loops?state=awaiting_approval&user_id=alice",
+      { cache: "no-store" },
+    );
+    expect(loops[0]).toMatchObject({
+      loopId: "loop-1",
+      state: "awaiting_approval",
+      iterations: 3,
+      maxIterations: 20,
+      pendingApproval: {
+        callId: "call-1",
+        toolName: "shell",
+        arguments: { command: "ls" },
+      },
+    });
+  });
+
+  it("posts signals and modified approvals in the backend shape", async () => {
+    const fetcher = vi.fn(async () => jsonResponse({}));
+
+    await loopApi.signal("loop/1", "pause", "operator hold", { fetcher });
+    await loopApi.submitApproval(
+      "loop/1",
+      {
+        decision: "modify",
+        modifiedArguments: { command: "ls -la" },
+        reason: "safer flags",
+      },
+      { fetcher },
+    );
+
+    expect(fetcher).toHaveBeenNthCalledWith(1, "/loops/loop%2F1/signal", {
+      cache: "no-store",
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ type: "pause", reason: "operator hold" }),
+    });
+    const [, init] = fetcher.mock.calls[1] as unknown as [string, RequestInit];
+    expect(JSON.parse(init.body as string)).toEqual({
+      decision: "modify",
+      modified_arguments: { command: "ls -la" },
+      reason: "safer flags",
+    });
+  });
+
+  it("reports a conflict when the loop is no longer awaiting approval", async () => {
+    const fetcher = vi.fn(async () => jsonResponse(null, 409, "Conflict"));
+
+    const error = await loopApi
+      .submitApproval("loop-1", { decision: "approve" }, { fetcher })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(LoopApiError);
+    expect(error).toMatchObject({
+      message: "Loop is not awaiting approval",
+      statusCode: 409,
+    });
+  });
+});
+
+describe("applyActivityEvent", () => {
+  it("merges updates, prepends new loops and drops deleted ones", () => {
+    const loops = [makeLoop()];
+
+    const updated = applyActivityEvent(loops, {
+      type: "loop_updated",
+      loopId: "loop-1",
+      timestamp: "2026-07-06T00:00:00Z",
+      loop: makeLoop({ state: "paused", role: undefined, iterations: 3 }),
+    });
+    expect(updated[0]).toMatchObject({
+      state: "paused",
+      role: "developer",
+      iterations: 3,
+    });
+
+    const created = applyActivityEvent(updated, {
+      type: "loop_created",
+      loopId: "loop-2",
+      timestamp: "2026-07-06T00:00:01Z",
+      loop: makeLoop({ loopId: "loop-2" }),
+    });
+    expect(created.map((loop) => loop.loopId)).toEqual(["loop-2", "loop-1"]);
+
+    const deleted = applyActivityEvent(created, {
+      type: "loop_deleted",
+      loopId: "loop-1",
+      timestamp: "2026-07-06T00:00:02Z",
+      loop: null,
+    });
+    expect(deleted.map((loop) => loop.loopId)).toEqual(["loop-2"]);
+  });
+
+  it("derives a terminal state from the completion outcome", () => {
+    const [completed] = applyActivityEvent(
+      [
+        makeLoop({
+          pendingApproval: {
+            callId: "call-1",
+            toolName: "shell",
+            arguments: {},
+            requestedAt: "2026-07-06T00:00:00Z",
+          },
+        }),
+      ],
+      {
+        type: "loop_completed",
+        loopId: "loop-1",
+        timestamp: "2026-07-06T00:00:00Z",
+        loop: makeLoop({ outcome: "success", state: "unknown" }),
+      },
+    );
+
+    expect(completed.state).toBe("complete");
+    expect(completed.pendingApproval).toBeNull();
+  });
+});
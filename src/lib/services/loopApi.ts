@@ -0,0 +1,313 @@
+import type { components } from "$lib/types/api.generated";
+
+type BackendLoop = components["schemas"]["Loop"] &
+  Partial<components["schemas"]["LoopInfo"]>;
+type BackendActivityEvent = components["schemas"]["ActivityEvent"];
+type BackendApprovalRequest = components["schemas"]["ApprovalRequest"];
+type BackendSignalRequest = components["schemas"]["SignalRequest"];
+
+type Fetcher = typeof fetch;
+type FetchInit = Parameters<Fetcher>[1];
+
+export type LoopSignal = "pause" | "resume" | "cancel";
+export type ApprovalDecision = "approve" | "reject" | "modify";
+
+/** Loop states after which no further signals or approvals are accepted */
+export const TERMINAL_LOOP_STATES = ["complete", "failed", "cancelled"];
+
+export interface PendingApproval {
+  callId: string;
+  toolName: string;
+  arguments: Record<string, unknown>;
+  reason?: string;
+  requestedAt: string;
+  traceId?: string;
+}
+
+export interface AgentLoop {
+  loopId: string;
+  state: string;
+  role?: string;
+  taskId?: string;
+  userId?: string;
+  workflowSlug?: string;
+  parentLoopId?: string;
+  iterations: number;
+  maxIterations: number;
+  outcome?: string;
+  error?: string;
+  tokensIn?: number;
+  tokensOut?: number;
+  createdAt?: string;
+  completedAt?: string;
+  pendingApproval: PendingApproval | null;
+}
+
+export interface LoopActivityEvent {
+  type: string;
+  loopId: string;
+  timestamp: string;
+  loop: AgentLoop | null;
+}
+
+export interface ApprovalInput {
+  decision: ApprovalDecision;
+  /** Replacement tool call arguments; only sent with decision=modify */
+  modifiedArguments?: Record<string, unknown>;
+  reason?: string;
+  userId?: string;
+}
+
+export interface LoopListFilter {
+  state?: string;
+  userId?: string;
+}
+
+export interface LoopRequestOptions {
+  fetcher?: Fetcher;
+}
+
+export class LoopApiError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+  ) {
+    super(message);
+    this.name = "LoopApiError";
+  }
+}
+
+export const loopApi = {
+  async listLoops(
+    filter: LoopListFilter = {},
+    options: LoopRequestOptions = {},
+  ): Promise<AgentLoop[]> {
+    const params = new URLSearchParams();
+    if (filter.state) params.set("state", filter.state);
+    if (filter.userId) params.set("user_id", filter.userId);
+    const query = params.toString();
+
+    const data = await request(
+      options,
+      query ? `/loops?${query}` : "/loops",
+      "Loop list",
+    );
+    return Array.isArray(data)
+      ? (data as BackendLoop[]).map(normalizeLoop)
+      : [];
+  },
+
+  async getLoop(
+    loopId: string,
+    options: LoopRequestOptions = {},
+  ): Promise<AgentLoop> {
+    const data = await request(
+      options,
+      `/loops/${encodeURIComponent(loopId)}`,
+      "Loop lookup",
+    );
+    return normalizeLoop(data as BackendLoop);
+  },
+
+  async signal(
+    loopId: string,
+    signal: LoopSignal,
+    reason = "",
+    options: LoopRequestOptions = {},
+  ): Promise<void> {
+    const body: BackendSignalRequest = { type: signal, reason };
+    await request(
+      options,
+      `/loops/${encodeURIComponent(loopId)}/signal`,
+      "Signal",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      },
+    );
+  },
+
+  async submitApproval(
+    loopId: string,
+    input: ApprovalInput,
+    options: LoopRequestOptions = {},
+  ): Promise<void> {
+    const body: BackendApprovalRequest = {
+      decision: input.decision,
+      modified_arguments:
+        input.decision === "modify" ? input.modifiedArguments : undefined,
+      reason: input.reason || undefined,
+      user_id: input.userId || undefined,
+    };
+    await request(
+      options,
+      `/loops/${encodeURIComponent(loopId)}/approval`,
+      "Approval",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      },
+    );
+  },
+};
+
+export function normalizeLoop(payload: BackendLoop): AgentLoop {
+  const approval = payload.pending_approval;
+
+  return {
+    loopId: payload.loop_id,
+    state: payload.state ?? "unknown",
+    role: payload.role,
+    taskId: payload.task_id,
+    userId: payload.user_id,
+    workflowSlug: payload.workflow_slug,
+    parentLoopId: payload.parent_loop_id,
+    iterations: payload.iterations ?? 0,
+    maxIterations: payload.max_iterations ?? 0,
+    outcome: payload.outcome,
+    error: payload.error,
+    tokensIn: payload.tokens_in,
+    tokensOut: payload.tokens_out,
+    createdAt: payload.created_at,
+    completedAt: payload.completed_at,
+    pendingApproval: approval
+      ? {
+          callId: approval.call_id,
+          toolName: approval.tool_name,
+          arguments: approval.arguments ?? {},
+          reason: approval.reason,
+          requestedAt: approval.requested_at,
+          traceId: approval.trace_id,
+        }
+      : null,
+  };
+}
+
+export function normalizeActivityEvent(
+  payload: BackendActivityEvent,
+): LoopActivityEvent {
+  return {
+    type: payload.type,
+    loopId: payload.loop_id,
+    timestamp: payload.timestamp,
+    loop: payload.data ? normalizeLoop(payload.data) : null,
+  };
+}
+
+export function isLoopActive(loop: AgentLoop): boolean {
+  return !TERMINAL_LOOP_STATES.includes(loop.state);
+}
+
+/**
+ * Fold one activity event into a loop list. Terminal events carry the
+ * outcome but no state, so the state is derived from the outcome.
+ */
+export function applyActivityEvent(
+  loops: AgentLoop[],
+  event: LoopActivityEvent,
+): AgentLoop[] {
+  const index = loops.findIndex((loop) => loop.loopId === event.loopId);
+  const existing = index >= 0 ? loops[index] : null;
+
+  if (event.type === "loop_deleted") {
+    return index >= 0 ? loops.filter((_, i) => i !== index) : loops;
+  }
+
+  let next: AgentLoop;
+  if (event.type === "loop_completed") {
+    const outcome = event.loop?.outcome ?? existing?.outcome ?? "success";
+    const base = existing ?? emptyLoop(event.loopId);
+    next = {
+      ...(event.loop ? mergeLoop(base, event.loop) : base),
+      outcome,
+      state: outcome === "success" ? "complete" : outcome,
+      pendingApproval: null,
+    };
+  } else if (event.loop) {
+    next = existing ? mergeLoop(existing, event.loop) : event.loop;
+  } else {
+    return loops;
+  }
+
+  if (index < 0) return [next, ...loops];
+  return loops.map((loop, i) => (i === index ? next : loop));
+}
+
+function mergeLoop(existing: AgentLoop, update: AgentLoop): AgentLoop {
+  const merged: AgentLoop = { ...existing };
+  for (const [key, value] of Object.entries(update)) {
+    if (value !== undefined) {
+      (merged as unknown as Record<string, unknown>)[key] = value;
+    }
+  }
+  // "unknown" is the normalizer's placeholder, not a real transition
+  if (update.state === "unknown") merged.state = existing.state;
+  return merged;
+}
+
+function emptyLoop(loopId: string): AgentLoop {
+  return {
+    loopId,
+    state: "unknown",
+    iterations: 0,
+    maxIterations: 0,
+    pendingApproval: null,
+  };
+}
+
+async function request(
+  options: LoopRequestOptions,
+  url: string,
+  label: string,
+  init: FetchInit = {},
+): Promise<unknown> {
+  const fetcher = options.fetcher ?? fetch;
+  const result = await fetchJson(fetcher, url, { cache: "no-store", ...init });
+
+  if (!result.ok) {
+    throw new LoopApiError(
+      result.status === 404
+        ? "Loop not found"
+        : result.status === 409
+          ? "Loop is not awaiting approval"
+          : (result.message ?? `${label} failed: ${result.statusText}`),
+      result.status,
+    );
+  }
+
+  return result.data;
+}
+
+async function fetchJson(
+  fetcher: Fetcher,
+  input: string,
+  init?: FetchInit,
+): Promise<{
+  ok: boolean;
+  status: number;
+  statusText: string;
+  data: unknown;
+  message?: string;
+}> {
+  try {
+    const response = await fetcher(input, init);
+    const data = await response.json().catch(() => null);
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      data,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      status: 0,
+      statusText: "Network Error",
+      data: null,
+      message: error instanceof Error ? error.message : "Network error",
+    };
+  }
+}
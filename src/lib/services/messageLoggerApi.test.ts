@@ -0,0 +1,272 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  MessageLoggerApiError,
+  decodePayload,
+  isTraceId,
+  messageLoggerApi,
+  normalizeStats,
+  subjectMatches,
+  withSubjectCounts,
+} from "./messageLoggerApi";
+
+function jsonResponse(
+  body: unknown,
+  status = 200,
+  statusText = "OK",
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText,
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+describe("messageLoggerApi", () => {
+  it("fetches a trace and orders hops with per-hop latency", async () => {
+    const fetcher = vi.fn(async () =>
+      jsonResponse({
+        trace_id: "trace-abc",
+        entries: [
+          {
+            sequence: 3,
+            timestamp: "2026-07-06T00:00:00.450Z",
+            subject: "graph.ingest.entity",
+            summary: "Entity stored",
+            message_id: "msg-3",
+            metadata: { component: "graph-processor", direction: "received" },
+          },
+          {
+            sequence: 1,
+            timestamp: "2026-07-06T00:00:00.000Z",
+            subject: "raw.udp",
+            summary: "UDP datagram",
+            message_type: "core.json.v1",
+            span_id: "span-1",
+            metadata: { component: "udp-input", direction: "published" },
+          },
+          {
+            sequence: 2,
+            timestamp: "2026-07-06T00:00:00.120Z",
+            subject: "raw.udp",
+            summary: "Parsed payload",
+            metadata: { component: "json-processor" },
+          },
+        ],
+      }),
+    );
+
+    const trace = await messageLoggerApi.fetchTrace("trace-abc", { fetcher });
+
+    expect(fetcher).toHaveBeenCalledWith("/message-logger/trace/trace-abc", {
+      cache: "no-store",
+    });
+    expect(trace).toMatchObject({
+      traceId: "trace-abc",
+      startTime: "2026-07-06T00:00:00.000Z",
+      durationMs: 450,
+    });
+    expect(trace.hops.map((hop) => hop.component)).toEqual([
+      "udp-input",
+      "json-processor",
+      "graph-processor",
+    ]);
+    expect(trace.hops[0]).toMatchObject({
+      index: 1,
+      direction: "published",
+      messageType: "core.json.v1",
+      spanId: "span-1",
+      offsetMs: 0,
+      gapMs: 0,
+    });
+    expect(trace.hops[1]).toMatchObject({
+      direction: "processed",
+      offsetMs: 120,
+      gapMs: 120,
+    });
+    expect(trace.hops[2]).toMatchObject({
+      messageId: "msg-3",
+      offsetMs: 450,
+      gapMs: 330,
+    });
+  });
+
+  it("accepts a bare entry array and URL-encodes trace IDs", async () => {
+    const fetcher = vi.fn(async () =>
+      jsonResponse([
+        {
+          sequence: 1,
+          timestamp: "2026-07-06T00:00:00Z",
+          subject: "events.in",
+          summary: "Received",
+        },
+      ]),
+    );
+
+    const trace = await messageLoggerApi.fetchTrace("a/b c", { fetcher });
+
+    expect(fetcher).toHaveBeenCalledWith("/message-logger/trace/a%2Fb%20c", {
+      cache: "no-store",
+    });
+    expect(trace.traceId).toBe("a/b c");
+    expect(trace.hops).toHaveLength(1);
+    expect(trace.hops[0].component).toBe("unknown");
+    expect(trace.durationMs).toBe(0);
+  });
+
+  it("normalizes missing entries to an empty trace", async () => {
+    const fetcher = vi.fn(async () => jsonResponse({ trace_id: "empty" }));
+
+    const trace = await messageLoggerApi.fetchTrace("empty", { fetcher });
+
+    expect(trace.hops).toEqual([]);
+    expect(trace.startTime).toBe("");
+  });
+
+  it("throws a structured error for invalid or unavailable traces", async () => {
+    const badRequest = vi.fn(async () =>
+      jsonResponse({ error: "bad trace id" }, 400, "Bad Request"),
+    );
+
+    await expect(
+      messageLoggerApi.fetchTrace("nope", { fetcher: badRequest }),
+    ).rejects.toMatchObject({
+      name: "MessageLoggerApiError",
+      statusCode: 400,
+      message: "Invalid trace ID: nope",
+    });
+
+    const unavailable = vi.fn(async () =>
+      jsonResponse({}, 503, "Service Unavailable"),
+    );
+
+    await expect(
+      messageLoggerApi.fetchTrace("trace-abc", { fetcher: unavailable }),
+    ).rejects.toBeInstanceOf(MessageLoggerApiError);
+    await expect(
+      messageLoggerApi.fetchTrace("trace-abc", { fetcher: unavailable }),
+    ).rejects.toMatchObject({
+      statusCode: 503,
+      message: "Trace lookup failed: Service Unavailable",
+    });
+  });
+
+  it("fetches entries for a subject pattern and decodes their payloads", async () => {
+    const fetcher = vi.fn(async () =>
+      jsonResponse([
+        {
+          sequence: 7,
+          timestamp: "2026-07-06T00:00:01.000Z",
+          subject: "events.sensor.temp",
+          summary: "Reading",
+          message_type: "core.json.v1",
+          trace_id: "trace-xyz",
+          raw_data: btoa(JSON.stringify({ value: 21.5 })),
+        },
+        {
+          sequence: 8,
+          timestamp: "2026-07-06T00:00:02.000Z",
+          subject: "events.sensor.text",
+          summary: "Plain",
+          trace_id: "",
+          raw_data: btoa("hello"),
+        },
+      ]),
+    );
+
+    const entries = await messageLoggerApi.fetchEntries(
+      { subject: " events.> ", limit: 25 },
+      { fetcher },
+    );
+
+    expect(fetcher).toHaveBeenCalledWith(
+      "/message-logger/entries?limit=25&subject=events.%3E",
+      { cache: "no-store" },
+    );
+    expect(entries[0]).toMatchObject({
+      sequence: 7,
+      traceId: "trace-xyz",
+      messageType: "core.json.v1",
+      payload: '{\n  "value": 21.5\n}',
+      payloadIsJson: true,
+    });
+    expect(entries[1]).toMatchObject({
+      traceId: undefined,
+      payload: "hello",
+      payloadIsJson: false,
+    });
+  });
+
+  it("leaves missing or non-base64 payloads readable", () => {
+    expect(decodePayload(undefined)).toEqual({ text: null, isJson: false });
+    expect(decodePayload("not base64!")).toEqual({
+      text: "not base64!",
+      isJson: false,
+    });
+  });
+
+  it("merges subject counts from stats into the subject list", async () => {
+    const fetcher = vi.fn(async (input: RequestInfo | URL) =>
+      String(input).endsWith("/subjects")
+        ? jsonResponse({ subjects: ["events.a", { subject: "events.b" }] })
+        : jsonResponse({
+            total_messages: 12,
+            dropped: 1,
+            messages_by_subject: { "events.a": 9, "events.c": 3 },
+          }),
+    );
+
+    const [subjects, stats] = await Promise.all([
+      messageLoggerApi.fetchSubjects({ fetcher }),
+      messageLoggerApi.fetchStats({ fetcher }),
+    ]);
+
+    expect(stats).toEqual({
+      totalMessages: 12,
+      subjectCounts: { "events.a": 9, "events.c": 3 },
+      counters: [{ key: "dropped", value: 1 }],
+    });
+    expect(withSubjectCounts(subjects, stats)).toEqual([
+      { subject: "events.a", count: 9 },
+      { subject: "events.b", count: null },
+      { subject: "events.c", count: 3 },
+    ]);
+    expect(normalizeStats(null)).toEqual({
+      totalMessages: null,
+      subjectCounts: {},
+      counters: [],
+    });
+  });
+
+  it("matches NATS wildcard subjects", () => {
+    expect(subjectMatches("events.*", "events.a")).toBe(true);
+    expect(subjectMatches("events.*", "events.a.b")).toBe(false);
+    expect(subjectMatches("events.>", "events.a.b")).toBe(true);
+    expect(subjectMatches("events.>", "events")).toBe(false);
+    expect(subjectMatches("events.a", "events.a")).toBe(true);
+    expect(subjectMatches("events.a", "events.b")).toBe(false);
+  });
+
+  it("surfaces logger failures as structured errors", async () => {
+    const fetcher = vi.fn(async () =>
+      jsonResponse({}, 503, "Service Unavailable"),
+    );
+
+    await expect(
+      messageLoggerApi.fetchStats({ fetcher }),
+    ).rejects.toMatchObject({
+      name: "MessageLoggerApiError",
+      statusCode: 503,
+      message: "Message stats failed: Service Unavailable",
+    });
+  });
+
+  it("accepts only 32-hex W3C trace IDs", () => {
+    expect(isTraceId("4bf92f3577b34da6a3ce929d0e0e4736")).toBe(true);
+    expect(isTraceId("4BF92F3577B34DA6A3CE929D0E0E4736")).toBe(true);
+    expect(isTraceId("msg-123")).toBe(false);
+    expect(isTraceId("4bf92f3577b34da6a3ce929d0e0e473")).toBe(false);
+    expect(isTraceId(undefined)).toBe(false);
+  });
+});
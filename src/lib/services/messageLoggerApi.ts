@@ -0,0 +1,417 @@
+import type { components } from "$lib/types/api.generated";
+
+// Message-logger service endpoints are registered under the service prefix
+// and reach the browser through the /message-logger/* proxy route.
+const API_BASE = "/message-logger";
+
+type BackendMessageLogEntry = components["schemas"]["MessageLogEntry"];
+
+type Fetcher = typeof fetch;
+type FetchInit = Parameters<Fetcher>[1];
+
+export interface TraceHop {
+  index: number;
+  sequence: number;
+  timestamp: string;
+  timestampMs: number;
+  subject: string;
+  component: string;
+  direction: string;
+  messageType?: string;
+  messageId?: string;
+  spanId?: string;
+  summary: string;
+  /** Milliseconds since the first hop in the trace */
+  offsetMs: number;
+  /** Milliseconds since the previous hop (0 for the first hop) */
+  gapMs: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface TraceDetail {
+  traceId: string;
+  startTime: string;
+  durationMs: number;
+  hops: TraceHop[];
+}
+
+/** Logged message with its payload decoded for display */
+export interface MessageLogRecord {
+  sequence: number;
+  timestamp: string;
+  subject: string;
+  summary: string;
+  messageType?: string;
+  messageId?: string;
+  traceId?: string;
+  spanId?: string;
+  metadata?: Record<string, unknown>;
+  /** Pretty-printed JSON payload, or the raw text when it is not JSON */
+  payload: string | null;
+  payloadIsJson: boolean;
+}
+
+export interface SubjectCount {
+  subject: string;
+  count: number | null;
+}
+
+export interface MessageLoggerStats {
+  totalMessages: number | null;
+  /** Message counts keyed by subject, when the logger reports them */
+  subjectCounts: Record<string, number>;
+  /** Remaining scalar counters, for display as-is */
+  counters: Array<{ key: string; value: number }>;
+}
+
+export interface EntryFilter {
+  /** NATS subject or wildcard pattern, e.g. "events.>" */
+  subject?: string;
+  limit?: number;
+}
+
+export interface FetchTraceOptions {
+  fetcher?: Fetcher;
+}
+
+export class MessageLoggerApiError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+  ) {
+    super(message);
+    this.name = "MessageLoggerApiError";
+  }
+}
+
+/** W3C trace ID: 32 hex characters, the only form /trace/{id} accepts */
+const TRACE_ID_PATTERN = /^[0-9a-f]{32}$/i;
+
+export function isTraceId(value: unknown): value is string {
+  return typeof value === "string" && TRACE_ID_PATTERN.test(value);
+}
+
+interface TraceResponse {
+  trace_id?: string;
+  entries?: BackendMessageLogEntry[] | null;
+}
+
+export const messageLoggerApi = {
+  async fetchTrace(
+    traceId: string,
+    options: FetchTraceOptions = {},
+  ): Promise<TraceDetail> {
+    const fetcher = options.fetcher ?? fetch;
+    const url = `${API_BASE}/trace/${encodeURIComponent(traceId)}`;
+    const result = await fetchJson(fetcher, url, { cache: "no-store" });
+
+    if (!result.ok) {
+      throw new MessageLoggerApiError(
+        result.status === 400
+          ? `Invalid trace ID: ${traceId}`
+          : (result.message ?? `Trace lookup failed: ${result.statusText}`),
+        result.status,
+      );
+    }
+
+    return normalizeTrace(traceId, result.data);
+  },
+
+  async fetchEntries(
+    filter: EntryFilter = {},
+    options: FetchTraceOptions = {},
+  ): Promise<MessageLogRecord[]> {
+    const params = new URLSearchParams();
+    if (filter.limit) params.set("limit", String(filter.limit));
+    if (filter.subject?.trim()) params.set("subject", filter.subject.trim());
+    const query = params.toString();
+
+    const data = await request(
+      options,
+      `${API_BASE}/entries${query ? `?${query}` : ""}`,
+      "Message entries",
+    );
+    const entries = Array.isArray(data)
+      ? (data as BackendMessageLogEntry[])
+      : [];
+    return entries.map(normalizeEntry);
+  },
+
+  async fetchSubjects(
+    options: FetchTraceOptions = {},
+  ): Promise<SubjectCount[]> {
+    const data = await request(
+      options,
+      `${API_BASE}/subjects`,
+      "Monitored subjects",
+    );
+    return normalizeSubjects(data);
+  },
+
+  async fetchStats(
+    options: FetchTraceOptions = {},
+  ): Promise<MessageLoggerStats> {
+    const data = await request(options, `${API_BASE}/stats`, "Message stats");
+    return normalizeStats(data);
+  },
+};
+
+export function normalizeEntry(
+  entry: BackendMessageLogEntry,
+): MessageLogRecord {
+  const payload = decodePayload(entry.raw_data);
+
+  return {
+    sequence: entry.sequence,
+    timestamp: entry.timestamp,
+    subject: entry.subject,
+    summary: entry.summary,
+    messageType: entry.message_type,
+    messageId: entry.message_id,
+    traceId: entry.trace_id || undefined,
+    spanId: entry.span_id,
+    metadata: entry.metadata ?? undefined,
+    payload: payload.text,
+    payloadIsJson: payload.isJson,
+  };
+}
+
+/**
+ * Decode a base64 raw_data payload. JSON is re-indented for reading;
+ * anything else is returned as text.
+ */
+export function decodePayload(raw: string | undefined): {
+  text: string | null;
+  isJson: boolean;
+} {
+  if (!raw) return { text: null, isJson: false };
+
+  let text: string;
+  try {
+    const binary = atob(raw);
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    text = new TextDecoder().decode(bytes);
+  } catch {
+    // Not base64; the logger may already have sent plain text
+    text = raw;
+  }
+
+  try {
+    return { text: JSON.stringify(JSON.parse(text), null, 2), isJson: true };
+  } catch {
+    return { text, isJson: false };
+  }
+}
+
+/** Accepts a bare list or a {subjects: [...]} envelope of names or records */
+export function normalizeSubjects(payload: unknown): SubjectCount[] {
+  const list = Array.isArray(payload)
+    ? payload
+    : Array.isArray(asRecord(payload).subjects)
+      ? (asRecord(payload).subjects as unknown[])
+      : [];
+
+  return list
+    .map((item): SubjectCount => {
+      if (typeof item === "string") return { subject: item, count: null };
+      const record = asRecord(item);
+      const count = record.count ?? record.message_count;
+      return {
+        subject: String(record.subject ?? record.name ?? ""),
+        count: typeof count === "number" ? count : null,
+      };
+    })
+    .filter((item) => item.subject);
+}
+
+const SUBJECT_COUNT_KEYS = [
+  "subjects",
+  "subject_counts",
+  "messages_by_subject",
+  "by_subject",
+];
+const TOTAL_KEYS = ["total_messages", "total", "message_count"];
+
+export function normalizeStats(payload: unknown): MessageLoggerStats {
+  const record = asRecord(payload);
+
+  let subjectCounts: Record<string, number> = {};
+  for (const key of SUBJECT_COUNT_KEYS) {
+    const candidate = asRecord(record[key]);
+    const numeric = Object.entries(candidate).filter(
+      (entry): entry is [string, number] => typeof entry[1] === "number",
+    );
+    if (numeric.length > 0) {
+      subjectCounts = Object.fromEntries(numeric);
+      break;
+    }
+  }
+
+  const totalKey = TOTAL_KEYS.find((key) => typeof record[key] === "number");
+  const counters = Object.entries(record)
+    .filter(
+      (entry): entry is [string, number] =>
+        typeof entry[1] === "number" && entry[0] !== totalKey,
+    )
+    .map(([key, value]) => ({ key, value }));
+
+  return {
+    totalMessages: totalKey ? (record[totalKey] as number) : null,
+    subjectCounts,
+    counters,
+  };
+}
+
+/** NATS subject matching: "*" matches one token, ">" one or more trailing */
+export function subjectMatches(pattern: string, subject: string): boolean {
+  const patternTokens = pattern.split(".");
+  const subjectTokens = subject.split(".");
+
+  for (let i = 0; i < patternTokens.length; i++) {
+    const token = patternTokens[i];
+    if (token === ">") return subjectTokens.length > i;
+    if (i >= subjectTokens.length) return false;
+    if (token !== "*" && token !== subjectTokens[i]) return false;
+  }
+
+  return patternTokens.length === subjectTokens.length;
+}
+
+/** Fill in per-subject counts from /stats where /subjects did not carry them */
+export function withSubjectCounts(
+  subjects: SubjectCount[],
+  stats: MessageLoggerStats | null,
+): SubjectCount[] {
+  const counts = stats?.subjectCounts ?? {};
+  const listed = new Set(subjects.map((item) => item.subject));
+  const merged = subjects.map((item) => ({
+    subject: item.subject,
+    count: item.count ?? counts[item.subject] ?? null,
+  }));
+  // Subjects that only appear in the stats are still worth exploring
+  for (const [subject, count] of Object.entries(counts)) {
+    if (!listed.has(subject)) merged.push({ subject, count });
+  }
+  return merged.sort((a, b) => a.subject.localeCompare(b.subject));
+}
+
+/**
+ * Build a waterfall-ready trace from message-logger entries.
+ * The backend returns either a bare entry array or { trace_id, entries }.
+ */
+export function normalizeTrace(traceId: string, payload: unknown): TraceDetail {
+  const response = (payload ?? {}) as TraceResponse;
+  const entries: BackendMessageLogEntry[] = Array.isArray(payload)
+    ? payload
+    : Array.isArray(response.entries)
+      ? response.entries
+      : [];
+
+  const sorted = entries
+    .map((entry) => ({ entry, timestampMs: Date.parse(entry.timestamp) }))
+    .sort(
+      (a, b) =>
+        a.timestampMs - b.timestampMs || a.entry.sequence - b.entry.sequence,
+    );
+
+  const startMs = sorted[0]?.timestampMs ?? 0;
+  const hops = sorted.map(({ entry, timestampMs }, index): TraceHop => {
+    const previousMs = index > 0 ? sorted[index - 1].timestampMs : timestampMs;
+    const metadata = entry.metadata ?? undefined;
+
+    return {
+      index: index + 1,
+      sequence: entry.sequence,
+      timestamp: entry.timestamp,
+      timestampMs,
+      subject: entry.subject,
+      component: readString(metadata, "component") ?? "unknown",
+      direction: readString(metadata, "direction") ?? "processed",
+      messageType: entry.message_type,
+      messageId: entry.message_id,
+      spanId: entry.span_id,
+      summary: entry.summary,
+      offsetMs: safeDelta(timestampMs, startMs),
+      gapMs: safeDelta(timestampMs, previousMs),
+      metadata,
+    };
+  });
+
+  const last = hops[hops.length - 1];
+
+  return {
+    traceId: response.trace_id ?? traceId,
+    startTime: sorted[0]?.entry.timestamp ?? "",
+    durationMs: last ? last.offsetMs : 0,
+    hops,
+  };
+}
+
+async function request(
+  options: FetchTraceOptions,
+  url: string,
+  label: string,
+): Promise<unknown> {
+  const fetcher = options.fetcher ?? fetch;
+  const result = await fetchJson(fetcher, url, { cache: "no-store" });
+
+  if (!result.ok) {
+    throw new MessageLoggerApiError(
+      result.message ?? `${label} failed: ${result.statusText}`,
+      result.status,
+    );
+  }
+
+  return result.data;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function readString(
+  metadata: Record<string, unknown> | undefined,
+  key: string,
+): string | undefined {
+  const value = metadata?.[key];
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function safeDelta(a: number, b: number): number {
+  const delta = a - b;
+  return Number.isFinite(delta) && delta > 0 ? delta : 0;
+}
+
+async function fetchJson(
+  fetcher: Fetcher,
+  input: string,
+  init?: FetchInit,
+): Promise<{
+  ok: boolean;
+  status: number;
+  statusText: string;
+  data: unknown;
+  message?: string;
+}> {
+  try {
+    const response = await fetcher(input, init);
+    const data = await response.json().catch(() => null);
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      data,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      status: 0,
+      statusText: "Network Error",
+      data: null,
+      message: error instanceof Error ? error.message : "Network error",
+    };
+  }
+}
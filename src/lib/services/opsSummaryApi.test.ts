@@ -1,5 +1,9 @@
 import { describe, expect, it, vi } from "vitest";
-import { opsSummaryApi } from "./opsSummaryApi";
+import {
+  mergeLiveTrajectories,
+  opsSummaryApi,
+  type OpsTrajectoryItem,
+} from "./opsSummaryApi";
 
 function jsonResponse(
   body: unknown,
@@ -294,3 +298,38 @@ describe("opsSummaryApi", () => {
     expect(summary.source.status).toBe("degraded");
   });
 });
+
+describe("mergeLiveTrajectories", () => {
+  function item(loopId: string, outcome = "success"): OpsTrajectoryItem {
+    return {
+      loopId,
+      taskId: `task-${loopId}`,
+      role: "developer",
+      outcome,
+      startTime: "2026-07-06T00:00:00Z",
+      durationMs: 1000,
+      iterations: 1,
+    };
+  }
+
+  it("puts live completions first without double counting known loops", () => {
+    const merged = mergeLiveTrajectories(
+      {
+        status: "healthy",
+        message: "Trajectory endpoint is reachable",
+        total: 2,
+        items: [item("loop-1"), item("loop-2")],
+      },
+      [item("loop-3", "failed"), item("loop-1", "failed")],
+      3,
+    );
+
+    expect(merged.total).toBe(3);
+    expect(merged.items.map((entry) => [entry.loopId, entry.outcome])).toEqual([
+      ["loop-3", "failed"],
+      ["loop-1", "failed"],
+      ["loop-2", "success"],
+    ]);
+    expect(merged.message).toBe("Trajectory summaries are available");
+  });
+});
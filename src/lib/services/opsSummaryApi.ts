@@ -175,6 +175,38 @@ export const opsSummaryApi = {
   },
 };
 
+/**
+ * Fold trajectories observed on the live activity stream into a fetched
+ * summary, newest first. Loops the summary already lists are not counted
+ * twice.
+ */
+export function mergeLiveTrajectories(
+  summary: OpsTrajectorySummary,
+  live: OpsTrajectoryItem[],
+  limit = 5,
+): OpsTrajectorySummary {
+  if (live.length === 0) return summary;
+
+  const known = new Set(summary.items.map((item) => item.loopId));
+  const added = live.filter((item) => !known.has(item.loopId));
+  const liveIds = new Set(live.map((item) => item.loopId));
+  const total = summary.total + added.length;
+
+  return {
+    ...summary,
+    status: summary.status === "unavailable" ? summary.status : "healthy",
+    message:
+      summary.status === "unavailable"
+        ? summary.message
+        : "Trajectory summaries are available",
+    total,
+    items: [
+      ...live,
+      ...summary.items.filter((item) => !liveIds.has(item.loopId)),
+    ].slice(0, limit),
+  };
+}
+
 async function fetchHealth(fetcher: Fetcher): Promise<OpsEndpointSummary> {
   const result = await fetchJson(fetcher, "/health", { cache: "no-store" });
 
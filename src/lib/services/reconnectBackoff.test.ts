@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ReconnectBackoff } from "./reconnectBackoff";
+
+describe("ReconnectBackoff", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("doubles the delay on each attempt up to the cap", () => {
+    const backoff = new ReconnectBackoff({
+      maxAttempts: 10,
+      baseDelayMs: 1000,
+      maxDelayMs: 5000,
+    });
+    const retry = vi.fn();
+
+    expect(backoff.schedule(retry)).toBe(1000);
+    expect(backoff.schedule(retry)).toBe(2000);
+    expect(backoff.schedule(retry)).toBe(4000);
+    expect(backoff.schedule(retry)).toBe(5000);
+    expect(backoff.attempts).toBe(4);
+
+    // Each schedule replaces the pending retry
+    vi.advanceTimersByTime(5000);
+    expect(retry).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after maxAttempts until reset", () => {
+    const backoff = new ReconnectBackoff({ maxAttempts: 2 });
+    const retry = vi.fn();
+
+    backoff.schedule(retry);
+    backoff.schedule(retry);
+    expect(backoff.exhausted).toBe(true);
+    expect(backoff.schedule(retry)).toBeNull();
+
+    backoff.reset();
+    expect(backoff.exhausted).toBe(false);
+    expect(backoff.schedule(retry)).toBe(1000);
+  });
+
+  it("cancels a pending retry", () => {
+    const backoff = new ReconnectBackoff();
+    const retry = vi.fn();
+
+    backoff.schedule(retry);
+    backoff.cancel();
+    vi.advanceTimersByTime(60000);
+
+    expect(retry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,72 @@
+// Exponential reconnect backoff shared by the runtime WebSocket and
+// SSE-based streams (KV watch). Owns the attempt counter and retry timer so
+// each transport only decides *when* a connection is lost.
+
+export interface ReconnectBackoffOptions {
+  /** Attempts allowed before giving up (default: 5) */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles on each attempt (default: 1000ms) */
+  baseDelayMs?: number;
+  /** Upper bound for any single delay (default: 30000ms) */
+  maxDelayMs?: number;
+}
+
+export class ReconnectBackoff {
+  readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private attemptCount = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: ReconnectBackoffOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+  }
+
+  /** Retries scheduled since the last successful connection */
+  get attempts(): number {
+    return this.attemptCount;
+  }
+
+  /** True once every allowed retry has been used */
+  get exhausted(): boolean {
+    return this.attemptCount >= this.maxAttempts;
+  }
+
+  /**
+   * Schedule the next retry, replacing any pending one.
+   * Returns the delay used, or null when attempts are exhausted.
+   */
+  schedule(retry: () => void): number | null {
+    this.cancel();
+    if (this.exhausted) return null;
+
+    this.attemptCount++;
+    const delay = Math.min(
+      this.baseDelayMs * Math.pow(2, this.attemptCount - 1),
+      this.maxDelayMs,
+    );
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      retry();
+    }, delay);
+
+    return delay;
+  }
+
+  /** Cancel a pending retry without touching the attempt counter */
+  cancel(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Connection succeeded (or was restarted by the user): start over */
+  reset(): void {
+    this.cancel();
+    this.attemptCount = 0;
+  }
+}
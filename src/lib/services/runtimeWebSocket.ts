@@ -3,6 +3,7 @@
 
 import { runtimeStore, type LogLevel } from "$lib/stores/runtimeStore.svelte";
 import type { components } from "$lib/types/api.generated";
+import { ReconnectBackoff } from "./reconnectBackoff";
 
 // ============================================================================
 // Types from OpenAPI spec
@@ -40,10 +41,7 @@ export interface SubscribeOptions {
 class RuntimeWebSocketService {
   private ws: WebSocket | null = null;
   private flowId: string = "";
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000; // Start with 1s, exponential backoff
-  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private backoff = new ReconnectBackoff(); // 1s start, exponential, 5 attempts
   private intentionalClose = false;
   private pendingSubscription: SubscribeOptions | null = null;
 
@@ -63,7 +61,7 @@ class RuntimeWebSocketService {
 
     this.flowId = flowId;
     this.intentionalClose = false;
-    this.reconnectAttempts = 0;
+    this.backoff.reset();
 
     this.doConnect();
   }
@@ -82,8 +80,7 @@ class RuntimeWebSocketService {
 
       this.ws.onopen = () => {
         console.log("[RuntimeWS] Connected");
-        this.reconnectAttempts = 0;
-        this.reconnectDelay = 1000;
+        this.backoff.reset();
         runtimeStore.setConnected(true, this.flowId);
 
         // Send any pending subscription
@@ -107,12 +104,9 @@ class RuntimeWebSocketService {
         runtimeStore.setConnected(false);
 
         // Attempt reconnection if not intentionally closed
-        if (
-          !this.intentionalClose &&
-          this.reconnectAttempts < this.maxReconnectAttempts
-        ) {
+        if (!this.intentionalClose && !this.backoff.exhausted) {
           this.scheduleReconnect();
-        } else if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+        } else if (this.backoff.exhausted) {
           runtimeStore.setError(
             "Connection lost. Max reconnect attempts reached.",
           );
@@ -125,23 +119,13 @@ class RuntimeWebSocketService {
   }
 
   private scheduleReconnect(): void {
-    if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
-    }
-
-    this.reconnectAttempts++;
-    const delay = Math.min(
-      this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1),
-      30000,
-    );
+    const delay = this.backoff.schedule(() => {
+      this.doConnect();
+    });
 
     console.log(
-      `[RuntimeWS] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`,
+      `[RuntimeWS] Reconnecting in ${delay}ms (attempt ${this.backoff.attempts}/${this.backoff.maxAttempts})`,
     );
-
-    this.reconnectTimer = setTimeout(() => {
-      this.doConnect();
-    }, delay);
   }
 
   /**
@@ -151,10 +135,7 @@ class RuntimeWebSocketService {
     console.log("[RuntimeWS] Disconnecting");
     this.intentionalClose = true;
 
-    if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
-      this.reconnectTimer = null;
-    }
+    this.backoff.cancel();
 
     if (this.ws) {
       this.ws.close(1000, "Client disconnect");
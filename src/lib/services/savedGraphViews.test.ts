@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from "vitest";
+import { DEFAULT_GRAPH_FILTERS } from "$lib/types/graph";
+import type { ExplorerState } from "$lib/utils/explorer-state";
+import {
+  createSavedView,
+  createSavedViewStore,
+  savedViewState,
+} from "./savedGraphViews";
+
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+}
+
+const state: ExplorerState = {
+  filters: { ...DEFAULT_GRAPH_FILTERS, types: ["drone"], minConfidence: 0.5 },
+  selectedEntityId: "c360.ops.robotics.gcs.drone.001",
+  expandedEntityIds: ["c360.ops.robotics.gcs.drone.001"],
+  camera: { x: 0.5, y: 0.5, ratio: 2, angle: 0 },
+};
+
+describe("createSavedView", () => {
+  it("stores the state as a query string that restores it", () => {
+    const view = createSavedView("  Drones  ", state);
+
+    expect(view.name).toBe("Drones");
+    expect(view.query).toContain("type=drone");
+    expect(savedViewState(view)).toEqual(state);
+  });
+});
+
+describe("createSavedViewStore", () => {
+  it("stores views sorted by name and replaces views with the same name", () => {
+    const store = createSavedViewStore(memoryStorage());
+
+    store.save(createSavedView("Zeta", state));
+    store.save(createSavedView("Alpha", state));
+    const views = store.save({
+      ...createSavedView("Zeta", state),
+      query: "sel=other",
+    });
+
+    expect(views.map((view) => view.name)).toEqual(["Alpha", "Zeta"]);
+    expect(store.list()[1].query).toBe("sel=other");
+    expect(store.remove("Alpha").map((view) => view.name)).toEqual(["Zeta"]);
+  });
+
+  it("drops malformed entries", () => {
+    const storage = memoryStorage();
+    storage.setItem(
+      "semstreams-graph-views",
+      JSON.stringify([
+        { name: "ok", query: "", savedAt: "2026-01-01T00:00:00.000Z" },
+        { name: 42 },
+      ]),
+    );
+
+    expect(createSavedViewStore(storage).list()).toHaveLength(1);
+  });
+
+  it("keeps working when storage is unreadable", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const store = createSavedViewStore({
+      getItem: () => "not json",
+      setItem: () => {},
+    });
+
+    expect(store.list()).toEqual([]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
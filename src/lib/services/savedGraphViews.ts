@@ -0,0 +1,102 @@
+// Saved graph views
+// Named explorer states kept in localStorage. A view stores the same query
+// string a shared link carries, so applying one is the same as opening the link.
+
+import {
+  decodeExplorerState,
+  encodeExplorerState,
+  type ExplorerState,
+} from "$lib/utils/explorer-state";
+
+const STORAGE_KEY = "semstreams-graph-views";
+
+export interface SavedGraphView {
+  /** Unique; saving under an existing name replaces that view */
+  name: string;
+  /** Explorer query string, without the leading "?" */
+  query: string;
+  /** ISO 8601 */
+  savedAt: string;
+}
+
+type ViewStorage = Pick<Storage, "getItem" | "setItem">;
+
+function browserStorage(): ViewStorage | null {
+  return typeof window === "undefined" ? null : window.localStorage;
+}
+
+export function createSavedView(
+  name: string,
+  state: ExplorerState,
+): SavedGraphView {
+  return {
+    name: name.trim(),
+    query: encodeExplorerState(state).toString(),
+    savedAt: new Date().toISOString(),
+  };
+}
+
+export function savedViewState(view: SavedGraphView): ExplorerState {
+  return decodeExplorerState(new URLSearchParams(view.query));
+}
+
+function isSavedView(value: unknown): value is SavedGraphView {
+  const view = value as Partial<SavedGraphView> | null;
+  return (
+    typeof view?.name === "string" &&
+    typeof view.query === "string" &&
+    typeof view.savedAt === "string"
+  );
+}
+
+/** Saved view list kept in localStorage */
+export interface SavedGraphViewStore {
+  list(): SavedGraphView[];
+  /** Add a view, replacing one with the same name */
+  save(view: SavedGraphView): SavedGraphView[];
+  remove(name: string): SavedGraphView[];
+}
+
+export function createSavedViewStore(
+  storage: ViewStorage | null = browserStorage(),
+): SavedGraphViewStore {
+  const read = (): SavedGraphView[] => {
+    if (!storage) return [];
+    try {
+      const stored = storage.getItem(STORAGE_KEY);
+      const parsed: unknown = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed) ? parsed.filter(isSavedView) : [];
+    } catch (e) {
+      console.warn("Failed to load graph views from localStorage:", e);
+      return [];
+    }
+  };
+
+  const write = (views: SavedGraphView[]) => {
+    if (!storage) return;
+    try {
+      storage.setItem(STORAGE_KEY, JSON.stringify(views));
+    } catch (e) {
+      console.warn("Failed to save graph views to localStorage:", e);
+    }
+  };
+
+  return {
+    list: read,
+
+    save(view) {
+      const views = [
+        ...read().filter((existing) => existing.name !== view.name),
+        view,
+      ].sort((a, b) => a.name.localeCompare(b.name));
+      write(views);
+      return views;
+    },
+
+    remove(name) {
+      const views = read().filter((existing) => existing.name !== name);
+      write(views);
+      return views;
+    },
+  };
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  WorkflowApiError,
+  allowedTransitions,
+  normalizeWorkflowType,
+  workflowApi,
+} from "./workflowApi";
+
+function jsonResponse(
+  body: unknown,
+  status = 200,
+  statusText = "OK",
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText,
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+describe("workflowApi", () => {
+  it("lists workflow types with declared phases, edges and counts", async () => {
+    const fetcher = vi.fn(async () =>
+      jsonResponse({
+        workflows: [
+          {
+            workflow: "review",
+            phases: ["draft", "review", "approved", "rejected"],
+            transitions: {
+              draft: ["review"],
+              review: ["approved", "rejected", "draft"],
+            },
+            counts: { draft: 2, review: 1 },
+          },
+          {
+            workflow: "audit",
+            counts_error: "list failed",
+          },
+        ],
+      }),
+    );
+
+    const types = await workflowApi.listTypes({ fetcher });
+
+    expect(fetcher).toHaveBeenCalledWith("/workflows", { cache: "no-store" });
+    expect(types.map((type) => type.type)).toEqual(["audit", "review"]);
+    expect(types[0].countsError).toBe("list failed");
+    expect(types[1]).toMatchObject({
+      total: 3,
+      terminalPhases: ["approved", "rejected"],
+    });
+    expect(types[1].transitions).toContainEqual({
+      from: "review",
+      to: "draft",
+    });
+  });
+
+  it("lists instances with filters and URL-encoded path segments", async () => {
+    const fetcher = vi.fn(async () =>
+      jsonResponse([
+        {
+          entity_id: "doc/1",
+          phase: "review",
+          parent_entity_id: "batch-1",
+          updated_at: "2026-07-06T00:00:00Z",
+        },
+      ]),
+    );
+
+    const instances = await workflowApi.listInstances(
+      "review flow",
+      { phase: "review", active: true, limit: 20 },
+      { fetcher },
+    );
+
+    expect(fetcher).toHaveBeenCalledWith(
+      "/workflows/review%20flow?phase=review&active=true&limit=20",
+      { cache: "no-store" },
+    );
+    expect(instances[0]).toMatchObject({
+      entityId: "doc/1",
+      workflow: "review flow",
+      phase: "review",
+      parentEntityId: "batch-1",
+    });
+  });
+
+  it("normalizes transition history sources and notes", async () => {
+    const fetcher = vi.fn(async () =>
+      jsonResponse([
+        {
+          from: "draft",
+          to: "review",
+          timestamp: "2026-07-06T00:00:00Z",
+          source: "Operator",
+          note: "manual bump",
+        },
+        { from: "", to: "draft", timestamp: "2026-07-05T00:00:00Z" },
+      ]),
+    );
+
+    const history = await workflowApi.fetchHistory("review", "doc/1", {
+      fetcher,
+    });
+
+    expect(fetcher).toHaveBeenCalledWith("/workflows/review/doc%2F1/history", {
+      cache: "no-store",
+    });
+    expect(history[0]).toMatchObject({
+      source: "operator",
+      note: "manual bump",
+    });
+    expect(history[1]).toMatchObject({ source: "unknown", note: undefined });
+  });
+
+  it("posts operator transitions and surfaces backend rejections", async () => {
+    const fetcher = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(jsonResponse({ phase: "approved" }))
+      .mockResolvedValueOnce(
+        jsonResponse(
+          { error: "edge approved -> draft is not declared" },
+          400,
+          "Bad Request",
+        ),
+      );
+
+    await workflowApi.transition(
+      "review",
+      "doc-1",
+      { phase: "approved", note: "looks good" },
+      { fetcher },
+    );
+
+    expect(fetcher).toHaveBeenCalledWith("/workflows/review/doc-1/transition", {
+      cache: "no-store",
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ phase: "approved", note: "looks good" }),
+    });
+
+    await expect(
+      workflowApi.transition(
+        "review",
+        "doc-1",
+        { phase: "draft" },
+        { fetcher },
+      ),
+    ).rejects.toMatchObject({
+      name: "WorkflowApiError",
+      statusCode: 400,
+      message: "edge approved -> draft is not declared",
+    });
+  });
+
+  it("throws a structured error when the workflow is not registered", async () => {
+    const fetcher = vi.fn(async () => jsonResponse(null, 404, "Not Found"));
+
+    await expect(
+      workflowApi.listInstances("missing", {}, { fetcher }),
+    ).rejects.toBeInstanceOf(WorkflowApiError);
+  });
+});
+
+describe("allowedTransitions", () => {
+  const workflow = normalizeWorkflowType({
+    workflow: "review",
+    transitions: [
+      { from: "draft", to: "review" },
+      { from: "review", to: "approved" },
+      { from: "review", to: "draft" },
+    ],
+    terminal_phases: ["approved"],
+  });
+
+  it("offers only declared edges out of the current phase", () => {
+    expect(allowedTransitions(workflow, "review")).toEqual([
+      "approved",
+      "draft",
+    ]);
+    expect(allowedTransitions(workflow, "draft")).toEqual(["review"]);
+  });
+
+  it("offers nothing from terminal or unknown phases", () => {
+    expect(allowedTransitions(workflow, "approved")).toEqual([]);
+    expect(allowedTransitions(workflow, "archived")).toEqual([]);
+  });
+});
@@ -0,0 +1,409 @@
+import type { components } from "$lib/types/api.generated";
+
+// Workflow Manager endpoints are proxied as-is (/workflows, /workflows/*);
+// the console page lives at /workflow-console so it does not collide.
+const API_BASE = "/workflows";
+
+type BackendTransitionRequest = components["schemas"]["TransitionRequest"];
+type BackendStatePatchRequest = components["schemas"]["StatePatchRequest"];
+
+type Fetcher = typeof fetch;
+type FetchInit = Parameters<Fetcher>[1];
+
+export type TransitionSource =
+  | "rule"
+  | "operator"
+  | "component"
+  | "framework"
+  | "unknown";
+
+export interface WorkflowEdge {
+  from: string;
+  to: string;
+}
+
+export interface WorkflowTypeSummary {
+  type: string;
+  /** Declared phases in declaration order */
+  phases: string[];
+  /** Declared transition edges (the workflow's Transitions table) */
+  transitions: WorkflowEdge[];
+  terminalPhases: string[];
+  initialPhase?: string;
+  /** Instance count per phase */
+  counts: Record<string, number>;
+  total: number;
+  /** Set when the Manager could not count instances for this type */
+  countsError?: string;
+}
+
+export interface WorkflowParticipant {
+  entityId: string;
+  workflow: string;
+  phase: string;
+  parentEntityId?: string;
+  updatedAt?: string;
+  /** Full participant state as returned by the backend */
+  state: Record<string, unknown>;
+}
+
+export interface WorkflowTransitionEvent {
+  from: string;
+  to: string;
+  timestamp: string;
+  source: TransitionSource;
+  note?: string;
+  revision?: number;
+}
+
+export interface ListInstancesOptions {
+  phase?: string;
+  active?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface WorkflowRequestOptions {
+  fetcher?: Fetcher;
+}
+
+export class WorkflowApiError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+  ) {
+    super(message);
+    this.name = "WorkflowApiError";
+  }
+}
+
+interface BackendWorkflowType {
+  workflow?: string;
+  type?: string;
+  name?: string;
+  phases?: string[] | null;
+  transitions?:
+    | Record<string, string[] | null>
+    | Array<{ from?: string; to?: string }>
+    | null;
+  terminal?: string[] | null;
+  terminal_phases?: string[] | null;
+  initial?: string;
+  initial_phase?: string;
+  counts?: Record<string, number> | null;
+  total?: number;
+  counts_error?: string;
+}
+
+interface BackendParticipant {
+  entity_id?: string;
+  id?: string;
+  workflow?: string;
+  phase?: string;
+  parent_entity_id?: string;
+  updated_at?: string;
+  [key: string]: unknown;
+}
+
+interface BackendTransitionEvent {
+  from?: string;
+  to?: string;
+  timestamp?: string;
+  source?: string;
+  note?: string;
+  revision?: number;
+}
+
+export const workflowApi = {
+  async listTypes(
+    options: WorkflowRequestOptions = {},
+  ): Promise<WorkflowTypeSummary[]> {
+    const data = await request(options, API_BASE, "Workflow list");
+    return unwrapList<BackendWorkflowType>(data, "workflows")
+      .map(normalizeWorkflowType)
+      .sort((a, b) => a.type.localeCompare(b.type));
+  },
+
+  async listInstances(
+    type: string,
+    query: ListInstancesOptions = {},
+    options: WorkflowRequestOptions = {},
+  ): Promise<WorkflowParticipant[]> {
+    const params = new URLSearchParams();
+    if (query.phase) params.set("phase", query.phase);
+    if (query.active !== undefined) params.set("active", String(query.active));
+    if (query.limit !== undefined) params.set("limit", String(query.limit));
+    if (query.offset !== undefined) params.set("offset", String(query.offset));
+
+    const search = params.toString();
+    const data = await request(
+      options,
+      `${typeUrl(type)}${search ? `?${search}` : ""}`,
+      "Workflow instances",
+    );
+    return unwrapList<BackendParticipant>(data, "instances").map((item) =>
+      normalizeParticipant(item, type),
+    );
+  },
+
+  async fetchState(
+    type: string,
+    id: string,
+    options: WorkflowRequestOptions = {},
+  ): Promise<WorkflowParticipant> {
+    const data = await request(
+      options,
+      instanceUrl(type, id),
+      "Workflow state",
+    );
+    return normalizeParticipant((data ?? {}) as BackendParticipant, type);
+  },
+
+  async fetchHistory(
+    type: string,
+    id: string,
+    options: WorkflowRequestOptions = {},
+  ): Promise<WorkflowTransitionEvent[]> {
+    const data = await request(
+      options,
+      `${instanceUrl(type, id)}/history`,
+      "Workflow history",
+    );
+    return unwrapList<BackendTransitionEvent>(data, "history").map(
+      normalizeTransitionEvent,
+    );
+  },
+
+  async fetchChildren(
+    type: string,
+    id: string,
+    options: WorkflowRequestOptions = {},
+  ): Promise<WorkflowParticipant[]> {
+    const data = await request(
+      options,
+      `${instanceUrl(type, id)}/children`,
+      "Workflow children",
+    );
+    return unwrapList<BackendParticipant>(data, "children").map((item) =>
+      normalizeParticipant(item, item.workflow ?? ""),
+    );
+  },
+
+  /**
+   * Operator-initiated transition. The backend rejects undeclared edges and
+   * terminal phases with 400; callers should offer only allowedTransitions().
+   */
+  async transition(
+    type: string,
+    id: string,
+    body: BackendTransitionRequest,
+    options: WorkflowRequestOptions = {},
+  ): Promise<void> {
+    await request(
+      options,
+      `${instanceUrl(type, id)}/transition`,
+      "Transition",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      },
+    );
+  },
+
+  /** Operator patch of operator_writable fields */
+  async patchState(
+    type: string,
+    id: string,
+    patch: BackendStatePatchRequest,
+    options: WorkflowRequestOptions = {},
+  ): Promise<void> {
+    await request(options, `${instanceUrl(type, id)}/state`, "State patch", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(patch),
+    });
+  },
+};
+
+/**
+ * Target phases an operator may move a participant to from its current phase.
+ * Only declared edges are offered, and terminal phases offer none.
+ */
+export function allowedTransitions(
+  workflow: WorkflowTypeSummary,
+  currentPhase: string,
+): string[] {
+  if (workflow.terminalPhases.includes(currentPhase)) return [];
+  return workflow.transitions
+    .filter((edge) => edge.from === currentPhase)
+    .map((edge) => edge.to);
+}
+
+export function normalizeWorkflowType(
+  payload: BackendWorkflowType,
+): WorkflowTypeSummary {
+  const transitions = normalizeEdges(payload.transitions);
+  const counts = payload.counts ?? {};
+
+  // Phases may be implied by the transitions table or the count map
+  const phases: string[] = [];
+  const addPhase = (phase: string | undefined) => {
+    if (phase && !phases.includes(phase)) phases.push(phase);
+  };
+  (payload.phases ?? []).forEach(addPhase);
+  addPhase(payload.initial_phase ?? payload.initial);
+  transitions.forEach((edge) => {
+    addPhase(edge.from);
+    addPhase(edge.to);
+  });
+  Object.keys(counts).forEach(addPhase);
+
+  // Without an explicit list, phases with no outgoing edge are terminal
+  const terminalPhases =
+    payload.terminal_phases ??
+    payload.terminal ??
+    (transitions.length > 0
+      ? phases.filter(
+          (phase) => !transitions.some((edge) => edge.from === phase),
+        )
+      : []);
+
+  return {
+    type: payload.workflow ?? payload.type ?? payload.name ?? "unknown",
+    phases,
+    transitions,
+    terminalPhases,
+    initialPhase: payload.initial_phase ?? payload.initial,
+    counts,
+    total:
+      payload.total ??
+      Object.values(counts).reduce((sum, count) => sum + count, 0),
+    countsError: payload.counts_error,
+  };
+}
+
+export function normalizeParticipant(
+  payload: BackendParticipant,
+  fallbackWorkflow: string,
+): WorkflowParticipant {
+  return {
+    entityId: payload.entity_id ?? payload.id ?? "unknown",
+    workflow: payload.workflow ?? fallbackWorkflow,
+    phase: payload.phase ?? "unknown",
+    parentEntityId: payload.parent_entity_id || undefined,
+    updatedAt: payload.updated_at,
+    state: payload,
+  };
+}
+
+function normalizeTransitionEvent(
+  payload: BackendTransitionEvent,
+): WorkflowTransitionEvent {
+  const source = payload.source?.toLowerCase();
+
+  return {
+    from: payload.from ?? "",
+    to: payload.to ?? "",
+    timestamp: payload.timestamp ?? "",
+    source:
+      source === "rule" ||
+      source === "operator" ||
+      source === "component" ||
+      source === "framework"
+        ? source
+        : "unknown",
+    note: payload.note || undefined,
+    revision: payload.revision,
+  };
+}
+
+function normalizeEdges(
+  transitions: BackendWorkflowType["transitions"],
+): WorkflowEdge[] {
+  if (!transitions) return [];
+  if (Array.isArray(transitions)) {
+    return transitions
+      .filter((edge) => edge.from && edge.to)
+      .map((edge) => ({ from: edge.from!, to: edge.to! }));
+  }
+  return Object.entries(transitions).flatMap(([from, targets]) =>
+    (targets ?? []).map((to) => ({ from, to })),
+  );
+}
+
+function unwrapList<T>(payload: unknown, key: string): T[] {
+  if (Array.isArray(payload)) return payload as T[];
+  const wrapped = (payload as Record<string, unknown> | null)?.[key];
+  return Array.isArray(wrapped) ? (wrapped as T[]) : [];
+}
+
+function typeUrl(type: string): string {
+  return `${API_BASE}/${encodeURIComponent(type)}`;
+}
+
+function instanceUrl(type: string, id: string): string {
+  return `${typeUrl(type)}/${encodeURIComponent(id)}`;
+}
+
+async function request(
+  options: WorkflowRequestOptions,
+  url: string,
+  label: string,
+  init: FetchInit = {},
+): Promise<unknown> {
+  const fetcher = options.fetcher ?? fetch;
+  const result = await fetchJson(fetcher, url, { cache: "no-store", ...init });
+
+  if (!result.ok) {
+    throw new WorkflowApiError(
+      result.message ??
+        readErrorDetail(result.data) ??
+        `${label} failed: ${result.statusText}`,
+      result.status,
+    );
+  }
+
+  return result.data;
+}
+
+/** Backend validation errors (e.g. undeclared edge) carry the reason in the body */
+function readErrorDetail(data: unknown): string | undefined {
+  if (!data || typeof data !== "object") return undefined;
+  const body = data as { error?: unknown; message?: unknown };
+  if (typeof body.error === "string" && body.error) return body.error;
+  if (typeof body.message === "string" && body.message) return body.message;
+  return undefined;
+}
+
+async function fetchJson(
+  fetcher: Fetcher,
+  input: string,
+  init?: FetchInit,
+): Promise<{
+  ok: boolean;
+  status: number;
+  statusText: string;
+  data: unknown;
+  message?: string;
+}> {
+  try {
+    const response = await fetcher(input, init);
+    const data = await response.json().catch(() => null);
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      statusText: response.statusText,
+      data,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      status: 0,
+      statusText: "Network Error",
+      data: null,
+      message: error instanceof Error ? error.message : "Network error",
+    };
+  }
+}
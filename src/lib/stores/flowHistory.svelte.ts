@@ -12,6 +12,7 @@
  * - Clear history
  * - Get current state
  * - Check undo/redo availability
+ * - Labelled entries and jumping to any recorded state
  *
  * Usage:
  * ```typescript
@@ -19,8 +20,8 @@
  *
  * const history = createFlowHistoryStore(10);
  *
- * // Push a flow state
- * history.push(currentFlow);
+ * // Push a flow state, labelled for the history list
+ * history.push(currentFlow, 'Deleted node "udp-input"');
  *
  * // Undo to previous state
  * const previousFlow = history.pop();
@@ -28,6 +29,9 @@
  * // Redo to next state
  * const nextFlow = history.redo();
  *
+ * // Jump straight to an earlier (or later) recorded state
+ * const olderFlow = history.jumpTo(0);
+ *
  * // Check availability
  * if (history.canUndo()) {
  *   // Undo is available
@@ -37,6 +41,16 @@
 
 import type { Flow } from "$lib/types/flow";
 
+/**
+ * Labelled history entry, for listing recorded states
+ */
+export interface FlowHistoryEntry {
+  /** Position in the history stack */
+  index: number;
+  /** Description of the change that produced this state */
+  label: string;
+}
+
 /**
  * Flow history store interface
  */
@@ -50,8 +64,11 @@ export interface FlowHistoryStore {
   /** Maximum history stack size */
   readonly maxSize: number;
 
+  /** Labelled entries, oldest first */
+  readonly entries: FlowHistoryEntry[];
+
   /** Push new flow state to history */
-  push: (flow: Flow) => void;
+  push: (flow: Flow, label?: string) => void;
 
   /** Pop/undo to previous state */
   pop: () => Flow | undefined;
@@ -59,6 +76,9 @@ export interface FlowHistoryStore {
   /** Redo to next state (if available) */
   redo: () => Flow | undefined;
 
+  /** Move to any recorded state (if it exists) */
+  jumpTo: (index: number) => Flow | undefined;
+
   /** Get current flow state */
   getCurrent: () => Flow | undefined;
 
@@ -92,19 +112,28 @@ function deepClone<T>(obj: T): T {
 export function createFlowHistoryStore(maxSize = 10): FlowHistoryStore {
   // Use plain arrays to avoid $state proxy issues with structuredClone
   let historyStack: Flow[] = [];
+  let labels: string[] = [];
   let index = -1;
+  // Bumped on every change so runes consumers re-read the plain arrays
+  let version = $state(0);
 
   return {
     // Getters for history state
     get history() {
+      void version;
       return historyStack;
     },
     get currentIndex() {
+      void version;
       return index;
     },
     get maxSize() {
       return maxSize;
     },
+    get entries() {
+      void version;
+      return labels.map((label, entryIndex) => ({ index: entryIndex, label }));
+    },
 
     /**
      * Push a new flow state to history
@@ -114,22 +143,26 @@ export function createFlowHistoryStore(maxSize = 10): FlowHistoryStore {
      * - Enforces max size by removing oldest states
      * - Deep clones the flow to preserve immutability
      */
-    push(flow: Flow) {
+    push(flow: Flow, label = "Edit") {
       // Remove any history after current index (for branching)
       historyStack = historyStack.slice(0, index + 1);
+      labels = labels.slice(0, index + 1);
 
       // Deep clone the flow to preserve immutability
       const clonedFlow = deepClone(flow);
 
       // Add new state
       historyStack.push(clonedFlow);
+      labels.push(label);
       index++;
 
       // Enforce max size (keep most recent states)
       if (historyStack.length > maxSize) {
         historyStack.shift();
+        labels.shift();
         index--;
       }
+      version++;
     },
 
     /**
@@ -143,6 +176,7 @@ export function createFlowHistoryStore(maxSize = 10): FlowHistoryStore {
       }
 
       index--;
+      version++;
       return deepClone(historyStack[index]);
     },
 
@@ -157,6 +191,22 @@ export function createFlowHistoryStore(maxSize = 10): FlowHistoryStore {
       }
 
       index++;
+      version++;
+      return deepClone(historyStack[index]);
+    },
+
+    /**
+     * Move to any recorded state, keeping forward history for redo
+     *
+     * @returns Flow state at that position (deep cloned), or undefined if out of range
+     */
+    jumpTo(target: number): Flow | undefined {
+      if (target < 0 || target >= historyStack.length) {
+        return undefined;
+      }
+
+      index = target;
+      version++;
       return deepClone(historyStack[index]);
     },
 
@@ -178,6 +228,7 @@ export function createFlowHistoryStore(maxSize = 10): FlowHistoryStore {
      * @returns True if there is a previous state to undo to
      */
     canUndo(): boolean {
+      void version;
       return index > 0;
     },
 
@@ -187,6 +238,7 @@ export function createFlowHistoryStore(maxSize = 10): FlowHistoryStore {
      * @returns True if there is a next state to redo to
      */
     canRedo(): boolean {
+      void version;
       return index < historyStack.length - 1;
     },
 
@@ -197,7 +249,9 @@ export function createFlowHistoryStore(maxSize = 10): FlowHistoryStore {
      */
     clear() {
       historyStack = [];
+      labels = [];
       index = -1;
+      version++;
     },
 
     /**
@@ -206,6 +260,7 @@ export function createFlowHistoryStore(maxSize = 10): FlowHistoryStore {
      * @returns Number of states in history
      */
     size(): number {
+      void version;
       return historyStack.length;
     },
   };
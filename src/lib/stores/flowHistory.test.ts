@@ -680,3 +680,78 @@ describe("Flow History Store - Edge Cases", () => {
     expect(originalFlow.nodes[0].name).toBe("Node 1");
   });
 });
+
+describe("Flow History Store - Labelled Entries", () => {
+  it("should label entries and default unlabelled pushes to Edit", () => {
+    const store = createFlowHistoryStore();
+
+    store.push(createTestFlow("flow-1", "Flow 1"), "Opened flow");
+    store.push(createTestFlow("flow-2", "Flow 2"));
+
+    expect(store.entries).toEqual([
+      { index: 0, label: "Opened flow" },
+      { index: 1, label: "Edit" },
+    ]);
+  });
+
+  it("should drop labels of undone states when branching", () => {
+    const store = createFlowHistoryStore();
+
+    store.push(createTestFlow("flow-1", "Flow 1"), "Opened flow");
+    store.push(createTestFlow("flow-2", "Flow 2"), 'Deleted "a"');
+    store.pop();
+    store.push(createTestFlow("flow-3", "Flow 3"), 'Edited "b"');
+
+    expect(store.entries.map((entry) => entry.label)).toEqual([
+      "Opened flow",
+      'Edited "b"',
+    ]);
+  });
+
+  it("should keep labels aligned when trimming to max size", () => {
+    const store = createFlowHistoryStore(2);
+
+    store.push(createTestFlow("flow-1", "Flow 1"), "first");
+    store.push(createTestFlow("flow-2", "Flow 2"), "second");
+    store.push(createTestFlow("flow-3", "Flow 3"), "third");
+
+    expect(store.entries).toEqual([
+      { index: 0, label: "second" },
+      { index: 1, label: "third" },
+    ]);
+    expect(store.getCurrent()?.id).toBe("flow-3");
+  });
+});
+
+describe("Flow History Store - Jump Operation", () => {
+  let store: ReturnType<typeof createFlowHistoryStore>;
+
+  beforeEach(() => {
+    store = createFlowHistoryStore();
+    for (let i = 1; i <= 4; i++) {
+      store.push(createTestFlow(`flow-${i}`, `Flow ${i}`));
+    }
+  });
+
+  it("should jump back to an earlier state and keep forward history", () => {
+    const flow = store.jumpTo(1);
+
+    expect(flow?.id).toBe("flow-2");
+    expect(store.currentIndex).toBe(1);
+    expect(store.canRedo()).toBe(true);
+    expect(store.redo()?.id).toBe("flow-3");
+  });
+
+  it("should jump forward to an undone state", () => {
+    store.jumpTo(0);
+
+    expect(store.jumpTo(3)?.id).toBe("flow-4");
+    expect(store.canRedo()).toBe(false);
+  });
+
+  it("should ignore out-of-range positions", () => {
+    expect(store.jumpTo(-1)).toBeUndefined();
+    expect(store.jumpTo(4)).toBeUndefined();
+    expect(store.currentIndex).toBe(3);
+  });
+});
@@ -266,14 +266,18 @@ function createGraphStore() {
         );
       }
 
-      // Time range filter
+      // Time range filter: keep entities with any fact (property or
+      // relationship) recorded in the range
       if (filters.timeRange) {
         const [start, end] = filters.timeRange;
-        result = result.filter((e) => {
-          return e.properties.some(
-            (p) => p.timestamp >= start && p.timestamp <= end,
-          );
-        });
+        const inRange = (fact: { timestamp: number }) =>
+          fact.timestamp >= start && fact.timestamp <= end;
+        result = result.filter(
+          (e) =>
+            e.properties.some(inRange) ||
+            e.outgoing.some(inRange) ||
+            e.incoming.some(inRange),
+        );
       }
 
       return result;
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { graphStore, buildGraphEntity } from "./graphStore.svelte";
+
+beforeEach(() => {
+  graphStore.reset();
+});
+
+const SENSOR = "org.platform.default.system.sensor.s1";
+const ROOM = "org.platform.default.system.room.r1";
+
+describe("graphStore — time range filter", () => {
+  it("keeps entities with a property or relationship in range", () => {
+    const located = {
+      id: `${SENSOR}:located_in:${ROOM}`,
+      sourceId: SENSOR,
+      targetId: ROOM,
+      predicate: "located_in",
+      confidence: 1,
+      timestamp: 500,
+    };
+    graphStore.upsertEntities([
+      buildGraphEntity({
+        id: SENSOR,
+        properties: [
+          {
+            predicate: "status",
+            object: "ok",
+            confidence: 1,
+            source: "test",
+            timestamp: 100,
+          },
+        ],
+        outgoing: [located],
+        incoming: [],
+      }),
+      // Only known through the relationship
+      buildGraphEntity({
+        id: ROOM,
+        properties: [],
+        outgoing: [],
+        incoming: [located],
+      }),
+    ]);
+
+    graphStore.setFilters({ timeRange: [0, 200] });
+    expect(graphStore.getFilteredEntities().map((e) => e.id)).toEqual([SENSOR]);
+
+    graphStore.setFilters({ timeRange: [400, 600] });
+    expect(graphStore.getFilteredEntities().map((e) => e.id)).toEqual([
+      SENSOR,
+      ROOM,
+    ]);
+    expect(graphStore.getFilteredRelationships()).toEqual([located]);
+  });
+});
@@ -0,0 +1,197 @@
+// Loop activity store using Svelte 5 runes
+// Shares one /activity EventSource between the ops console consumers and
+// keeps the live loop list, recent trajectories, and completion toasts
+
+import { SvelteSet } from "svelte/reactivity";
+import {
+  subscribeActivity,
+  type ActivityStreamOptions,
+  type ActivityStreamStatus,
+} from "$lib/services/activityStream";
+import {
+  applyActivityEvent,
+  isLoopActive,
+  type AgentLoop,
+  type LoopActivityEvent,
+} from "$lib/services/loopApi";
+import type { OpsTrajectoryItem } from "$lib/services/opsSummaryApi";
+
+export type LoopActivityStatus = ActivityStreamStatus | "idle";
+
+export interface LoopCompletion {
+  id: string;
+  loopId: string;
+  outcome: string;
+  label: string;
+  completedAt: string;
+}
+
+export interface LoopActivityStoreOptions {
+  subscribe?: (options: ActivityStreamOptions) => () => void;
+  /** How long a completion toast stays up; 0 keeps it until dismissed */
+  toastDurationMs?: number;
+  /** Number of completed trajectories retained for the ops summary */
+  trajectoryLimit?: number;
+}
+
+export function createLoopActivityStore(
+  options: LoopActivityStoreOptions = {},
+) {
+  const {
+    subscribe = subscribeActivity,
+    toastDurationMs = 8000,
+    trajectoryLimit = 20,
+  } = options;
+
+  let status = $state<LoopActivityStatus>("idle");
+  let loops = $state<AgentLoop[]>([]);
+  let trajectories = $state<OpsTrajectoryItem[]>([]);
+  let completions = $state<LoopCompletion[]>([]);
+
+  const listeners = new SvelteSet<ActivityStreamOptions>();
+  // First sighting per loop, so short-lived loops still get a duration.
+  // Internal bookkeeping only, dropped once the loop completes.
+  // eslint-disable-next-line svelte/prefer-svelte-reactivity -- never rendered
+  const startedAt = new Map<string, string>();
+  let connections = 0;
+  let unsubscribe: (() => void) | null = null;
+
+  function handleEvent(event: LoopActivityEvent) {
+    if (!startedAt.has(event.loopId)) {
+      startedAt.set(event.loopId, event.loop?.createdAt ?? event.timestamp);
+    }
+
+    loops = applyActivityEvent(loops, event);
+
+    if (event.type === "loop_completed") {
+      const loop = loops.find((item) => item.loopId === event.loopId);
+      if (loop) recordCompletion(loop, event.timestamp);
+      startedAt.delete(event.loopId);
+    } else if (event.type === "loop_deleted") {
+      startedAt.delete(event.loopId);
+    }
+
+    for (const listener of listeners) listener.onEvent(event);
+  }
+
+  function handleStatus(next: ActivityStreamStatus) {
+    status = next;
+    for (const listener of listeners) listener.onStatus?.(next);
+  }
+
+  function recordCompletion(loop: AgentLoop, timestamp: string) {
+    const completedAt = loop.completedAt ?? timestamp;
+    const startTime = startedAt.get(loop.loopId) ?? completedAt;
+    const durationMs = Date.parse(completedAt) - Date.parse(startTime);
+    const outcome = loop.outcome ?? "unknown";
+
+    trajectories = [
+      {
+        loopId: loop.loopId,
+        taskId: loop.taskId ?? "unknown-task",
+        role: loop.role ?? "unknown-role",
+        outcome,
+        workflowSlug: loop.workflowSlug,
+        startTime,
+        durationMs: Number.isFinite(durationMs) ? Math.max(durationMs, 0) : 0,
+        iterations: loop.iterations,
+      },
+      ...trajectories.filter((item) => item.loopId !== loop.loopId),
+    ].slice(0, trajectoryLimit);
+
+    const completion: LoopCompletion = {
+      id: `${loop.loopId}:${completedAt}`,
+      loopId: loop.loopId,
+      outcome,
+      label: loop.workflowSlug ?? loop.role ?? loop.loopId,
+      completedAt,
+    };
+    completions = [
+      ...completions.filter((item) => item.id !== completion.id),
+      completion,
+    ];
+    if (toastDurationMs > 0) {
+      setTimeout(() => dismissCompletion(completion.id), toastDurationMs);
+    }
+  }
+
+  function dismissCompletion(id: string) {
+    completions = completions.filter((item) => item.id !== id);
+  }
+
+  // Reference-counted so the stream stays open while any consumer needs it
+  function connect(): () => void {
+    connections += 1;
+    if (!unsubscribe) {
+      unsubscribe = subscribe({
+        onEvent: handleEvent,
+        onStatus: handleStatus,
+      });
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      connections -= 1;
+      if (connections === 0) {
+        unsubscribe?.();
+        unsubscribe = null;
+        status = "idle";
+      }
+    };
+  }
+
+  return {
+    get status() {
+      return status;
+    },
+
+    get loops() {
+      return loops;
+    },
+
+    get activeLoopCount() {
+      return loops.filter(isLoopActive).length;
+    },
+
+    get trajectories() {
+      return trajectories;
+    },
+
+    get completions() {
+      return completions;
+    },
+
+    connect,
+
+    /** Same signature as subscribeActivity, backed by the shared stream */
+    listen(listener: ActivityStreamOptions): () => void {
+      listeners.add(listener);
+      if (status !== "idle") listener.onStatus?.(status);
+      const release = connect();
+      return () => {
+        listeners.delete(listener);
+        release();
+      };
+    },
+
+    dismissCompletion,
+
+    reset() {
+      unsubscribe?.();
+      unsubscribe = null;
+      connections = 0;
+      listeners.clear();
+      startedAt.clear();
+      status = "idle";
+      loops = [];
+      trajectories = [];
+      completions = [];
+    },
+  };
+}
+
+export type LoopActivityStore = ReturnType<typeof createLoopActivityStore>;
+
+export const loopActivityStore = createLoopActivityStore();
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createLoopActivityStore } from "./loopActivityStore.svelte";
+import type { ActivityStreamOptions } from "$lib/services/activityStream";
+import type { AgentLoop, LoopActivityEvent } from "$lib/services/loopApi";
+
+function makeLoop(overrides: Partial<AgentLoop> = {}): AgentLoop {
+  return {
+    loopId: "loop-1",
+    state: "executing",
+    role: "developer",
+    taskId: "task-1",
+    workflowSlug: "inspect-code",
+    iterations: 2,
+    maxIterations: 10,
+    pendingApproval: null,
+    ...overrides,
+  };
+}
+
+function event(
+  type: string,
+  timestamp: string,
+  loop: AgentLoop | null = makeLoop(),
+): LoopActivityEvent {
+  return { type, loopId: loop?.loopId ?? "loop-1", timestamp, loop };
+}
+
+function setup(toastDurationMs = 8000) {
+  let stream: ActivityStreamOptions | null = null;
+  const close = vi.fn();
+  const subscribe = vi.fn((options: ActivityStreamOptions) => {
+    stream = options;
+    options.onStatus?.("connecting");
+    return close;
+  });
+  const store = createLoopActivityStore({ subscribe, toastDurationMs });
+  return { store, subscribe, close, stream: () => stream! };
+}
+
+describe("loopActivityStore", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("shares one stream between consumers and closes it with the last", () => {
+    const { store, subscribe, close, stream } = setup();
+    const listener = { onEvent: vi.fn(), onStatus: vi.fn() };
+
+    const release = store.connect();
+    const unlisten = store.listen(listener);
+    stream().onStatus?.("open");
+    stream().onEvent(event("loop_created", "2026-07-06T00:00:00Z"));
+
+    expect(subscribe).toHaveBeenCalledTimes(1);
+    expect(listener.onStatus.mock.calls.map(([status]) => status)).toEqual([
+      "connecting",
+      "open",
+    ]);
+    expect(listener.onEvent).toHaveBeenCalledTimes(1);
+    expect(store.activeLoopCount).toBe(1);
+
+    unlisten();
+    expect(close).not.toHaveBeenCalled();
+    release();
+    expect(close).toHaveBeenCalledTimes(1);
+    expect(store.status).toBe("idle");
+  });
+
+  it("turns short-lived completions into trajectories and toasts", () => {
+    vi.useFakeTimers();
+    const { store, stream } = setup(5000);
+    store.connect();
+
+    stream().onEvent(event("loop_created", "2026-07-06T00:00:00Z"));
+    stream().onEvent(
+      event(
+        "loop_completed",
+        "2026-07-06T00:00:02.500Z",
+        makeLoop({ outcome: "failed", state: "unknown", iterations: 3 }),
+      ),
+    );
+
+    expect(store.activeLoopCount).toBe(0);
+    expect(store.trajectories).toEqual([
+      {
+        loopId: "loop-1",
+        taskId: "task-1",
+        role: "developer",
+        outcome: "failed",
+        workflowSlug: "inspect-code",
+        startTime: "2026-07-06T00:00:00Z",
+        durationMs: 2500,
+        iterations: 3,
+      },
+    ]);
+    expect(store.completions).toEqual([
+      expect.objectContaining({
+        loopId: "loop-1",
+        outcome: "failed",
+        label: "inspect-code",
+      }),
+    ]);
+
+    vi.advanceTimersByTime(5000);
+    expect(store.completions).toEqual([]);
+    expect(store.trajectories).toHaveLength(1);
+  });
+
+  it("forgets a loop's start once it completes", () => {
+    const { store, stream } = setup(0);
+    store.connect();
+
+    stream().onEvent(event("loop_created", "2026-07-06T00:00:00Z"));
+    stream().onEvent(event("loop_completed", "2026-07-06T00:00:01Z"));
+    // The same ID seen again is timed from its new first sighting
+    stream().onEvent(event("loop_created", "2026-07-06T01:00:00Z"));
+    stream().onEvent(event("loop_completed", "2026-07-06T01:00:03Z"));
+
+    expect(store.trajectories[0]).toMatchObject({
+      startTime: "2026-07-06T01:00:00Z",
+      durationMs: 3000,
+    });
+  });
+});
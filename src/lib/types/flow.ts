@@ -57,6 +57,11 @@ export interface ComponentInstance extends FlowNode {
 export interface Position {
   x: number;
   y: number;
+  /**
+   * Whether x/y were set by a user or an auto-arrange. Positions saved before
+   * this was tracked have no flag; see hasSavedPosition.
+   */
+  placed?: boolean;
 }
 
 export interface ComponentHealth {
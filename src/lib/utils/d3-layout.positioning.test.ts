@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  hasSavedPosition,
+  layoutNodes,
+  positionNodes,
+  snapToGrid,
+} from "./d3-layout";
+import type { FlowConnection, FlowNode } from "$lib/types/flow";
+
+function node(id: string, x = 0, y = 0): FlowNode {
+  return {
+    id,
+    component: "json-transform",
+    type: "processor",
+    name: id,
+    position: { x, y },
+    config: {},
+  };
+}
+
+const connections: FlowConnection[] = [
+  {
+    id: "a-b",
+    source_node_id: "a",
+    source_port: "out",
+    target_node_id: "b",
+    target_port: "in",
+  },
+];
+
+function placed(id: string, x: number, y: number, flag: boolean): FlowNode {
+  return { ...node(id), position: { x, y, placed: flag } };
+}
+
+describe("hasSavedPosition", () => {
+  it("follows the placed flag", () => {
+    expect(hasSavedPosition(placed("a", 0, 0, true))).toBe(true);
+    expect(hasSavedPosition(placed("a", 40, 40, false))).toBe(false);
+  });
+
+  it("treats unflagged positions at the origin as unplaced", () => {
+    expect(hasSavedPosition(node("a"))).toBe(false);
+    expect(hasSavedPosition(node("a", 0, 40))).toBe(true);
+  });
+});
+
+describe("positionNodes", () => {
+  it("keeps saved positions", () => {
+    const result = positionNodes([node("a", 320, 140), node("b", 40, 60)], []);
+
+    expect(result.find((n) => n.id === "a")).toMatchObject({ x: 320, y: 140 });
+    expect(result.find((n) => n.id === "b")).toMatchObject({ x: 40, y: 60 });
+  });
+
+  it("keeps a node placed at the origin", () => {
+    const result = positionNodes([placed("a", 0, 0, true), node("b")], []);
+
+    expect(result.find((n) => n.id === "a")).toMatchObject({ x: 0, y: 0 });
+  });
+
+  it("falls back to the automatic layout for unplaced nodes", () => {
+    const nodes = [node("a"), node("b", 600, 20)];
+    const auto = layoutNodes(nodes, connections);
+    const result = positionNodes(nodes, connections);
+
+    const autoA = auto.find((n) => n.id === "a")!;
+    expect(result.find((n) => n.id === "a")).toMatchObject({
+      x: autoA.x,
+      y: autoA.y,
+    });
+    expect(result.find((n) => n.id === "b")).toMatchObject({ x: 600, y: 20 });
+  });
+
+  it("matches layoutNodes when nothing has been placed", () => {
+    const nodes = [node("a"), node("b")];
+
+    expect(positionNodes(nodes, connections)).toEqual(
+      layoutNodes(nodes, connections),
+    );
+  });
+});
+
+describe("snapToGrid", () => {
+  it("rounds to the nearest grid line", () => {
+    expect(snapToGrid(133, 20)).toBe(140);
+    expect(snapToGrid(129, 20)).toBe(120);
+    expect(snapToGrid(-11, 20)).toBe(-20);
+  });
+});
@@ -177,6 +177,42 @@ export function layoutNodes(
   return layoutNodes;
 }
 
+/**
+ * True when a node carries a position placed by a user or an earlier
+ * auto-arrange. Positions without a `placed` flag predate it; those count as
+ * unplaced only while they are still at the origin.
+ */
+export function hasSavedPosition(node: FlowNode): boolean {
+  if (!node.position) return false;
+  if (node.position.placed !== undefined) return node.position.placed;
+  return node.position.x !== 0 || node.position.y !== 0;
+}
+
+/**
+ * Layout that honours saved node positions
+ *
+ * Placed nodes keep their stored `position`; unplaced nodes fall back to the
+ * hierarchical layout from `layoutNodes`.
+ */
+export function positionNodes(
+  nodes: FlowNode[],
+  connections: FlowConnection[],
+  config: Partial<LayoutConfig> = {},
+): LayoutNode[] {
+  return layoutNodes(nodes, connections, config).map((node) =>
+    hasSavedPosition(node.original)
+      ? { ...node, x: node.original.position.x, y: node.original.position.y }
+      : node,
+  );
+}
+
+/**
+ * Round a coordinate to the nearest grid line
+ */
+export function snapToGrid(value: number, gridSize: number): number {
+  return Math.round(value / gridSize) * gridSize;
+}
+
 /**
  * Calculate edge positions based on node layout
  */
@@ -258,16 +294,20 @@ export function createZoomBehavior(
   options: {
     minZoom?: number;
     maxZoom?: number;
+    /** Decides which events start a zoom/pan (defaults to D3's filter) */
+    filter?: (event: MouseEvent | WheelEvent | TouchEvent) => boolean;
   } = {},
 ): d3.ZoomBehavior<SVGSVGElement, unknown> {
-  const { minZoom = 0.1, maxZoom = 2 } = options;
+  const { minZoom = 0.1, maxZoom = 2, filter } = options;
 
-  return d3
+  const zoom = d3
     .zoom<SVGSVGElement, unknown>()
     .scaleExtent([minZoom, maxZoom])
     .on("zoom", (event) => {
       onTransform(event.transform);
     });
+
+  return filter ? zoom.filter(filter) : zoom;
 }
 
 /**
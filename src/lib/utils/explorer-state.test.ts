@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_GRAPH_FILTERS } from "$lib/types/graph";
+import {
+  decodeExplorerState,
+  encodeExplorerState,
+  explorerSearch,
+  hasExplorerState,
+  type ExplorerState,
+} from "./explorer-state";
+
+const emptyState: ExplorerState = {
+  filters: DEFAULT_GRAPH_FILTERS,
+  selectedEntityId: null,
+  expandedEntityIds: [],
+  camera: null,
+};
+
+const fullState: ExplorerState = {
+  filters: {
+    search: "drone 7",
+    types: ["drone", "sensor"],
+    domains: ["robotics"],
+    minConfidence: 0.7,
+    timeRange: [1000, 2000],
+    communities: ["c1"],
+    showProperties: false,
+  },
+  selectedEntityId: "c360.ops.robotics.gcs.drone.001",
+  expandedEntityIds: [
+    "c360.ops.robotics.gcs.drone.001",
+    "c360.ops.robotics.gcs.sensor.002",
+  ],
+  camera: { x: 0.5, y: 0.25, ratio: 0.8, angle: 0 },
+};
+
+describe("encodeExplorerState", () => {
+  it("writes nothing for the default state", () => {
+    expect(encodeExplorerState(emptyState).toString()).toBe("");
+  });
+
+  it("round-trips through decodeExplorerState", () => {
+    expect(decodeExplorerState(encodeExplorerState(fullState))).toEqual(
+      fullState,
+    );
+  });
+
+  it("rounds camera values", () => {
+    const params = encodeExplorerState({
+      ...emptyState,
+      camera: { x: 0.123456789, y: 1 / 3, ratio: 1, angle: 0 },
+    });
+
+    expect(params.get("cam")).toBe("0.1235,0.3333,1,0");
+  });
+});
+
+describe("decodeExplorerState", () => {
+  it("falls back to defaults for malformed values", () => {
+    const state = decodeExplorerState(
+      new URLSearchParams(
+        "conf=high&from=2000&to=1000&cam=1,2,zero,0&sel=&type=&type=drone&type=drone",
+      ),
+    );
+
+    expect(state.filters.minConfidence).toBe(0);
+    expect(state.filters.timeRange).toBeNull();
+    expect(state.filters.types).toEqual(["drone"]);
+    expect(state.camera).toBeNull();
+    expect(state.selectedEntityId).toBeNull();
+  });
+
+  it("clamps the confidence threshold", () => {
+    const state = decodeExplorerState(new URLSearchParams("conf=4"));
+
+    expect(state.filters.minConfidence).toBe(1);
+  });
+
+  it("rejects a camera without a positive zoom ratio", () => {
+    const state = decodeExplorerState(new URLSearchParams("cam=0,0,0,0"));
+
+    expect(state.camera).toBeNull();
+  });
+});
+
+describe("hasExplorerState", () => {
+  it("ignores parameters the explorer doesn't own", () => {
+    expect(hasExplorerState(new URLSearchParams("tab=data"))).toBe(false);
+    expect(hasExplorerState(new URLSearchParams("tab=data&sel=a"))).toBe(true);
+  });
+});
+
+describe("explorerSearch", () => {
+  it("replaces explorer parameters and keeps the rest", () => {
+    const search = explorerSearch("?tab=data&sel=old&exp=x", {
+      ...emptyState,
+      selectedEntityId: "new",
+    });
+
+    expect(search).toBe("?tab=data&sel=new");
+  });
+
+  it("is empty when no parameters are left", () => {
+    expect(explorerSearch("?sel=old", emptyState)).toBe("");
+  });
+});
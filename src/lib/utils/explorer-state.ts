@@ -0,0 +1,141 @@
+/**
+ * Explorer State
+ *
+ * Encodes what the graph explorer shows (filters, selection, expanded
+ * entities and camera) as URL query parameters, so a link reproduces the
+ * view. Only values that differ from the defaults are written, and decoding
+ * drops anything malformed rather than failing.
+ */
+
+import { DEFAULT_GRAPH_FILTERS, type GraphFilters } from "$lib/types/graph";
+
+/** Sigma camera state; x/y/ratio are in sigma's normalised coordinates */
+export interface CameraState {
+  x: number;
+  y: number;
+  ratio: number;
+  angle: number;
+}
+
+export interface ExplorerState {
+  filters: GraphFilters;
+  selectedEntityId: string | null;
+  expandedEntityIds: string[];
+  camera: CameraState | null;
+}
+
+/** Every query parameter the explorer owns */
+export const EXPLORER_PARAMS = [
+  "q",
+  "type",
+  "domain",
+  "community",
+  "conf",
+  "from",
+  "to",
+  "props",
+  "sel",
+  "exp",
+  "cam",
+] as const;
+
+// Camera values are rounded so panning doesn't produce 17-digit URLs
+const CAMERA_PRECISION = 1e4;
+
+function round(value: number): number {
+  return Math.round(value * CAMERA_PRECISION) / CAMERA_PRECISION;
+}
+
+export function encodeExplorerState(state: ExplorerState): URLSearchParams {
+  const params = new URLSearchParams();
+  const { filters } = state;
+
+  if (filters.search) params.set("q", filters.search);
+  for (const type of filters.types) params.append("type", type);
+  for (const domain of filters.domains) params.append("domain", domain);
+  for (const community of filters.communities) {
+    params.append("community", community);
+  }
+  if (filters.minConfidence > 0) {
+    params.set("conf", String(filters.minConfidence));
+  }
+  if (filters.timeRange) {
+    params.set("from", String(filters.timeRange[0]));
+    params.set("to", String(filters.timeRange[1]));
+  }
+  if (!filters.showProperties) params.set("props", "0");
+
+  if (state.selectedEntityId) params.set("sel", state.selectedEntityId);
+  for (const entityId of state.expandedEntityIds) {
+    params.append("exp", entityId);
+  }
+
+  if (state.camera) {
+    const { x, y, ratio, angle } = state.camera;
+    params.set("cam", [x, y, ratio, angle].map(round).join(","));
+  }
+  return params;
+}
+
+function parseNumber(value: string | null): number | null {
+  if (value === null || value.trim() === "") return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function parseCamera(value: string | null): CameraState | null {
+  const parts = value?.split(",").map((part) => parseNumber(part));
+  if (!parts || parts.length !== 4 || parts.some((part) => part === null)) {
+    return null;
+  }
+  const [x, y, ratio, angle] = parts as number[];
+  return ratio > 0 ? { x, y, ratio, angle } : null;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values.filter((value) => value !== ""))];
+}
+
+/** Missing or malformed parameters fall back to their defaults */
+export function decodeExplorerState(params: URLSearchParams): ExplorerState {
+  const confidence = parseNumber(params.get("conf"));
+  const from = parseNumber(params.get("from"));
+  const to = parseNumber(params.get("to"));
+
+  return {
+    filters: {
+      ...DEFAULT_GRAPH_FILTERS,
+      search: params.get("q") ?? "",
+      types: unique(params.getAll("type")),
+      domains: unique(params.getAll("domain")),
+      communities: unique(params.getAll("community")),
+      minConfidence:
+        confidence === null ? 0 : Math.min(1, Math.max(0, confidence)),
+      timeRange: from !== null && to !== null && from <= to ? [from, to] : null,
+      showProperties: params.get("props") !== "0",
+    },
+    selectedEntityId: params.get("sel") || null,
+    expandedEntityIds: unique(params.getAll("exp")),
+    camera: parseCamera(params.get("cam")),
+  };
+}
+
+/** True when the parameters carry any explorer state */
+export function hasExplorerState(params: URLSearchParams): boolean {
+  return EXPLORER_PARAMS.some((name) => params.has(name));
+}
+
+/**
+ * `search` (a location.search string) with its explorer parameters replaced
+ * by `state`. Parameters the explorer doesn't own are kept. Empty when there
+ * are none left.
+ */
+export function explorerSearch(search: string, state: ExplorerState): string {
+  const params = new URLSearchParams(search);
+  for (const name of EXPLORER_PARAMS) params.delete(name);
+  for (const [name, value] of encodeExplorerState(state)) {
+    params.append(name, value);
+  }
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { countByState, filterFlows } from "./flow-list";
+import type { Flow } from "$lib/types/flow";
+
+function flow(
+  name: string,
+  runtimeState: Flow["runtime_state"],
+  lastModified: string,
+  description = "",
+): Flow {
+  return {
+    version: 1,
+    id: name.toLowerCase(),
+    name,
+    description,
+    nodes: [],
+    connections: [],
+    runtime_state: runtimeState,
+    created_at: "2026-10-01T00:00:00Z",
+    updated_at: lastModified,
+    last_modified: lastModified,
+  };
+}
+
+const flows = [
+  flow("Telemetry", "running", "2026-10-03T00:00:00Z", "UDP sensor ingest"),
+  flow("Alerts", "not_deployed", "2026-10-05T00:00:00Z"),
+  flow("Billing", "error", "2026-10-01T00:00:00Z"),
+  flow("Archive", "deployed_stopped", "2026-10-04T00:00:00Z"),
+];
+
+const names = (result: Flow[]) => result.map((f) => f.name);
+
+describe("filterFlows", () => {
+  it("sorts by name by default", () => {
+    expect(
+      names(filterFlows(flows, { search: "", states: [], sort: "name" })),
+    ).toEqual(["Alerts", "Archive", "Billing", "Telemetry"]);
+  });
+
+  it("sorts by state with flows needing attention first", () => {
+    expect(
+      names(filterFlows(flows, { search: "", states: [], sort: "state" })),
+    ).toEqual(["Billing", "Telemetry", "Archive", "Alerts"]);
+  });
+
+  it("sorts by last modified, newest first", () => {
+    expect(
+      names(
+        filterFlows(flows, { search: "", states: [], sort: "last_modified" }),
+      ),
+    ).toEqual(["Alerts", "Archive", "Telemetry", "Billing"]);
+  });
+
+  it("searches names and descriptions case-insensitively", () => {
+    expect(
+      names(filterFlows(flows, { search: "sensor", states: [], sort: "name" })),
+    ).toEqual(["Telemetry"]);
+    expect(
+      names(filterFlows(flows, { search: " AR", states: [], sort: "name" })),
+    ).toEqual(["Archive"]);
+  });
+
+  it("filters by runtime state", () => {
+    expect(
+      names(
+        filterFlows(flows, {
+          search: "",
+          states: ["running", "error"],
+          sort: "name",
+        }),
+      ),
+    ).toEqual(["Billing", "Telemetry"]);
+  });
+});
+
+describe("countByState", () => {
+  it("counts flows in each state", () => {
+    expect(countByState([...flows, flows[0]])).toEqual({
+      running: 2,
+      error: 1,
+      deployed_stopped: 1,
+      not_deployed: 1,
+    });
+  });
+});
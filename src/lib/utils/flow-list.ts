@@ -0,0 +1,78 @@
+// Flow list search, filtering and sorting for the /flows page
+
+import type { Flow, RuntimeState } from "$lib/types/flow";
+
+export type FlowSortKey = "name" | "state" | "last_modified";
+
+export interface FlowListQuery {
+  /** Matched against name and description, case-insensitive */
+  search: string;
+  /** Runtime states to show; empty shows all */
+  states: RuntimeState[];
+  sort: FlowSortKey;
+}
+
+export const RUNTIME_STATE_LABELS: Record<RuntimeState, string> = {
+  running: "Running",
+  error: "Error",
+  deployed_stopped: "Stopped",
+  not_deployed: "Not deployed",
+};
+
+// Flows that need attention sort first
+const STATE_ORDER: RuntimeState[] = [
+  "error",
+  "running",
+  "deployed_stopped",
+  "not_deployed",
+];
+
+export function filterFlows(flows: Flow[], query: FlowListQuery): Flow[] {
+  const search = query.search.trim().toLowerCase();
+  const states = new Set(query.states);
+
+  return flows
+    .filter((flow) => states.size === 0 || states.has(flow.runtime_state))
+    .filter(
+      (flow) =>
+        !search ||
+        flow.name.toLowerCase().includes(search) ||
+        (flow.description ?? "").toLowerCase().includes(search),
+    )
+    .sort((a, b) => compareFlows(a, b, query.sort));
+}
+
+/** Number of flows in each runtime state */
+export function countByState(flows: Flow[]): Record<RuntimeState, number> {
+  const counts: Record<RuntimeState, number> = {
+    running: 0,
+    error: 0,
+    deployed_stopped: 0,
+    not_deployed: 0,
+  };
+  for (const flow of flows) {
+    counts[flow.runtime_state] = (counts[flow.runtime_state] ?? 0) + 1;
+  }
+  return counts;
+}
+
+function compareFlows(a: Flow, b: Flow, sort: FlowSortKey): number {
+  const byName = a.name.localeCompare(b.name);
+  switch (sort) {
+    case "state":
+      return (
+        STATE_ORDER.indexOf(a.runtime_state) -
+          STATE_ORDER.indexOf(b.runtime_state) || byName
+      );
+    case "last_modified":
+      // Newest first
+      return modifiedTime(b) - modifiedTime(a) || byName;
+    default:
+      return byName;
+  }
+}
+
+function modifiedTime(flow: Flow): number {
+  const time = Date.parse(flow.last_modified || flow.updated_at);
+  return Number.isNaN(time) ? 0 : time;
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import type { GraphRelationship } from "$lib/types/graph";
+import { buildPathGraph, kShortestPaths } from "./graph-paths";
+
+function rel(
+  sourceId: string,
+  predicate: string,
+  targetId: string,
+): GraphRelationship {
+  return {
+    id: `${sourceId}:${predicate}:${targetId}`,
+    sourceId,
+    targetId,
+    predicate,
+    confidence: 1,
+    timestamp: 0,
+  };
+}
+
+function predicates(path: { steps: { predicate: string }[] }) {
+  return path.steps.map((step) => step.predicate);
+}
+
+describe("graph-paths", () => {
+  describe("kShortestPaths", () => {
+    // drone -> fleet -> mission, drone -> pilot -> mission,
+    // drone -> base <- depot -> mission
+    const graph = buildPathGraph([
+      rel("drone", "member_of", "fleet"),
+      rel("fleet", "assigned", "mission"),
+      rel("drone", "flown_by", "pilot"),
+      rel("pilot", "flies", "mission"),
+      rel("drone", "based_at", "base"),
+      rel("depot", "supplies", "base"),
+      rel("depot", "serves", "mission"),
+    ]);
+
+    it("returns paths shortest first", () => {
+      const paths = kShortestPaths(graph, "drone", "mission", 3);
+
+      expect(paths.map(predicates)).toEqual([
+        ["member_of", "assigned"],
+        ["flown_by", "flies"],
+        ["based_at", "supplies", "serves"],
+      ]);
+      expect(paths[0].entityIds).toEqual(["drone", "fleet", "mission"]);
+    });
+
+    it("follows relationships against their direction", () => {
+      const [, , viaDepot] = kShortestPaths(graph, "drone", "mission", 3);
+
+      expect(viaDepot.steps[1]).toEqual({
+        relationshipId: "depot:supplies:base",
+        predicate: "supplies",
+        from: "base",
+        to: "depot",
+        direction: "backward",
+      });
+    });
+
+    it("stops at k and when no more loopless paths exist", () => {
+      expect(kShortestPaths(graph, "drone", "mission", 1)).toHaveLength(1);
+      expect(kShortestPaths(graph, "drone", "mission", 10)).toHaveLength(3);
+    });
+
+    it("treats parallel relationships as separate paths", () => {
+      const paths = kShortestPaths(
+        buildPathGraph([rel("a", "owns", "b"), rel("a", "leases", "b")]),
+        "a",
+        "b",
+        3,
+      );
+
+      expect(paths.map(predicates).sort()).toEqual([["leases"], ["owns"]]);
+    });
+
+    it("returns nothing for unknown or unconnected entities", () => {
+      const split = buildPathGraph([rel("a", "x", "b"), rel("c", "y", "d")]);
+
+      expect(kShortestPaths(split, "a", "d", 3)).toEqual([]);
+      expect(kShortestPaths(split, "a", "missing", 3)).toEqual([]);
+      expect(kShortestPaths(split, "a", "a", 3)).toEqual([]);
+    });
+  });
+});
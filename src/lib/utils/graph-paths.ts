@@ -0,0 +1,163 @@
+/**
+ * Graph Paths
+ *
+ * Shortest-path search between two entities over a graphology graph built
+ * from relationships. Relationships are followed in either direction, so a
+ * path can cross an edge against its arrow; each step records which way it
+ * went.
+ */
+
+import Graph from "graphology";
+import type { GraphRelationship } from "$lib/types/graph";
+
+export interface PathStep {
+  relationshipId: string;
+  predicate: string;
+  /** Entity the step leaves from */
+  from: string;
+  /** Entity the step arrives at */
+  to: string;
+  /** "backward" when the relationship points from `to` to `from` */
+  direction: "forward" | "backward";
+}
+
+export interface ConnectionPath {
+  /** Entities along the path, source first */
+  entityIds: string[];
+  steps: PathStep[];
+}
+
+/**
+ * Build a directed multigraph keyed by relationship ID. Parallel relationships
+ * with different predicates stay separate edges, so they count as separate
+ * paths.
+ */
+export function buildPathGraph(relationships: GraphRelationship[]): Graph {
+  const graph = new Graph({ multi: true, type: "directed" });
+  for (const rel of relationships) {
+    if (rel.sourceId === rel.targetId || graph.hasEdge(rel.id)) continue;
+    graph.mergeNode(rel.sourceId);
+    graph.mergeNode(rel.targetId);
+    graph.addEdgeWithKey(rel.id, rel.sourceId, rel.targetId, {
+      predicate: rel.predicate,
+    });
+  }
+  return graph;
+}
+
+/**
+ * Up to `k` loopless shortest paths from `source` to `target`, shortest first
+ * (Yen's algorithm over breadth-first search, every step costs the same).
+ */
+export function kShortestPaths(
+  graph: Graph,
+  source: string,
+  target: string,
+  k: number,
+): ConnectionPath[] {
+  if (source === target || !graph.hasNode(source) || !graph.hasNode(target)) {
+    return [];
+  }
+  const first = shortestPath(graph, source, target, new Set(), new Set());
+  if (!first) return [];
+
+  const found: PathStep[][] = [first];
+  const candidates: PathStep[][] = [];
+  const seen = new Set([pathKey(first)]);
+
+  while (found.length < k) {
+    const previous = found[found.length - 1];
+    const nodes = pathNodes(source, previous);
+
+    for (let i = 0; i < previous.length; i++) {
+      const root = previous.slice(0, i);
+      const rootKey = pathKey(root);
+      // Edges that would repeat an already found path from this spur node
+      const blockedEdges = new Set(
+        found
+          .filter(
+            (path) => path.length > i && pathKey(path.slice(0, i)) === rootKey,
+          )
+          .map((path) => path[i].relationshipId),
+      );
+      const blockedNodes = new Set(nodes.slice(0, i));
+
+      const spur = shortestPath(
+        graph,
+        nodes[i],
+        target,
+        blockedNodes,
+        blockedEdges,
+      );
+      if (!spur) continue;
+      const candidate = [...root, ...spur];
+      const key = pathKey(candidate);
+      if (!seen.has(key)) {
+        seen.add(key);
+        candidates.push(candidate);
+      }
+    }
+
+    if (candidates.length === 0) break;
+    // Stable sort keeps discovery order among equally long paths
+    candidates.sort((a, b) => a.length - b.length);
+    found.push(candidates.shift()!);
+  }
+
+  return found.map((steps) => ({ entityIds: pathNodes(source, steps), steps }));
+}
+
+function shortestPath(
+  graph: Graph,
+  source: string,
+  target: string,
+  blockedNodes: Set<string>,
+  blockedEdges: Set<string>,
+): PathStep[] | null {
+  const reachedBy = new Map<string, PathStep>();
+  const visited = new Set([source]);
+  let frontier = [source];
+
+  while (frontier.length > 0 && !visited.has(target)) {
+    const next: string[] = [];
+    for (const node of frontier) {
+      graph.forEachEdge(node, (edge, attributes, edgeSource, edgeTarget) => {
+        const neighbour = edgeSource === node ? edgeTarget : edgeSource;
+        if (
+          visited.has(neighbour) ||
+          blockedNodes.has(neighbour) ||
+          blockedEdges.has(edge)
+        ) {
+          return;
+        }
+        visited.add(neighbour);
+        reachedBy.set(neighbour, {
+          relationshipId: edge,
+          predicate: attributes.predicate as string,
+          from: node,
+          to: neighbour,
+          direction: edgeSource === node ? "forward" : "backward",
+        });
+        next.push(neighbour);
+      });
+    }
+    frontier = next;
+  }
+
+  if (!visited.has(target)) return null;
+  const steps: PathStep[] = [];
+  for (let node = target; node !== source; ) {
+    const step = reachedBy.get(node)!;
+    steps.unshift(step);
+    node = step.from;
+  }
+  return steps;
+}
+
+function pathNodes(source: string, steps: PathStep[]): string[] {
+  return [source, ...steps.map((step) => step.to)];
+}
+
+function pathKey(steps: PathStep[]): string {
+  return steps.map((step) => step.relationshipId).join("|");
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import type { GraphEntity, GraphRelationship } from "$lib/types/graph";
+import { parseEntityId } from "$lib/types/graph";
+import {
+  bucketRange,
+  buildTimeHistogram,
+  collectFactTimestamps,
+  rangeBuckets,
+} from "./graph-timeline";
+
+function makeRelationship(
+  sourceId: string,
+  targetId: string,
+  timestamp: number,
+): GraphRelationship {
+  return {
+    id: `${sourceId}:link:${targetId}`,
+    sourceId,
+    targetId,
+    predicate: "link",
+    confidence: 1,
+    timestamp,
+  };
+}
+
+function makeEntity(
+  id: string,
+  propertyTimes: number[],
+  outgoing: GraphRelationship[] = [],
+  incoming: GraphRelationship[] = [],
+): GraphEntity {
+  return {
+    id,
+    idParts: parseEntityId(id),
+    properties: propertyTimes.map((timestamp) => ({
+      predicate: "status",
+      object: "ok",
+      confidence: 1,
+      source: "test",
+      timestamp,
+    })),
+    outgoing,
+    incoming,
+  };
+}
+
+describe("graph-timeline", () => {
+  it("collects property and relationship timestamps, each relationship once", () => {
+    const link = makeRelationship("a", "b", 300);
+
+    expect(
+      collectFactTimestamps([
+        makeEntity("a", [100, 200], [link]),
+        makeEntity("b", [], [], [link]),
+      ]),
+    ).toEqual([100, 200, 300]);
+  });
+
+  it("buckets timestamps between the first and last fact", () => {
+    expect(buildTimeHistogram([0, 1, 5, 9, 9], 5)).toEqual({
+      start: 0,
+      end: 9,
+      bucketSize: 2,
+      counts: [2, 0, 1, 0, 2],
+    });
+  });
+
+  it("handles no timestamps and a single instant", () => {
+    expect(buildTimeHistogram([], 10)).toBeNull();
+    expect(buildTimeHistogram([7, 7], 3)).toEqual({
+      start: 7,
+      end: 7,
+      bucketSize: 1,
+      counts: [2, 0, 0],
+    });
+  });
+
+  it("converts between buckets and time ranges", () => {
+    const histogram = buildTimeHistogram([0, 99], 10)!;
+
+    expect(bucketRange(histogram, 2, 4)).toEqual([20, 49]);
+    expect(bucketRange(histogram, 4, 2)).toEqual([20, 49]);
+    expect(bucketRange(histogram, 0, 9)).toEqual([0, 99]);
+    expect(rangeBuckets(histogram, [20, 49])).toEqual([2, 4]);
+    expect(rangeBuckets(histogram, [-500, 5000])).toEqual([0, 9]);
+  });
+});
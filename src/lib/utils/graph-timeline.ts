@@ -0,0 +1,94 @@
+/**
+ * Graph Timeline
+ *
+ * Buckets the timestamps of graph facts (properties and relationships) into a
+ * histogram, and converts between bucket indices and the Unix ms
+ * `GraphFilters.timeRange` the store filters on.
+ */
+
+import type { GraphEntity } from "$lib/types/graph";
+
+export interface TimeHistogram {
+  /** Earliest fact, Unix ms */
+  start: number;
+  /** Latest fact, Unix ms */
+  end: number;
+  /** Width of each bucket in ms; at least 1 */
+  bucketSize: number;
+  /** Fact count per bucket */
+  counts: number[];
+}
+
+/**
+ * Timestamps of every property and relationship on the entities. A
+ * relationship shared by its two ends counts once.
+ */
+export function collectFactTimestamps(entities: GraphEntity[]): number[] {
+  const timestamps: number[] = [];
+  const relationships = new Set<string>();
+  for (const entity of entities) {
+    for (const property of entity.properties) {
+      timestamps.push(property.timestamp);
+    }
+    for (const rel of [...entity.outgoing, ...entity.incoming]) {
+      if (relationships.has(rel.id)) continue;
+      relationships.add(rel.id);
+      timestamps.push(rel.timestamp);
+    }
+  }
+  return timestamps.filter((timestamp) => Number.isFinite(timestamp));
+}
+
+/** Null when there are no timestamps */
+export function buildTimeHistogram(
+  timestamps: number[],
+  bucketCount: number,
+): TimeHistogram | null {
+  if (timestamps.length === 0) return null;
+
+  let start = Infinity;
+  let end = -Infinity;
+  for (const timestamp of timestamps) {
+    start = Math.min(start, timestamp);
+    end = Math.max(end, timestamp);
+  }
+  const bucketSize = Math.max(1, Math.ceil((end - start + 1) / bucketCount));
+  const counts = new Array<number>(bucketCount).fill(0);
+  for (const timestamp of timestamps) {
+    counts[Math.floor((timestamp - start) / bucketSize)]++;
+  }
+  return { start, end, bucketSize, counts };
+}
+
+/** Time range covering buckets `from` through `to`, both inclusive */
+export function bucketRange(
+  histogram: TimeHistogram,
+  from: number,
+  to: number,
+): [number, number] {
+  const [first, last] = from <= to ? [from, to] : [to, from];
+  return [
+    histogram.start + first * histogram.bucketSize,
+    Math.min(
+      histogram.end,
+      histogram.start + (last + 1) * histogram.bucketSize - 1,
+    ),
+  ];
+}
+
+/** Buckets a time range covers, clamped to the histogram */
+export function rangeBuckets(
+  histogram: TimeHistogram,
+  range: [number, number],
+): [number, number] {
+  const lastBucket = histogram.counts.length - 1;
+  const toBucket = (timestamp: number) =>
+    Math.min(
+      lastBucket,
+      Math.max(
+        0,
+        Math.floor((timestamp - histogram.start) / histogram.bucketSize),
+      ),
+    );
+  return [toBucket(range[0]), toBucket(range[1])];
+}
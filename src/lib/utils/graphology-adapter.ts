@@ -24,6 +24,19 @@ function getNodeSize(entity: GraphEntity): number {
   return Math.min(Math.max(size, MIN_NODE_SIZE), MAX_NODE_SIZE);
 }
 
+/**
+ * Current layout coordinates by node ID.
+ */
+export function getNodePositions(
+  graph: Graph,
+): Map<string, { x: number; y: number }> {
+  const positions = new Map<string, { x: number; y: number }>();
+  graph.forEachNode((id, attrs) => {
+    positions.set(id, { x: attrs.x as number, y: attrs.y as number });
+  });
+  return positions;
+}
+
 /**
  * Full sync: clear the graphology graph and rebuild from store data.
  * Preserves existing node positions so the FA2 layout isn't lost on re-sync.
@@ -34,10 +47,7 @@ export function syncStoreToGraph(
   relationships: GraphRelationship[],
 ): void {
   // Snapshot positions before clearing so FA2 layout is preserved
-  const positions = new Map<string, { x: number; y: number }>();
-  graph.forEachNode((id, attrs) => {
-    positions.set(id, { x: attrs.x as number, y: attrs.y as number });
-  });
+  const positions = getNodePositions(graph);
 
   graph.clear();
 
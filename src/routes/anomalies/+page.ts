@@ -0,0 +1,19 @@
+import type { PageLoad } from "./$types";
+import { getUserFriendlyErrorMessage } from "$lib/services/healthCheck";
+import { inferenceApi } from "$lib/services/inferenceApi";
+
+export const load: PageLoad = async ({ fetch }) => {
+  try {
+    const [anomalies, stats] = await Promise.all([
+      inferenceApi.listPending({ fetcher: fetch }),
+      inferenceApi.fetchStats({ fetcher: fetch }),
+    ]);
+    return { anomalies, stats };
+  } catch (error) {
+    return {
+      anomalies: [],
+      stats: null,
+      error: getUserFriendlyErrorMessage(error),
+    };
+  }
+};
@@ -0,0 +1,25 @@
+import type { PageLoad } from "./$types";
+import { getUserFriendlyErrorMessage } from "$lib/services/healthCheck";
+import {
+  messageLoggerApi,
+  withSubjectCounts,
+} from "$lib/services/messageLoggerApi";
+
+export const load: PageLoad = async ({ fetch, url }) => {
+  const subject = url.searchParams.get("subject") ?? "";
+
+  try {
+    const [subjects, stats] = await Promise.all([
+      messageLoggerApi.fetchSubjects({ fetcher: fetch }),
+      messageLoggerApi.fetchStats({ fetcher: fetch }),
+    ]);
+    return { subject, subjects: withSubjectCounts(subjects, stats), stats };
+  } catch (error) {
+    return {
+      subject,
+      subjects: [],
+      stats: null,
+      error: getUserFriendlyErrorMessage(error),
+    };
+  }
+};
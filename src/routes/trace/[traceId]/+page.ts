@@ -0,0 +1,21 @@
+import type { PageLoad } from "./$types";
+import { messageLoggerApi } from "$lib/services/messageLoggerApi";
+import { getUserFriendlyErrorMessage } from "$lib/services/healthCheck";
+
+export const load: PageLoad = async ({ params, fetch }) => {
+  try {
+    const trace = await messageLoggerApi.fetchTrace(params.traceId, {
+      fetcher: fetch,
+    });
+    return {
+      traceId: params.traceId,
+      trace,
+    };
+  } catch (error) {
+    return {
+      traceId: params.traceId,
+      trace: null,
+      error: getUserFriendlyErrorMessage(error),
+    };
+  }
+};
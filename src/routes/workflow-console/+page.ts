@@ -0,0 +1,15 @@
+import type { PageLoad } from "./$types";
+import { getUserFriendlyErrorMessage } from "$lib/services/healthCheck";
+import { workflowApi } from "$lib/services/workflowApi";
+
+export const load: PageLoad = async ({ fetch }) => {
+  try {
+    const workflows = await workflowApi.listTypes({ fetcher: fetch });
+    return { workflows };
+  } catch (error) {
+    return {
+      workflows: [],
+      error: getUserFriendlyErrorMessage(error),
+    };
+  }
+};
@@ -21,6 +21,10 @@ vi.mock("sigma", () => {
     animatedZoom: vi.fn(),
     animatedUnzoom: vi.fn(),
     animatedReset: vi.fn(),
+    on: vi.fn(),
+    off: vi.fn(),
+    getState: vi.fn(),
+    setState: vi.fn(),
   };
   const MockSigma = vi.fn().mockImplementation(() => ({
     on: vi.fn(),
@@ -97,6 +101,10 @@ beforeEach(async () => {
     animatedZoom: vi.fn(),
     animatedUnzoom: vi.fn(),
     animatedReset: vi.fn(),
+    on: vi.fn(),
+    off: vi.fn(),
+    getState: vi.fn(),
+    setState: vi.fn(),
   };
   vi.mocked(sigmaModule.default).mockImplementation(
     () =>